@@ -1,20 +1,256 @@
 // Netlify Function to handle AI requests securely
 // This runs server-side, keeping the API key secure
 
-import { Handler, HandlerEvent } from '@netlify/functions'
+import { stream, HandlerEvent } from '@netlify/functions'
 import Anthropic from '@anthropic-ai/sdk'
+import { buildPrompt, createCacheKey, DEFAULT_MODEL, isCacheablePromptType, OPERATIONS, validatePromptRequest, type OperationSettings, type PromptType } from '../../src/services/prompts'
+import {
+  checkRateLimits,
+  createMemoryRateLimitStore,
+  createRedisRestRateLimitStore,
+  type RateLimitRule,
+  type RateLimitStore
+} from '../lib/rateLimit'
+import { createMemoryResponseCache } from '../lib/responseCache'
 
 const anthropic = new Anthropic({
   apiKey: process.env.ANTHROPIC_API_KEY  // Server-side env var (no VITE_ prefix)
 })
 
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'Content-Type',
-  'Access-Control-Allow-Methods': 'POST, OPTIONS'
+interface OperationConfig extends OperationSettings {
+  model: string
+  system?: string
 }
 
-export const handler: Handler = async (event: HandlerEvent) => {
+function readNumberEnv(name: string, min: number, max: number): number | undefined {
+  const raw = process.env[name]
+  if (raw === undefined || raw.trim() === '') return undefined
+
+  const value = Number(raw)
+  if (!Number.isFinite(value) || value < min || value > max) {
+    console.warn(`Ignoring ${name}=${raw}: expected a number from ${min} to ${max}`)
+    return undefined
+  }
+  return value
+}
+
+// Applies environment overrides: AI_MODEL for every operation, or AI_<TYPE>_MODEL,
+// AI_<TYPE>_MAX_TOKENS, AI_<TYPE>_TEMPERATURE and AI_<TYPE>_SYSTEM_PROMPT for one,
+// e.g. AI_GENERATE_OBJECTIVES_MAX_TOKENS=6000. `system` is the template's own system prompt, if any.
+function resolveOperation(type: PromptType, system?: string): OperationConfig {
+  const defaults = OPERATIONS[type]
+  const prefix = `AI_${type.toUpperCase().replace(/-/g, '_')}`
+  const maxTokens = readNumberEnv(`${prefix}_MAX_TOKENS`, 1, 64000)
+  const temperature = readNumberEnv(`${prefix}_TEMPERATURE`, 0, 1)
+  const systemPrompt = process.env[`${prefix}_SYSTEM_PROMPT`] || system
+
+  return {
+    model: process.env[`${prefix}_MODEL`] || process.env.AI_MODEL || DEFAULT_MODEL,
+    maxTokens: maxTokens !== undefined ? Math.round(maxTokens) : defaults.maxTokens,
+    temperature: temperature ?? defaults.temperature,
+    ...(systemPrompt ? { system: systemPrompt } : {})
+  }
+}
+
+// `truncated` tells the app the model hit its token limit and the output may be cut off;
+// `promptVersion` records which template produced the response, and `model` and `usage`
+// let the app track token spend per framework
+function describeCompletion(message: Anthropic.Message, type: string, promptVersion: string) {
+  return {
+    response: message.content[0]?.type === 'text' ? message.content[0].text : '',
+    type,
+    promptVersion,
+    model: message.model,
+    usage: {
+      inputTokens: message.usage.input_tokens,
+      outputTokens: message.usage.output_tokens
+    },
+    stopReason: message.stop_reason,
+    truncated: message.stop_reason === 'max_tokens'
+  }
+}
+
+// Comma-separated ALLOWED_ORIGINS, or "*" for any. Defaults to the site's own URLs, which
+// Netlify provides; under `netlify dev` or with none of them set, any origin is allowed.
+function readAllowedOrigins(): string[] | '*' {
+  const configured = (process.env.ALLOWED_ORIGINS ?? '').split(',').map(origin => origin.trim().replace(/\/+$/, '')).filter(Boolean)
+  if (configured.includes('*') || process.env.CONTEXT === 'dev') return '*'
+  if (configured.length > 0) return configured
+
+  const siteOrigins = [process.env.URL, process.env.DEPLOY_PRIME_URL, process.env.DEPLOY_URL].filter((url): url is string => Boolean(url))
+  return siteOrigins.length > 0 ? siteOrigins : '*'
+}
+
+const allowedOrigins = readAllowedOrigins()
+
+// Value for Access-Control-Allow-Origin, or null when the origin may not call this function
+function resolveAllowedOrigin(origin: string | undefined): string | null {
+  if (allowedOrigins === '*') return '*'
+  return origin && allowedOrigins.includes(origin) ? origin : null
+}
+
+function createCorsHeaders(allowedOrigin: string | null): Record<string, string> {
+  return {
+    ...(allowedOrigin ? { 'Access-Control-Allow-Origin': allowedOrigin } : {}),
+    'Access-Control-Allow-Headers': 'Content-Type, X-Session-Id',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Expose-Headers': 'Retry-After',
+    'Vary': 'Origin'
+  }
+}
+
+const MAX_BODY_BYTES = readNumberEnv('MAX_BODY_BYTES', 1000, 10_000_000) ?? 100_000
+
+const RATE_LIMIT_WINDOW_MS = (readNumberEnv('RATE_LIMIT_WINDOW_SECONDS', 1, 86_400) ?? 60) * 1000
+
+// A session is one browser tab; the per-IP limit is higher because a campus network can
+// put many instructors behind one address
+const RATE_LIMIT_RULES: Record<'ip' | 'session', RateLimitRule> = {
+  ip: { name: 'ip', limit: readNumberEnv('RATE_LIMIT_PER_IP', 1, 100_000) ?? 60, windowMs: RATE_LIMIT_WINDOW_MS },
+  session: { name: 'session', limit: readNumberEnv('RATE_LIMIT_PER_SESSION', 1, 100_000) ?? 20, windowMs: RATE_LIMIT_WINDOW_MS }
+}
+
+// The in-memory store is per function instance; set the Redis variables to share limits across instances
+function createRateLimitStore(): RateLimitStore {
+  const url = process.env.RATE_LIMIT_REDIS_REST_URL
+  const token = process.env.RATE_LIMIT_REDIS_REST_TOKEN
+  return url && token ? createRedisRestRateLimitStore({ url, token }) : createMemoryRateLimitStore()
+}
+
+const rateLimitStore = createRateLimitStore()
+
+function readClientIp(event: HandlerEvent): string | undefined {
+  return event.headers['x-nf-client-connection-ip'] ?? event.headers['x-forwarded-for']?.split(',')[0].trim()
+}
+
+// Session IDs come from the client, so anything that doesn't look like one is ignored
+function readSessionId(event: HandlerEvent): string | undefined {
+  const sessionId = event.headers['x-session-id']
+  return sessionId && /^[\w-]{8,64}$/.test(sessionId) ? sessionId : undefined
+}
+
+// Maps an Anthropic API failure to the status code and message sent back to the app
+function describeError(error: unknown) {
+  let statusCode = 500
+  let errorMessage = 'Failed to process AI request'
+  let errorDetails = 'Unknown error'
+
+  if (error instanceof Error) {
+    errorDetails = error.message
+    
+    // Handle specific Anthropic API errors
+    if (error.message.includes('401') || error.message.includes('authentication')) {
+      statusCode = 401
+      errorMessage = 'API authentication failed'
+      errorDetails = 'Invalid API key or authentication issue'
+    } else if (error.message.includes('403') || error.message.includes('forbidden')) {
+      statusCode = 403
+      errorMessage = 'API access forbidden'
+      errorDetails = 'API key lacks required permissions or billing issue'
+    } else if (error.message.includes('429') || error.message.includes('rate limit')) {
+      statusCode = 429
+      errorMessage = 'Rate limit exceeded'
+      errorDetails = 'Too many requests to the AI service'
+    } else if (error.message.includes('timeout')) {
+      statusCode = 504
+      errorMessage = 'Request timeout'
+      errorDetails = 'AI service request timed out'
+    } else if (error.message.includes('network') || error.message.includes('ENOTFOUND')) {
+      statusCode = 502
+      errorMessage = 'Network error'
+      errorDetails = 'Unable to connect to AI service'
+    }
+  }
+
+  return {
+    statusCode,
+    error: errorMessage,
+    details: errorDetails,
+    timestamp: new Date().toISOString(),
+    retryable: statusCode >= 500 || statusCode === 429
+  }
+}
+
+const encoder = new TextEncoder()
+
+function serverSentEvent(event: string, data: unknown): Uint8Array {
+  return encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+}
+
+type Completion = ReturnType<typeof describeCompletion>
+
+// Off unless RESPONSE_CACHE_TTL_SECONDS is set. Only operations whose result should depend on
+// their inputs alone are cached, and a request with `regenerate: true` skips the lookup.
+const RESPONSE_CACHE_TTL_MS = (readNumberEnv('RESPONSE_CACHE_TTL_SECONDS', 0, 604_800) ?? 0) * 1000
+const responseCache = RESPONSE_CACHE_TTL_MS > 0 ? createMemoryResponseCache<Completion>({ ttlMs: RESPONSE_CACHE_TTL_MS }) : null
+
+// Sends a cached completion in the same event format as a live stream, without any deltas
+function replayCompletion(completion: Completion): ReadableStream<Uint8Array> {
+  return new ReadableStream({
+    start(controller) {
+      controller.enqueue(serverSentEvent('done', completion))
+      controller.close()
+    }
+  })
+}
+
+// Streams the completion as server-sent events: `delta` for each chunk of text,
+// then `done` with the full response, or `error` if the API call fails part way
+function streamCompletion(
+  params: Anthropic.MessageCreateParamsNonStreaming,
+  type: string,
+  promptVersion: string,
+  onComplete: (completion: Completion) => void
+): ReadableStream<Uint8Array> {
+  // Set by cancel() when the client goes away; the API call is aborted and nothing more is sent
+  let messageStream: ReturnType<typeof anthropic.messages.stream> | undefined
+  let isCancelled = false
+
+  return new ReadableStream({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (!isCancelled) controller.enqueue(serverSentEvent(event, data))
+      }
+
+      try {
+        messageStream = anthropic.messages.stream(params)
+        messageStream.on('text', (text) => send('delta', { text }))
+
+        const message = await messageStream.finalMessage()
+        const completion = describeCompletion(message, type, promptVersion)
+        onComplete(completion)
+        send('done', completion)
+      } catch (error) {
+        if (!isCancelled) {
+          console.error('AI API Error:', error)
+          send('error', describeError(error))
+        }
+      } finally {
+        if (!isCancelled) controller.close()
+      }
+    },
+    cancel() {
+      isCancelled = true
+      messageStream?.abort()
+    }
+  })
+}
+
+export const handler = stream(async (event: HandlerEvent) => {
+  const allowedOrigin = resolveAllowedOrigin(event.headers.origin)
+  const corsHeaders = createCorsHeaders(allowedOrigin)
+
+  if (!allowedOrigin) {
+    return {
+      statusCode: 403,
+      headers: {
+        'Content-Type': 'application/json',
+        ...corsHeaders
+      },
+      body: JSON.stringify({ error: 'Origin not allowed' })
+    }
+  }
+
   // Handle CORS preflight
   if (event.httpMethod === 'OPTIONS') {
     return {
@@ -33,29 +269,126 @@ export const handler: Handler = async (event: HandlerEvent) => {
     }
   }
 
+  const bodyBytes = event.body ? Buffer.byteLength(event.body, event.isBase64Encoded ? 'base64' : 'utf8') : 0
+  if (bodyBytes > MAX_BODY_BYTES) {
+    return {
+      statusCode: 413,
+      headers: {
+        'Content-Type': 'application/json',
+        ...corsHeaders
+      },
+      body: JSON.stringify({ error: `Request body is larger than ${MAX_BODY_BYTES} bytes` })
+    }
+  }
+
+  const rateLimit = await checkRateLimits(rateLimitStore, [
+    { rule: RATE_LIMIT_RULES.ip, key: readClientIp(event) },
+    { rule: RATE_LIMIT_RULES.session, key: readSessionId(event) }
+  ])
+  if (!rateLimit.allowed) {
+    console.warn(`Rate limit exceeded (${rateLimit.rule}), retry after ${rateLimit.retryAfterSeconds}s`)
+    return {
+      statusCode: 429,
+      headers: {
+        'Content-Type': 'application/json',
+        'Retry-After': String(rateLimit.retryAfterSeconds),
+        ...corsHeaders
+      },
+      body: JSON.stringify({
+        error: 'Too many requests',
+        details: `Limit of ${rateLimit.limit} requests per ${RATE_LIMIT_WINDOW_MS / 1000} seconds reached`,
+        retryAfter: rateLimit.retryAfterSeconds
+      })
+    }
+  }
+
   try {
-    const { prompt, type } = JSON.parse(event.body || '{}')
-    
-    if (!prompt || !type) {
+    const body = JSON.parse(event.body || '{}')
+
+    // Prompts are only ever built here, so the key can't be used to send arbitrary text
+    if (body.prompt !== undefined) {
+      return {
+        statusCode: 400,
+        headers: {
+          'Content-Type': 'application/json',
+          ...corsHeaders
+        },
+        body: JSON.stringify({ error: 'Raw prompts are not accepted. Send the request type and a structured payload.' })
+      }
+    }
+
+    const validation = validatePromptRequest(body.type, body.payload)
+    if (!validation.success) {
+      if (validation.userMessage) {
+        console.warn(`Rejected ${String(body.type)} request with instruction-like input`)
+      }
       return {
         statusCode: 400,
         headers: {
           'Content-Type': 'application/json',
           ...corsHeaders
         },
-        body: JSON.stringify({ error: 'Missing prompt or type' })
+        body: JSON.stringify({
+          error: `Invalid request: ${validation.issues.join('; ')}`,
+          ...(validation.userMessage ? { userMessage: validation.userMessage } : {})
+        })
       }
     }
 
-    console.log(`Processing ${type} request`)
+    const { type } = validation.request
+    const streamResponse = body.stream === true
+    const { prompt, system, version } = buildPrompt(validation.request)
+    const operation = resolveOperation(type, system)
+
+    const cacheKey = responseCache && isCacheablePromptType(type) ? createCacheKey(validation.request) : null
+    const cached = cacheKey && body.regenerate !== true ? responseCache?.get(cacheKey) : undefined
+    if (cached) {
+      console.log(`Serving ${type} request from the response cache (prompt ${version})`)
+      // Nothing was sent to the API, so the replayed response costs no tokens
+      const completion = { ...cached, usage: { inputTokens: 0, outputTokens: 0 }, cached: true }
+      return {
+        statusCode: 200,
+        headers: {
+          'Content-Type': streamResponse ? 'text/event-stream' : 'application/json',
+          ...corsHeaders
+        },
+        body: streamResponse ? replayCompletion(completion) : JSON.stringify(completion)
+      }
+    }
+
+    // Truncated output is never cached, so asking again can get a complete answer
+    const storeCompletion = (completion: Completion) => {
+      if (cacheKey && !completion.truncated) responseCache?.set(cacheKey, completion)
+    }
+
+    console.log(`Processing ${type} request with prompt ${version}${streamResponse ? ' (streaming)' : ''}`)
 
-    const response = await anthropic.messages.create({
-      model: 'claude-3-7-sonnet-20250219',
-      max_tokens: 1500,
+    const params: Anthropic.MessageCreateParamsNonStreaming = {
+      model: operation.model,
+      max_tokens: operation.maxTokens,
+      ...(operation.temperature !== undefined ? { temperature: operation.temperature } : {}),
+      ...(operation.system ? { system: operation.system } : {}),
       messages: [{ role: 'user', content: prompt }]
-    })
+    }
+
+    if (streamResponse) {
+      return {
+        statusCode: 200,
+        headers: {
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache',
+          ...corsHeaders
+        },
+        body: streamCompletion(params, type, version, storeCompletion)
+      }
+    }
 
-    const aiResponse = response.content[0].type === 'text' ? response.content[0].text : ''
+    const response = await anthropic.messages.create(params)
+    const completion = describeCompletion(response, type, version)
+    storeCompletion(completion)
+    if (completion.truncated) {
+      console.warn(`${type} response reached max_tokens (${operation.maxTokens})`)
+    }
 
     return {
       statusCode: 200,
@@ -63,59 +396,20 @@ export const handler: Handler = async (event: HandlerEvent) => {
         'Content-Type': 'application/json',
         ...corsHeaders
       },
-      body: JSON.stringify({ 
-        response: aiResponse,
-        type: type
-      })
+      body: JSON.stringify(completion)
     }
 
   } catch (error) {
     console.error('AI API Error:', error)
     
-    // Determine error type and provide appropriate response
-    let statusCode = 500
-    let errorMessage = 'Failed to process AI request'
-    let errorDetails = 'Unknown error'
-
-    if (error instanceof Error) {
-      errorDetails = error.message
-      
-      // Handle specific Anthropic API errors
-      if (error.message.includes('401') || error.message.includes('authentication')) {
-        statusCode = 401
-        errorMessage = 'API authentication failed'
-        errorDetails = 'Invalid API key or authentication issue'
-      } else if (error.message.includes('403') || error.message.includes('forbidden')) {
-        statusCode = 403
-        errorMessage = 'API access forbidden'
-        errorDetails = 'API key lacks required permissions or billing issue'
-      } else if (error.message.includes('429') || error.message.includes('rate limit')) {
-        statusCode = 429
-        errorMessage = 'Rate limit exceeded'
-        errorDetails = 'Too many requests to the AI service'
-      } else if (error.message.includes('timeout')) {
-        statusCode = 504
-        errorMessage = 'Request timeout'
-        errorDetails = 'AI service request timed out'
-      } else if (error.message.includes('network') || error.message.includes('ENOTFOUND')) {
-        statusCode = 502
-        errorMessage = 'Network error'
-        errorDetails = 'Unable to connect to AI service'
-      }
-    }
-    
+    const { statusCode, ...errorBody } = describeError(error)
     return {
       statusCode,
       headers: {
         'Content-Type': 'application/json',
         ...corsHeaders
       },
-      body: JSON.stringify({ 
-        error: errorMessage,
-        details: errorDetails,
-        timestamp: new Date().toISOString(),
-        retryable: statusCode >= 500 || statusCode === 429
-      })
+      body: JSON.stringify(errorBody)
     }
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
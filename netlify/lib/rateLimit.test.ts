@@ -0,0 +1,56 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { checkRateLimits, createMemoryRateLimitStore, type RateLimitRule, type RateLimitStore } from './rateLimit'
+
+const perMinute: RateLimitRule = { name: 'ip', limit: 2, windowMs: 60_000 }
+const perHour: RateLimitRule = { name: 'session', limit: 5, windowMs: 3_600_000 }
+
+describe('checkRateLimits', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'))
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('blocks requests past the limit until the window resets', async () => {
+    const store = createMemoryRateLimitStore()
+    const check = () => checkRateLimits(store, [{ rule: perMinute, key: '203.0.113.7' }])
+
+    expect(await check()).toMatchObject({ allowed: true, remaining: 1 })
+    expect(await check()).toMatchObject({ allowed: true, remaining: 0 })
+
+    vi.advanceTimersByTime(15_000)
+    expect(await check()).toEqual({ allowed: false, rule: 'ip', limit: 2, remaining: 0, retryAfterSeconds: 45 })
+
+    vi.advanceTimersByTime(45_000)
+    expect(await check()).toMatchObject({ allowed: true, remaining: 1 })
+  })
+
+  it('counts each key separately and skips rules without one', async () => {
+    const store = createMemoryRateLimitStore()
+    await checkRateLimits(store, [{ rule: perMinute, key: 'a' }])
+    await checkRateLimits(store, [{ rule: perMinute, key: 'a' }])
+
+    expect(await checkRateLimits(store, [{ rule: perMinute, key: 'b' }])).toMatchObject({ allowed: true })
+    expect(await checkRateLimits(store, [{ rule: perMinute, key: undefined }])).toMatchObject({ allowed: true, remaining: Infinity })
+  })
+
+  it('reports the rule with the fewest requests left', async () => {
+    const store = createMemoryRateLimitStore()
+    const result = await checkRateLimits(store, [
+      { rule: perHour, key: 'session-1' },
+      { rule: perMinute, key: 'session-1' }
+    ])
+
+    expect(result).toEqual({ allowed: true, limit: 2, remaining: 1, retryAfterSeconds: 0 })
+  })
+
+  it('allows the request when the store fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    const failingStore: RateLimitStore = { increment: () => Promise.reject(new Error('unreachable')) }
+
+    expect(await checkRateLimits(failingStore, [{ rule: perMinute, key: 'a' }])).toMatchObject({ allowed: true })
+  })
+})
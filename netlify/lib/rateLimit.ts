@@ -0,0 +1,119 @@
+// Fixed-window rate limiting for the Netlify Functions. The store is pluggable: the
+// in-memory one only sees requests handled by the same function instance, so deployed
+// sites should configure a shared store.
+
+export interface RateLimitStore {
+  // Records a hit for `key` and returns the hits so far in its current window
+  increment: (key: string, windowMs: number) => Promise<{ count: number; resetAt: number }>
+}
+
+export interface RateLimitRule {
+  // Prefix for store keys, e.g. 'ip' or 'session'
+  name: string
+  limit: number
+  windowMs: number
+}
+
+export interface RateLimitResult {
+  allowed: boolean
+  // Rule that was exceeded, when the request is not allowed
+  rule?: string
+  limit: number
+  remaining: number
+  retryAfterSeconds: number
+}
+
+/**
+ * Store for local development and single-instance deployments
+ */
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const windows = new Map<string, { count: number; resetAt: number }>()
+
+  return {
+    increment: async (key, windowMs) => {
+      const now = Date.now()
+      // Drop expired windows so the map doesn't grow with every visitor
+      for (const [storedKey, window] of windows) {
+        if (window.resetAt <= now) windows.delete(storedKey)
+      }
+
+      const window = windows.get(key) ?? { count: 0, resetAt: now + windowMs }
+      window.count++
+      windows.set(key, window)
+      return { ...window }
+    }
+  }
+}
+
+export interface RedisRestStoreOptions {
+  // REST endpoint and token of a Redis service such as Upstash
+  url: string
+  token: string
+}
+
+/**
+ * Store shared by every function instance, using a Redis REST API so no client library is needed
+ */
+export function createRedisRestRateLimitStore({ url, token }: RedisRestStoreOptions): RateLimitStore {
+  return {
+    increment: async (key, windowMs) => {
+      const response = await fetch(`${url.replace(/\/+$/, '')}/pipeline`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify([
+          ['INCR', key],
+          ['PEXPIRE', key, windowMs, 'NX'],
+          ['PTTL', key]
+        ])
+      })
+      if (!response.ok) {
+        throw new Error(`Rate limit store responded with HTTP ${response.status}`)
+      }
+
+      const [count, , ttl] = await response.json() as { result: number }[]
+      return { count: count.result, resetAt: Date.now() + Math.max(ttl.result, 0) }
+    }
+  }
+}
+
+/**
+ * Checks every rule that has a key for this request; the request is allowed only if all pass.
+ * If the store fails the request is allowed, so an outage there doesn't take the app down.
+ */
+export async function checkRateLimits(
+  store: RateLimitStore,
+  checks: { rule: RateLimitRule; key: string | undefined }[]
+): Promise<RateLimitResult> {
+  let result: RateLimitResult = { allowed: true, limit: Infinity, remaining: Infinity, retryAfterSeconds: 0 }
+
+  for (const { rule, key } of checks) {
+    if (!key) continue
+
+    let window: { count: number; resetAt: number }
+    try {
+      window = await store.increment(`${rule.name}:${key}`, rule.windowMs)
+    } catch (error) {
+      console.error('Rate limit store error:', error)
+      continue
+    }
+
+    const remaining = Math.max(rule.limit - window.count, 0)
+    if (window.count > rule.limit) {
+      return {
+        allowed: false,
+        rule: rule.name,
+        limit: rule.limit,
+        remaining: 0,
+        retryAfterSeconds: Math.max(Math.ceil((window.resetAt - Date.now()) / 1000), 1)
+      }
+    }
+    if (remaining < result.remaining) {
+      result = { allowed: true, limit: rule.limit, remaining, retryAfterSeconds: 0 }
+    }
+  }
+
+  return result
+}
@@ -0,0 +1,39 @@
+// In-memory response cache for the Netlify Functions. Entries live only as long as the
+// function instance, so this saves repeat completions from a busy instance rather than
+// guaranteeing a hit.
+
+export interface ResponseCache<T> {
+  get: (key: string) => T | undefined
+  set: (key: string, value: T) => void
+}
+
+export interface MemoryResponseCacheOptions {
+  ttlMs: number
+  maxEntries?: number
+}
+
+export function createMemoryResponseCache<T>({ ttlMs, maxEntries = 200 }: MemoryResponseCacheOptions): ResponseCache<T> {
+  // Map keeps insertion order, so the first entry is always the oldest
+  const entries = new Map<string, { value: T; expiresAt: number }>()
+
+  return {
+    get: (key) => {
+      const entry = entries.get(key)
+      if (!entry) return undefined
+      if (entry.expiresAt <= Date.now()) {
+        entries.delete(key)
+        return undefined
+      }
+      return entry.value
+    },
+    set: (key, value) => {
+      entries.delete(key)
+      entries.set(key, { value, expiresAt: Date.now() + ttlMs })
+      while (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value
+        if (oldest === undefined) break
+        entries.delete(oldest)
+      }
+    }
+  }
+}
@@ -1,5 +1,9 @@
-import { useCallback, useMemo, useState } from 'react'
+import { Fragment, useCallback, useMemo, useRef, useState } from 'react'
 import type { 
+  BloomLevel,
+  Goal,
+  LearningObjective,
+  ObjectiveComponents,
   Step
 } from './types'
 import { 
@@ -19,17 +23,38 @@ import {
   refineGoalsWithAI as refineGoalsService,
   generateAssessments as generateAssessmentsService,
   generateLearningObjectives as generateLearningObjectivesService,
-  type CourseContext
+  generateItemAlternatives as generateItemAlternativesService,
+  reviseItemWithFeedback as reviseItemWithFeedbackService,
+  type AIRequestOptions,
+  type CourseContext,
+  type FrameworkContext,
+  type ItemAlternative,
+  type RegenerationTarget
 } from './services/aiService'
-import { formatFrameworkAsMarkdown } from './utils/exportFramework'
+import { isStaticMode } from './services/providers'
+import { formatFrameworkAsMarkdown, formatFrameworkAsHtml, formatAlignmentMatrixAsCsv, formatObjectivesAsCsv, type ExportData, type StrategyItem } from './utils/exportFramework'
+import { buildAlignmentMatrix } from './utils/alignment'
+import { parseAssessmentText, serializeAssessmentStrategies } from './utils/assessmentStrategies'
+import { loadApiKey } from './utils/apiKeyStorage'
 import { copyToClipboard } from './utils/clipboard'
-import { LoadingIndicator, HelpPanel, AppHeader, ProgressIndicator, StepContainer, ButtonGroup, ErrorBoundary } from './components'
+import { createExportFilename, downloadBlob } from './utils/download'
+import { printHtmlDocument } from './utils/print'
+import type { AppError } from './utils/errorHandling'
+import { createEmptyPersistedState, extractPersistedState, type PersistedState } from './utils/persistence'
+import { createFrameworkDocument, serializeFrameworkDocument } from './utils/frameworkJson'
+import { createFramework, suggestFrameworkName, type SavedFramework } from './utils/projectLibrary'
+import { getActiveObjectiveTemplate, isBuiltInTemplate, listObjectiveTemplates } from './utils/objectiveTemplates'
+import { createObjectiveComponents, deriveObjectiveComponents } from './utils/objectiveComponents'
+import { lintObjectives, replaceActionVerb } from './utils/objectiveLinter'
+import { LoadingIndicator, HelpPanel, AppHeader, ProgressIndicator, StepContainer, ButtonGroup, ErrorBoundary, ResumePrompt, ProjectLibrary, AlignmentMatrixView, FrameworkImport, InlineItemForm, ItemActions, AlternativesPicker, ItemFeedback, ObjectiveBuilder, ObjectiveTemplatesPanel, ObjectiveWarnings, AISettingsPanel, UsagePanel } from './components'
 import { useUIState, useNavigation, useCourseSetup, useGoalsManagement, useAssessments, useObjectives } from './context/AppContext'
+import { useSessionPersistence } from './hooks/useSessionPersistence'
+import { useAIUsage } from './hooks/useAIUsage'
 import './App.css'
 
 function App() {
   // Get state from context hooks
-  const { showHelp, setShowHelp, isRefining, setIsRefining, loadingMessage, setLoadingMessage, progress, setProgress, error, setError, inputErrors, setInputErrors } = useUIState()
+  const { showHelp, setShowHelp, isRefining, setIsRefining, loadingMessage, setLoadingMessage, progress, setProgress, partialItems, setPartialItems, error, setError, inputErrors, setInputErrors } = useUIState()
   const { currentStep, setCurrentStep } = useNavigation()
   const { 
     courseType, setCourseType,
@@ -42,6 +67,8 @@ function App() {
   const { goals, setGoals, currentGoal, setCurrentGoal, refinedGoals, setRefinedGoals, approvedGoals, setApprovedGoals } = useGoalsManagement()
   const { refinedAssessments, setRefinedAssessments, approvedAssessments, setApprovedAssessments } = useAssessments()
   const { refinedObjectives, setRefinedObjectives, approvedObjectives, setApprovedObjectives } = useObjectives()
+  const { resumableSession, resumeSession, discardResumableSession, activeFrameworkId, setActiveFrameworkId, restoreState } = useSessionPersistence()
+  const { aiUsage, setAIUsage, recordAIUsage } = useAIUsage()
 
   const addGoal = () => {
     return validateAndAddGoal(currentGoal, goals, {
@@ -71,11 +98,44 @@ function App() {
     })
   }
 
+  // Static mode: the user supplies their own API key in AI Settings
+  const [showSettings, setShowSettings] = useState(false)
+  const [hasApiKey, setHasApiKey] = useState(() => loadApiKey() !== null)
+  const needsApiKey = isStaticMode && !hasApiKey
+
+  const [showUsage, setShowUsage] = useState(false)
+
+  // Saved objective templates; only a custom template in use is sent with objective requests
+  const [showTemplates, setShowTemplates] = useState(false)
+  const [objectiveTemplates, setObjectiveTemplates] = useState(listObjectiveTemplates)
+  const [activeObjectiveTemplate, setActiveObjectiveTemplate] = useState(getActiveObjectiveTemplate)
+  const promptObjectiveTemplate = isBuiltInTemplate(activeObjectiveTemplate) ? undefined : activeObjectiveTemplate.template
+  const refreshObjectiveTemplates = useCallback(() => {
+    setObjectiveTemplates(listObjectiveTemplates())
+    setActiveObjectiveTemplate(getActiveObjectiveTemplate())
+  }, [])
+
+  // The AI request behind the loading state, so the user can cancel it
+  const aiRequestController = useRef<AbortController | null>(null)
+  const [cancelledStep, setCancelledStep] = useState<Step | null>(null)
+  // Step showing results reused from an identical earlier request
+  const [cachedStep, setCachedStep] = useState<Step | null>(null)
+
+  const startAIRequest = useCallback(() => {
+    aiRequestController.current?.abort()
+    aiRequestController.current = new AbortController()
+    setCancelledStep(null)
+    setCachedStep(null)
+    return aiRequestController.current.signal
+  }, [])
+
+  const cancelAIRequest = () => aiRequestController.current?.abort()
+
   const removeGoal = (id: number) => {
     setGoals(prev => prev.filter(goal => goal.id !== id))
   }
 
-  const refineGoalsWithAI = async () => {
+  const refineGoalsWithAI = async (options?: AIRequestOptions) => {
     if (!courseType) return // Guard against null courseType
     
     const context: CourseContext = {
@@ -89,13 +149,17 @@ function App() {
       setIsRefining,
       setLoadingMessage,
       setProgress,
+      setPartialItems,
       setError,
       setCurrentStep,
-      setRefinedGoals
-    })
+      setRefinedGoals,
+      onCancelled: () => setCancelledStep(currentStep),
+      onCachedResult: () => setCachedStep('review-goals'),
+      onUsage: recordAIUsage
+    }, startAIRequest(), options)
   }
 
-  const generateAssessments = useCallback(async (goalsToUse = approvedGoals) => {
+  const generateAssessments = useCallback(async (goalsToUse = approvedGoals, options?: AIRequestOptions) => {
     if (!courseType || goalsToUse.length === 0) return // Guard against null courseType and empty goals
     
     const context: CourseContext = {
@@ -109,13 +173,17 @@ function App() {
       setIsRefining,
       setLoadingMessage,
       setProgress,
+      setPartialItems,
       setError,
       setCurrentStep,
-      setRefinedAssessments
-    })
-  }, [courseType, courseSubject, targetAudience, instructionDuration, approvedGoals, setCurrentStep, setError, setIsRefining, setLoadingMessage, setProgress, setRefinedAssessments])
+      setRefinedAssessments,
+      onCancelled: () => setCancelledStep(currentStep),
+      onCachedResult: () => setCachedStep('assessments'),
+      onUsage: recordAIUsage
+    }, startAIRequest(), options)
+  }, [courseType, courseSubject, targetAudience, instructionDuration, approvedGoals, currentStep, setCurrentStep, setError, setIsRefining, setLoadingMessage, setProgress, setPartialItems, setRefinedAssessments, recordAIUsage, startAIRequest])
 
-  const generateLearningObjectives = useCallback(async (goalsToUse = approvedGoals, assessmentsToUse = approvedAssessments) => {
+  const generateLearningObjectives = useCallback(async (goalsToUse = approvedGoals, assessmentsToUse = approvedAssessments, options?: AIRequestOptions) => {
     if (!courseType || goalsToUse.length === 0 || assessmentsToUse.length === 0) return
 
     const context: CourseContext = {
@@ -133,12 +201,18 @@ function App() {
         setIsRefining,
         setLoadingMessage,
         setProgress,
+        setPartialItems,
         setError,
         setCurrentStep,
-        setRefinedObjectives
-      }
+        setRefinedObjectives,
+        onCancelled: () => setCancelledStep(currentStep),
+        onCachedResult: () => setCachedStep('review-objectives'),
+        onUsage: recordAIUsage
+      },
+      startAIRequest(),
+      { ...options, objectiveTemplate: promptObjectiveTemplate }
     )
-  }, [approvedGoals, approvedAssessments, courseType, courseSubject, targetAudience, instructionDuration, setCurrentStep, setError, setIsRefining, setLoadingMessage, setProgress, setRefinedObjectives])
+  }, [approvedGoals, approvedAssessments, courseType, courseSubject, targetAudience, instructionDuration, promptObjectiveTemplate, currentStep, setCurrentStep, setError, setIsRefining, setLoadingMessage, setProgress, setPartialItems, setRefinedObjectives, recordAIUsage, startAIRequest])
 
   const approveAssessments = useCallback(async () => {
     setApprovedAssessments(refinedAssessments)
@@ -207,27 +281,120 @@ function App() {
       setRefinedAssessments,
       setApprovedAssessments,
       setRefinedObjectives,
-      setApprovedObjectives
+      setApprovedObjectives,
+      setAIUsage,
+      setActiveFrameworkId
     }
     resetApplication(actions)
   }
 
+  // Print / Save as PDF state and handler
+  const [printStatus, setPrintStatus] = useState<'idle' | 'error'>('idle')
+
+  const handlePrintFramework = async () => {
+    const printed = await printHtmlDocument(formatFrameworkAsHtml(buildExportData()))
+    if (!printed) {
+      setPrintStatus('error')
+      setTimeout(() => setPrintStatus('idle'), 4000)
+    }
+  }
+
+  // Alignment matrix CSV download
+  const handleDownloadAlignmentCsv = () => {
+    const csv = formatAlignmentMatrixAsCsv(buildAlignmentMatrix(buildExportData()))
+    downloadBlob(new Blob([csv], { type: 'text/csv;charset=utf-8' }), createExportFilename(courseSubject, 'csv', 'alignment-matrix'))
+  }
+
+  // Objectives with their ABCD parts, one row each
+  const handleDownloadObjectivesCsv = () => {
+    const csv = formatObjectivesAsCsv(buildExportData())
+    downloadBlob(new Blob([csv], { type: 'text/csv;charset=utf-8' }), createExportFilename(courseSubject, 'csv', 'objectives'))
+  }
+
+  // Project library handlers
+  const [librarySaveStatus, setLibrarySaveStatus] = useState<'idle' | 'error'>('idle')
+
+  // A session offered for resuming that was never saved to the library is lost once another
+  // framework replaces it, so ask first
+  const confirmDiscardUnsavedSession = () =>
+    !resumableSession || resumableSession.frameworkId !== null ||
+    window.confirm('Your previous session has not been saved to the library and will be discarded. Continue?')
+
+  const handleOpenFramework = (framework: SavedFramework) => {
+    if (!confirmDiscardUnsavedSession()) return
+    restoreState(framework.state)
+    setActiveFrameworkId(framework.id)
+  }
+
+  const handleNewFramework = (name: string) => {
+    if (!confirmDiscardUnsavedSession()) return
+    resetApp()
+    const framework = createFramework(name, createEmptyPersistedState())
+    setActiveFrameworkId(framework ? framework.id : null)
+  }
+
+  // Imported frameworks start detached so they never overwrite a library entry
+  const handleImportFramework = (state: PersistedState) => {
+    restoreState(state)
+    setActiveFrameworkId(null)
+  }
+
+  const handleFrameworkDeleted = (id: string) => {
+    if (id === activeFrameworkId) {
+      setActiveFrameworkId(null)
+    }
+  }
+
+  const getPersistedState = (): PersistedState => extractPersistedState({
+    currentStep,
+    courseType,
+    courseSubject,
+    targetAudience,
+    instructionDuration,
+    isSubjectConfirmed,
+    isSetupComplete,
+    goals,
+    currentGoal,
+    refinedGoals,
+    approvedGoals,
+    refinedAssessments,
+    approvedAssessments,
+    refinedObjectives,
+    approvedObjectives,
+    aiUsage
+  })
+
+  const handleSaveToLibrary = () => {
+    const state = getPersistedState()
+    const framework = createFramework(suggestFrameworkName(state), state)
+
+    if (framework) {
+      setActiveFrameworkId(framework.id)
+    } else {
+      setLibrarySaveStatus('error')
+      setTimeout(() => setLibrarySaveStatus('idle'), 4000)
+    }
+  }
+
+  // Shared input for every export format
+  const buildExportData = (): ExportData => ({
+    courseType: courseType || '',
+    courseSubject,
+    targetAudience,
+    instructionDuration,
+    originalGoals: goals.map(g => g.description),
+    approvedGoals,
+    approvedAssessments,
+    approvedObjectives,
+    parseAssessment: parseAssessmentText
+  })
+
   // Copy framework to clipboard state and handler
   const [copyStatus, setCopyStatus] = useState<'idle' | 'success' | 'error'>('idle')
 
   const handleCopyFramework = async () => {
     try {
-      const exportData = {
-        courseType: courseType || '',
-        courseSubject,
-        originalGoals: goals.map(g => g.description),
-        approvedGoals,
-        approvedAssessments,
-        approvedObjectives,
-        parseAssessment: parseAssessmentText
-      }
-
-      const markdown = formatFrameworkAsMarkdown(exportData)
+      const markdown = formatFrameworkAsMarkdown(buildExportData())
       const success = await copyToClipboard(markdown)
       
       if (success) {
@@ -246,11 +413,94 @@ function App() {
     }
   }
 
+  // Word download state and handler
+  const [docxStatus, setDocxStatus] = useState<'idle' | 'working' | 'error'>('idle')
+
+  const handleDownloadDocx = async () => {
+    setDocxStatus('working')
+    try {
+      // Load the docx generator only when it is actually needed
+      const { formatFrameworkAsDocx } = await import('./utils/exportDocx')
+      const blob = await formatFrameworkAsDocx(buildExportData())
+      downloadBlob(blob, createExportFilename(courseSubject, 'docx'))
+      setDocxStatus('idle')
+    } catch (err) {
+      console.error('Error creating Word document:', err)
+      setDocxStatus('error')
+      setTimeout(() => setDocxStatus('idle'), 4000)
+    }
+  }
+
+  // JSON export of the complete framework
+  const handleDownloadJson = () => {
+    const state = getPersistedState()
+    const json = serializeFrameworkDocument(createFrameworkDocument(state, suggestFrameworkName(state)))
+    downloadBlob(new Blob([json], { type: 'application/json' }), createExportFilename(courseSubject, 'json'))
+  }
+
+  // Re-runs the request behind the current step's results without using the cache
+  const regenerateCachedResult = () => {
+    if (currentStep === 'review-goals') {
+      refineGoalsWithAI({ bypassCache: true })
+    } else if (currentStep === 'assessments') {
+      generateAssessments(approvedGoals, { bypassCache: true })
+    } else if (currentStep === 'review-objectives') {
+      generateLearningObjectives(approvedGoals, approvedAssessments, { bypassCache: true })
+    }
+  }
+
+  // Progress while a bulk AI request runs; afterwards, a note if the user cancelled it here
+  const renderLoadingState = () => isRefining ? (
+    <LoadingIndicator message={loadingMessage} progress={progress} items={partialItems} onCancel={cancelAIRequest} />
+  ) : cancelledStep === currentStep && (
+    <p className="cancel-notice" role="status">Request cancelled. Nothing was changed.</p>
+  )
+
+  // Shown above results that were reused from an identical earlier request
+  const renderCacheNotice = () => cachedStep === currentStep && !isRefining && (
+    <div className="cache-notice" role="status">
+      <span>↺ Same inputs as an earlier request, so these are the same results as before.</span>
+      <button className="item-action" onClick={regenerateCachedResult}>
+        Regenerate anyway
+      </button>
+    </div>
+  )
+
   const renderIntro = () => (
     <StepContainer 
       title="Welcome to the Course Goal Builder"
       description={`This tool will help you define clear, actionable goals for your ${courseType || 'course/workshop'} using backward design principles.`}
     >
+      {needsApiKey && (
+        <div className="api-key-notice">
+          <p>This copy of the app connects to the AI with your own Anthropic API key. Add one to get AI suggestions.</p>
+          <button className="primary-button" onClick={() => setShowSettings(true)}>
+            Add API Key
+          </button>
+        </div>
+      )}
+
+      {!courseType && resumableSession && (
+        <ResumePrompt
+          session={resumableSession}
+          onResume={resumeSession}
+          onDiscard={discardResumableSession}
+        />
+      )}
+
+      {!courseType && (
+        <ProjectLibrary
+          activeFrameworkId={activeFrameworkId}
+          onOpen={handleOpenFramework}
+          onNew={handleNewFramework}
+          onDeleted={handleFrameworkDeleted}
+        />
+      )}
+
+      {!courseType && (
+        <FrameworkImport onImport={handleImportFramework} />
+      )}
+
       {!courseType ? (
         <div className="selection-container">
           <h3>What type of instruction are you planning?</h3>
@@ -520,20 +770,233 @@ function App() {
         </button>
         <button
           className="primary-button"
-          onClick={refineGoalsWithAI}
+          onClick={() => refineGoalsWithAI()}
           disabled={goals.length === 0 || isRefining}
         >
           {isRefining ? 'Refining Goals...' : 'Refine Goals with AI'}
         </button>
       </ButtonGroup>
 
-      {isRefining && (
-        <LoadingIndicator message={loadingMessage} progress={progress} />
-      )}
+      {renderLoadingState()}
     </StepContainer>
     );
   }
 
+  // Inline editing of refined goals, assessment strategies and objectives before approval.
+  // Only one item is edited at a time; keys look like "goal-<id>" or "add-objective-<goalId>".
+  const [editingItem, setEditingItem] = useState<string | null>(null)
+
+  const handleUpdateRefinedGoal = (id: number, description: string, promptVersion?: string) => {
+    setRefinedGoals(refinedGoals.map(goal => goal.id === id ? { ...goal, description, ...(promptVersion ? { promptVersion } : {}) } : goal))
+    setEditingItem(null)
+  }
+
+  // Refined goals keep the ID of the goal they were refined from; goals added during review have none
+  const findOriginalGoal = (goal: Goal) => goals.find(original => original.id === goal.id)
+
+  const handleDeleteRefinedGoal = (id: number) => {
+    setRefinedGoals(refinedGoals.filter(goal => goal.id !== id))
+  }
+
+  const handleAddRefinedGoal = (description: string) => {
+    setRefinedGoals([...refinedGoals, { id: Date.now(), description, isRefined: false }])
+    setEditingItem(null)
+  }
+
+  const saveAssessmentDescription = (goalId: number, description: string, promptVersion?: string) => {
+    const existing = refinedAssessments.find(assessment => assessment.goalId === goalId)
+    const version = promptVersion ? { promptVersion } : {}
+
+    setRefinedAssessments(existing
+      ? refinedAssessments.map(assessment => assessment.goalId === goalId ? { ...assessment, description, ...version } : assessment)
+      : [...refinedAssessments, { id: Date.now(), goalId, description, ...version }])
+    setEditingItem(null)
+  }
+
+  const saveStrategies = (goalId: number, strategies: StrategyItem[]) => {
+    saveAssessmentDescription(goalId, serializeAssessmentStrategies(strategies))
+  }
+
+  const handleUpdateStrategy = (goalId: number, strategies: StrategyItem[], index: number, updated: StrategyItem) => {
+    saveStrategies(goalId, strategies.map((strategy, i) => i === index ? updated : strategy))
+  }
+
+  const handleDeleteStrategy = (goalId: number, strategies: StrategyItem[], index: number) => {
+    saveStrategies(goalId, strategies.filter((_, i) => i !== index))
+  }
+
+  const handleAddStrategy = (goalId: number, strategies: StrategyItem[], added: StrategyItem) => {
+    saveStrategies(goalId, [...strategies, added])
+  }
+
+  // AI results and the ABCD builder supply their own components; a sentence edited by hand is
+  // read again, and one left unchanged keeps the components it had
+  const handleUpdateObjective = (id: number, bloomLevel: BloomLevel, description: string, components?: ObjectiveComponents, promptVersion?: string) => {
+    setRefinedObjectives(refinedObjectives.map(obj => obj.id === id
+      ? {
+          ...obj,
+          bloomLevel,
+          description,
+          components: components ?? (description === obj.description ? obj.components : deriveObjectiveComponents(description, targetAudience)),
+          ...(promptVersion ? { promptVersion } : {})
+        }
+      : obj))
+    setEditingItem(null)
+  }
+
+  // Swaps a verb the quality checks flagged, in both the sentence and its stored behavior
+  const handleReplaceObjectiveVerb = (objective: LearningObjective, phrase: string, replacement: string) => {
+    const description = replaceActionVerb(objective.description, phrase, replacement)
+    if (!description) return
+
+    const components = objective.components && createObjectiveComponents({
+      ...objective.components,
+      behavior: objective.components.behavior && (replaceActionVerb(objective.components.behavior, phrase, replacement) ?? objective.components.behavior)
+    })
+    handleUpdateObjective(objective.id, objective.bloomLevel, description, components)
+  }
+
+  const objectiveIssues = useMemo(() => lintObjectives(refinedObjectives), [refinedObjectives])
+
+  const handleDeleteObjective = (id: number) => {
+    setRefinedObjectives(refinedObjectives.filter(obj => obj.id !== id))
+  }
+
+  const handleAddObjective = (goalId: number, bloomLevel: BloomLevel, description: string, components?: ObjectiveComponents) => {
+    const relatedAssessment = approvedAssessments.find(a => a.goalId === goalId)
+    setRefinedObjectives([...refinedObjectives, {
+      id: Date.now(),
+      goalId,
+      bloomLevel,
+      description,
+      assessmentAlignment: relatedAssessment ? relatedAssessment.description : 'Assessment alignment needed',
+      components: components ?? deriveObjectiveComponents(description, targetAudience)
+    }])
+    setEditingItem(null)
+  }
+
+  // Per-item regeneration: "Regenerate" replaces the item directly, "Alternatives" offers a choice of three
+  const [regeneratingItem, setRegeneratingItem] = useState<string | null>(null)
+  const [itemAlternatives, setItemAlternatives] = useState<{
+    key: string
+    target: RegenerationTarget
+    options: ItemAlternative[]
+  } | null>(null)
+  const [feedbackItem, setFeedbackItem] = useState<string | null>(null)
+  const isItemBusy = isRefining || regeneratingItem !== null
+
+  const applyItemAlternative = (target: RegenerationTarget, alternative: ItemAlternative) => {
+    if (target.kind === 'goal') {
+      handleUpdateRefinedGoal(target.goal.id, alternative.description, alternative.promptVersion)
+    } else if (target.kind === 'assessment') {
+      saveAssessmentDescription(target.goal.id, alternative.description, alternative.promptVersion)
+    } else {
+      handleUpdateObjective(target.objective.id, alternative.bloomLevel ?? target.objective.bloomLevel, alternative.description, alternative.components, alternative.promptVersion)
+    }
+    setItemAlternatives(null)
+  }
+
+  const requestItemAlternatives = async (key: string, target: RegenerationTarget, framework: FrameworkContext, count: number) => {
+    if (!courseType) return
+
+    setEditingItem(null)
+    setItemAlternatives(null)
+    setFeedbackItem(null)
+    setRegeneratingItem(key)
+    setError('')
+
+    try {
+      const options = await generateItemAlternativesService(target, framework, {
+        courseType,
+        courseSubject,
+        targetAudience,
+        instructionDuration
+      }, count, recordAIUsage)
+
+      if (count === 1) {
+        applyItemAlternative(target, options[0])
+      } else {
+        setItemAlternatives({ key, target, options })
+      }
+    } catch (err) {
+      console.error('Error regenerating item:', err)
+      setError(err && typeof err === 'object' && 'userMessage' in err
+        ? (err as AppError).userMessage
+        : 'We couldn\'t regenerate this item. Please try again.')
+    } finally {
+      setRegeneratingItem(null)
+    }
+  }
+
+  const regenerateGoal = (goal: Goal, count: number) => requestItemAlternatives(
+    `goal-${goal.id}`,
+    { kind: 'goal', goal, originalGoal: findOriginalGoal(goal) },
+    { goals: refinedGoals, assessments: [], objectives: [] },
+    count
+  )
+
+  const regenerateAssessment = (goal: Goal, count: number) => requestItemAlternatives(
+    `assessment-${goal.id}`,
+    { kind: 'assessment', goal, assessment: refinedAssessments.find(a => a.goalId === goal.id) },
+    { goals: approvedGoals, assessments: refinedAssessments, objectives: [] },
+    count
+  )
+
+  const regenerateObjective = (goal: Goal, objective: LearningObjective, count: number) => requestItemAlternatives(
+    `objective-${objective.id}`,
+    { kind: 'objective', goal, objective, objectiveTemplate: promptObjectiveTemplate },
+    { goals: approvedGoals, assessments: approvedAssessments, objectives: refinedObjectives },
+    count
+  )
+
+  const renderItemAlternatives = (key: string) => itemAlternatives?.key === key && (
+    <AlternativesPicker
+      alternatives={itemAlternatives.options}
+      onChoose={(alternative) => applyItemAlternative(itemAlternatives.target, alternative)}
+      onDismiss={() => setItemAlternatives(null)}
+    />
+  )
+
+  // Per-item feedback: the user describes a change and accepts or rejects the AI's revision
+  const openItemFeedback = (key: string) => {
+    setEditingItem(null)
+    setItemAlternatives(null)
+    setFeedbackItem(key)
+  }
+
+  const requestItemRevision = (target: RegenerationTarget, instruction: string) => {
+    if (!courseType) return Promise.reject(new Error('Course setup is incomplete'))
+
+    return reviseItemWithFeedbackService(target, instruction, {
+      courseType,
+      courseSubject,
+      targetAudience,
+      instructionDuration
+    }, recordAIUsage)
+  }
+
+  const describeAssessmentForDiff = (description: string) => parseAssessmentText(description)
+    .map(strategy => strategy.title ? `${strategy.title}: ${strategy.description}` : strategy.description)
+    .join('\n')
+
+  const renderItemFeedback = (
+    key: string,
+    target: RegenerationTarget,
+    currentText: string,
+    describe: (revision: ItemAlternative) => string
+  ) => feedbackItem === key && (
+    <ItemFeedback
+      currentText={currentText}
+      describe={describe}
+      onRequestRevision={(instruction) => requestItemRevision(target, instruction)}
+      onAccept={(revision) => {
+        applyItemAlternative(target, revision)
+        setFeedbackItem(null)
+      }}
+      onClose={() => setFeedbackItem(null)}
+    />
+  )
+
   const renderApprove = () => (
     <StepContainer 
       title="Review Refined Goals"
@@ -547,32 +1010,77 @@ function App() {
         </div>
       )}
 
+      {renderCacheNotice()}
+
       <div className="goal-comparison-sections">
         {refinedGoals.map((refinedGoal, index) => {
-          const originalGoal = goals[index] // Assuming they maintain the same order
+          const originalGoal = findOriginalGoal(refinedGoal)
+          const itemKey = `goal-${refinedGoal.id}`
           
           return (
             <div key={refinedGoal.id} className="goal-comparison-section">
               <div className="goal-header">
-                <h3>Goal {index + 1}: {originalGoal?.description}</h3>
+                <h3>Goal {index + 1}: {originalGoal?.description || 'Your own goal'}</h3>
               </div>
               
               <div className="refined-goal">
-                <h4 className="goal-section-header">AI-Refined Goal:</h4>
-                <p className="refined-goal-text">{refinedGoal.description}</p>
+                <h4 className="goal-section-header">{refinedGoal.isRefined === false ? 'Your Goal:' : 'AI-Refined Goal:'}</h4>
+                {editingItem === itemKey ? (
+                  <InlineItemForm
+                    description={refinedGoal.description}
+                    placeholder="Describe what students will be able to do"
+                    onSubmit={({ description }) => handleUpdateRefinedGoal(refinedGoal.id, description)}
+                    onCancel={() => setEditingItem(null)}
+                  />
+                ) : (
+                  <>
+                    <p className="refined-goal-text">{refinedGoal.description}</p>
+                    <ItemActions
+                      itemLabel={`goal ${index + 1}`}
+                      onEdit={() => setEditingItem(itemKey)}
+                      onRegenerate={() => regenerateGoal(refinedGoal, 1)}
+                      onAlternatives={() => regenerateGoal(refinedGoal, 3)}
+                      onFeedback={() => openItemFeedback(itemKey)}
+                      onDelete={() => handleDeleteRefinedGoal(refinedGoal.id)}
+                      disabled={isItemBusy}
+                      busyMessage={regeneratingItem === itemKey ? 'Generating...' : undefined}
+                    />
+                    {renderItemAlternatives(itemKey)}
+                    {renderItemFeedback(
+                      itemKey,
+                      { kind: 'goal', goal: refinedGoal, originalGoal },
+                      refinedGoal.description,
+                      (revision) => revision.description
+                    )}
+                  </>
+                )}
               </div>
             </div>
           )
         })}
       </div>
 
+      {editingItem === 'add-goal' ? (
+        <InlineItemForm
+          description=""
+          placeholder="Describe what students will be able to do"
+          submitLabel="Add Goal"
+          onSubmit={({ description }) => handleAddRefinedGoal(description)}
+          onCancel={() => setEditingItem(null)}
+        />
+      ) : (
+        <button className="add-item-button" onClick={() => setEditingItem('add-goal')} disabled={isItemBusy}>
+          + Add My Own Goal
+        </button>
+      )}
+
       <div className="confirmation-question">
         <h3>Are you happy with these refined goals?</h3>
         <ButtonGroup>
           <button
             className="primary-button"
             onClick={approveGoals}
-            disabled={isRefining}
+            disabled={isItemBusy || editingItem !== null || refinedGoals.length === 0}
           >
             {isRefining ? 'SAVING AND GENERATING ASSESSMENTS...' : 'SAVE AND CONTINUE'}
           </button>
@@ -585,9 +1093,7 @@ function App() {
         </ButtonGroup>
       </div>
 
-      {isRefining && (
-        <LoadingIndicator message={loadingMessage} progress={progress} />
-      )}
+      {renderLoadingState()}
     </StepContainer>
   )
 
@@ -599,78 +1105,105 @@ function App() {
       description="Here are the AI-generated assessment strategies for each of your learning goals:"
     >
 
+      {error && (
+        <div className="error-message">
+          <i className="error-icon">⚠️</i>
+          {error}
+        </div>
+      )}
+
+      {renderCacheNotice()}
+
       {approvedGoals.map((goal, goalIndex) => {
         // Find the assessment that matches this specific goal ID
         const correspondingAssessment = refinedAssessments.find(assessment => assessment.goalId === goal.id)
-        const originalGoal = goals[goalIndex] // Get the original goal that user submitted
-        
-        // Debug logging for troubleshooting
-        console.log(`Goal ${goalIndex + 1} (ID: ${goal.id}):`, goal.description)
-        console.log(`Looking for assessment with goalId: ${goal.id}`)
-        console.log('Found assessment:', correspondingAssessment)
-        console.log('All refinedAssessments:', refinedAssessments.map(a => ({ id: a.id, goalId: a.goalId, description: a.description.substring(0, 50) + '...' })))
-        
-        if (!correspondingAssessment) {
-          console.error(`No assessment found for goal ${goalIndex + 1} with ID ${goal.id}`)
-          return (
-            <div key={`missing-${goal.id}`} className="assessment-review-section">
-              <div className="goal-header">
-                <h3>Goal {goalIndex + 1}: {originalGoal?.description || 'Unknown Goal'}</h3>
-                <p className="goal-text">{goal.description}</p>
-              </div>
-              
-              <div className="assessment-strategies-content">
-                <h4>Assessment Strategies:</h4>
-                <div className="error-message">
-                  <i className="error-icon">⚠️</i>
-                  No assessment strategies were generated for this goal. Please try regenerating assessments or contact support.
-                </div>
-              </div>
-            </div>
-          )
-        }
-        
-        const assessmentStrategies = parseAssessmentText(correspondingAssessment.description)
-        
-        // Debug logging for strategy parsing
-        console.log(`Assessment description for goal ${goalIndex + 1}:`, correspondingAssessment.description)
-        console.log(`Parsed strategies for goal ${goalIndex + 1}:`, assessmentStrategies)
+        const originalGoal = findOriginalGoal(goal) // Get the original goal that user submitted
+        const assessmentStrategies = correspondingAssessment ? parseAssessmentText(correspondingAssessment.description) : []
+        const addKey = `add-strategy-${goal.id}`
+        const assessmentKey = `assessment-${goal.id}`
         
         return (
-          <div key={correspondingAssessment.id} className="assessment-review-section">
+          <div key={goal.id} className="assessment-review-section">
             <div className="goal-header">
-              <h3>Goal {goalIndex + 1}: {originalGoal?.description || 'Unknown Goal'}</h3>
+              <h3>Goal {goalIndex + 1}: {originalGoal?.description || 'Your own goal'}</h3>
               <p className="goal-text">{goal.description}</p>
             </div>
             
             <div className="assessment-strategies-content">
               <h4>Assessment Strategies:</h4>
-              {assessmentStrategies.length > 1 ? (
+              {assessmentStrategies.length > 0 ? (
                 <ul className="assessment-strategies-list">
-                  {assessmentStrategies.map((strategy, index) => (
-                    <li key={index} className="assessment-strategy-item">
-                      {strategy.title ? (
-                        <div className="strategy-with-title">
-                          <div className="strategy-title">{strategy.title}</div>
-                          <div className="strategy-description">{strategy.description}</div>
-                        </div>
-                      ) : (
-                        <div className="strategy-full-text">{strategy.description}</div>
-                      )}
-                    </li>
-                  ))}
+                  {assessmentStrategies.map((strategy, index) => {
+                    const itemKey = `strategy-${goal.id}-${index}`
+
+                    return (
+                      <li key={index} className="assessment-strategy-item">
+                        {editingItem === itemKey ? (
+                          <InlineItemForm
+                            title={strategy.title ?? ''}
+                            description={strategy.description}
+                            placeholder="Describe how students will show what they learned"
+                            onSubmit={({ title, description }) => handleUpdateStrategy(goal.id, assessmentStrategies, index, { title, description })}
+                            onCancel={() => setEditingItem(null)}
+                          />
+                        ) : (
+                          <>
+                            {strategy.title ? (
+                              <div className="strategy-with-title">
+                                <div className="strategy-title">{strategy.title}</div>
+                                <div className="strategy-description">{strategy.description}</div>
+                              </div>
+                            ) : (
+                              <div className="strategy-full-text">{strategy.description}</div>
+                            )}
+                            <ItemActions
+                              itemLabel={`strategy ${index + 1} for goal ${goalIndex + 1}`}
+                              onEdit={() => setEditingItem(itemKey)}
+                              onDelete={() => handleDeleteStrategy(goal.id, assessmentStrategies, index)}
+                              disabled={isItemBusy}
+                            />
+                          </>
+                        )}
+                      </li>
+                    )
+                  })}
                 </ul>
-              ) : assessmentStrategies.length === 1 ? (
-                assessmentStrategies[0].title ? (
-                  <div className="single-strategy-with-title">
-                    <h5 className="single-strategy-title">{assessmentStrategies[0].title}</h5>
-                    <div className="single-strategy-description">{assessmentStrategies[0].description}</div>
-                  </div>
-                ) : (
-                  <div className="assessment-text">{assessmentStrategies[0].description}</div>
-                )
               ) : (
-                <div className="assessment-text">{correspondingAssessment.description || 'No assessment description available'}</div>
+                <div className="error-message">
+                  <i className="error-icon">⚠️</i>
+                  No assessment strategies for this goal yet. Add your own below or go back and regenerate them.
+                </div>
+              )}
+
+              {editingItem === addKey ? (
+                <InlineItemForm
+                  title=""
+                  description=""
+                  placeholder="Describe how students will show what they learned"
+                  submitLabel="Add Strategy"
+                  onSubmit={({ title, description }) => handleAddStrategy(goal.id, assessmentStrategies, { title, description })}
+                  onCancel={() => setEditingItem(null)}
+                />
+              ) : (
+                <button className="add-item-button" onClick={() => setEditingItem(addKey)} disabled={isItemBusy}>
+                  + Add My Own Strategy
+                </button>
+              )}
+
+              <ItemActions
+                itemLabel={`assessment strategies for goal ${goalIndex + 1}`}
+                onRegenerate={() => regenerateAssessment(goal, 1)}
+                onAlternatives={() => regenerateAssessment(goal, 3)}
+                onFeedback={correspondingAssessment ? () => openItemFeedback(assessmentKey) : undefined}
+                disabled={isItemBusy}
+                busyMessage={regeneratingItem === assessmentKey ? 'Generating new strategies...' : undefined}
+              />
+              {renderItemAlternatives(assessmentKey)}
+              {renderItemFeedback(
+                assessmentKey,
+                { kind: 'assessment', goal, assessment: correspondingAssessment },
+                describeAssessmentForDiff(correspondingAssessment?.description ?? ''),
+                (revision) => describeAssessmentForDiff(revision.description)
               )}
             </div>
           </div>
@@ -683,7 +1216,7 @@ function App() {
           <button
             className="primary-button"
             onClick={approveAssessments}
-            disabled={isRefining}
+            disabled={isItemBusy || editingItem !== null}
           >
             {isRefining ? 'SAVING AND GENERATING OBJECTIVES...' : 'SAVE AND CONTINUE'}
           </button>
@@ -696,9 +1229,7 @@ function App() {
         </ButtonGroup>
       </div>
 
-      {isRefining && (
-        <LoadingIndicator message={loadingMessage} progress={progress} />
-      )}
+      {renderLoadingState()}
     </StepContainer>
   )
 
@@ -706,195 +1237,32 @@ function App() {
 
   
 
-  // Helper function to parse assessment text and detect titles vs descriptions
-  const parseAssessmentText = useCallback((description: string) => {
-    if (!description || description.trim().length === 0) {
-      return []
-    }
-
-    // Structure to hold parsed assessments with titles and descriptions
-    interface AssessmentStrategy {
-      title?: string;
-      description: string;
-      isFullText?: boolean;
-    }
-
-    let strategies: AssessmentStrategy[] = []
-    
-    // Method 1: Look for markdown titles followed by content (e.g., "**Title**: Description")
-    const markdownTitlePattern = /\*\s*\*\*([^*]+?)\*\*:\s*(.+?)(?=\*\s*\*\*[^*]+?\*\*:|$)/gs
-    const markdownMatches = Array.from(description.matchAll(markdownTitlePattern))
-    
-    if (markdownMatches.length > 0) {
-      strategies = markdownMatches.map(match => ({
-        title: match[1].trim(),
-        description: match[2].trim()
-      }))
-    }
-    
-    // Method 2: Look for simple title-colon-description pattern (e.g., "Title: Description")
-    if (strategies.length === 0) {
-      const titleColonPattern = /([^:]+?):\s*(.+?)(?=\n[^:]+?:|$)/gs
-      const titleColonMatches = Array.from(description.matchAll(titleColonPattern))
-      
-      if (titleColonMatches.length > 0) {
-        strategies = titleColonMatches.map(match => ({
-          title: match[1].trim().replace(/\.$/, '').replace(/^\*+\s*|\*+$/g, ''), // Remove asterisks and periods
-          description: match[2].trim()
-        }))
-      }
-    }
-    
-    // Method 3: Split on asterisk-separated strategies pattern
-    if (strategies.length === 0) {
-      // Look for patterns like "* **Title**: Description"
-      const asteriskStrategyPattern = /\*\s*\*\*([^*]+?)\*\*:\s*([^*]+?)(?=\*\s*\*\*|$)/gs
-      const asteriskStrategyMatches = Array.from(description.matchAll(asteriskStrategyPattern))
-      
-      if (asteriskStrategyMatches.length > 0) {
-        strategies = asteriskStrategyMatches.map(match => ({
-          title: match[1].trim(),
-          description: match[2].trim()
-        }))
-      } else {
-        // Fallback: simple asterisk splitting
-        const asteriskParts = description
-          .split(/\s*\*\s*/)
-          .map(item => item.trim())
-          .filter(item => item.length > 10)
-        
-        if (asteriskParts.length > 1) {
-          strategies = asteriskParts.map(part => {
-            // Check if this part has a title pattern
-            const titleMatch = part.match(/^\*\*([^*]+?)\*\*:\s*(.+)/)
-            if (titleMatch) {
-              return {
-                title: titleMatch[1].trim(),
-                description: titleMatch[2].trim()
-              }
-            }
-            return {
-              description: part.replace(/^\*+\s*/, ''), // Remove leading asterisks
-              isFullText: true
-            }
-          })
-        }
-      }
-    }
-    
-    // Method 4: Split on numbered lists (1., 2., etc.)
-    if (strategies.length === 0) {
-      const numberedParts = description
-        .split(/\d+\.\s*/)
-        .map(item => item.trim())
-        .filter(item => item.length > 10)
-      
-      if (numberedParts.length > 1) {
-        strategies = numberedParts.map(part => ({
-          description: part,
-          isFullText: true
-        }))
-      }
-    }
-    
-    // Method 5: Split on bullet points (including • in middle of text)
-    if (strategies.length === 0) {
-      const bulletParts = description
-        .split(/\s*[•]\s*/)
-        .map(item => item.trim())
-        .filter(item => item.length > 15)
-      
-      if (bulletParts.length > 1) {
-        strategies = bulletParts.map(part => ({
-          description: part,
-          isFullText: true
-        }))
-      }
-    }
-    
-    // Method 6: Split on assessment action patterns (Consider, Students, Create, etc.)
-    if (strategies.length === 0) {
-      const actionParts = description
-        .split(/\.\s+(?=(?:Consider|Students|Create|Implement|Develop|A formative|Portfolio)\b)/)
-        .map(item => item.trim())
-        .filter(item => item.length > 20)
-        .map(item => item.endsWith('.') ? item : item + '.')
-      
-      if (actionParts.length > 1) {
-        strategies = actionParts.map(part => ({
-          description: part,
-          isFullText: true
-        }))
-      }
-    }
-    
-    // Method 7: Split on periods followed by capital letters (general sentence boundaries)
-    if (strategies.length === 0) {
-      const sentenceParts = description
-        .split(/\.\s+(?=[A-Z])/)
-        .map(item => item.trim())
-        .filter(item => item.length > 30)
-        .map(item => item.endsWith('.') ? item : item + '.')
-      
-      if (sentenceParts.length > 1 && sentenceParts.length <= 5) { // Avoid too many tiny fragments
-        strategies = sentenceParts.map(part => ({
-          description: part,
-          isFullText: true
-        }))
-      }
-    }
-    
-    // Method 8: Split on double line breaks (paragraphs)
-    if (strategies.length === 0) {
-      const paragraphs = description
-        .split(/\n\s*\n/)
-        .map(item => item.trim())
-        .filter(item => item.length > 15)
-      
-      if (paragraphs.length > 1) {
-        strategies = paragraphs.map(part => ({
-          description: part,
-          isFullText: true
-        }))
-      }
-    }
-    
-    // Fallback: Return the full description as a single strategy
-    if (strategies.length === 0) {
-      strategies = [{
-        description: description,
-        isFullText: true
-      }]
-    }
-    
-    console.log('Parsing assessment:', description.substring(0, 100) + '...')
-    console.log('Found strategies:', strategies.length, strategies)
-    
-    return strategies
-  }, [])
-
   const renderObjectivesReview = () => (
     <StepContainer 
       title="Review Learning Objectives"
       description="Here are the AI-generated learning objectives aligned with your goals and assessments using Bloom's Taxonomy:"
     >
 
+      {error && (
+        <div className="error-message">
+          <i className="error-icon">⚠️</i>
+          {error}
+        </div>
+      )}
+
+      {renderCacheNotice()}
+
       {approvedGoals.map((goal, goalIndex) => {
         const goalObjectives = refinedObjectives.filter(obj => obj.goalId === goal.id)
         const relatedAssessment = approvedAssessments.find(a => a.goalId === goal.id)
-        const originalGoal = goals[goalIndex] // Get the original goal that user submitted
+        const originalGoal = findOriginalGoal(goal) // Get the original goal that user submitted
         const assessmentStrategies = relatedAssessment ? parseAssessmentText(relatedAssessment.description) : []
-        
-        // Debug logging
-        if (relatedAssessment) {
-          console.log('Assessment description:', relatedAssessment.description)
-          console.log('Parsed strategies:', assessmentStrategies)
-        }
+        const addKey = `add-objective-${goal.id}`
         
         return (
           <div key={goal.id} className="objectives-review-section">
             <div className="goal-header">
-              <h3>Goal {goalIndex + 1}: {originalGoal?.description || 'Unknown Goal'}</h3>
+              <h3>Goal {goalIndex + 1}: {originalGoal?.description || 'Your own goal'}</h3>
               <p className="goal-text">{goal.description}</p>
             </div>
             
@@ -940,16 +1308,107 @@ function App() {
               <h4>Learning Objectives:</h4>
               {goalObjectives.length > 0 ? (
                 <ul className="objectives-list">
-                  {goalObjectives.map((objective) => (
-                    <li key={objective.id} className="objective-item">
-                      <span className="bloom-level">{objective.bloomLevel}:</span>
-                      <span className="objective-description">{objective.description}</span>
-                    </li>
-                  ))}
+                  {goalObjectives.map((objective, objIndex) => {
+                    const itemKey = `objective-${objective.id}`
+
+                    return (
+                      <Fragment key={objective.id}>
+                        <li className="objective-item">
+                          {editingItem === `builder-${itemKey}` ? (
+                            <ObjectiveBuilder
+                              bloomLevel={objective.bloomLevel}
+                              description={objective.description}
+                              targetAudience={targetAudience}
+                              templates={objectiveTemplates}
+                              initialTemplate={activeObjectiveTemplate}
+                              onSubmit={({ bloomLevel, description, components }) => handleUpdateObjective(objective.id, bloomLevel, description, components)}
+                              onCancel={() => setEditingItem(null)}
+                            />
+                          ) : editingItem === itemKey ? (
+                            <InlineItemForm
+                              bloomLevel={objective.bloomLevel}
+                              description={objective.description}
+                              placeholder="Describe one measurable thing students will be able to do"
+                              onSubmit={({ bloomLevel, description }) => handleUpdateObjective(objective.id, bloomLevel ?? objective.bloomLevel, description)}
+                              onCancel={() => setEditingItem(null)}
+                            />
+                          ) : (
+                            <>
+                              <span className="bloom-level">{objective.bloomLevel}:</span>
+                              <span className="objective-description">{objective.description}</span>
+                              <ItemActions
+                                itemLabel={`objective ${goalIndex + 1}.${objIndex + 1}`}
+                                onEdit={() => setEditingItem(itemKey)}
+                                onBuild={() => setEditingItem(`builder-${itemKey}`)}
+                                onRegenerate={() => regenerateObjective(goal, objective, 1)}
+                                onAlternatives={() => regenerateObjective(goal, objective, 3)}
+                                onFeedback={() => openItemFeedback(itemKey)}
+                                onDelete={() => handleDeleteObjective(objective.id)}
+                                disabled={isItemBusy}
+                                busyMessage={regeneratingItem === itemKey ? 'Generating...' : undefined}
+                              />
+                            </>
+                          )}
+                        </li>
+                        {(itemAlternatives?.key === itemKey || feedbackItem === itemKey) && (
+                          <li className="objective-alternatives">
+                            {renderItemAlternatives(itemKey)}
+                            {renderItemFeedback(
+                              itemKey,
+                              { kind: 'objective', goal, objective },
+                              `${objective.bloomLevel}: ${objective.description}`,
+                              (revision) => `${revision.bloomLevel ?? objective.bloomLevel}: ${revision.description}`
+                            )}
+                          </li>
+                        )}
+                        {editingItem !== itemKey && editingItem !== `builder-${itemKey}` && objectiveIssues.has(objective.id) && (
+                          <li className="objective-warnings-item">
+                            <ObjectiveWarnings
+                              issues={objectiveIssues.get(objective.id) ?? []}
+                              itemLabel={`objective ${goalIndex + 1}.${objIndex + 1}`}
+                              onReplaceVerb={(phrase, replacement) => handleReplaceObjectiveVerb(objective, phrase, replacement)}
+                              disabled={isItemBusy}
+                            />
+                          </li>
+                        )}
+                      </Fragment>
+                    )
+                  })}
                 </ul>
               ) : (
                 <p className="no-objectives">No objectives generated for this goal.</p>
               )}
+
+              {editingItem === addKey ? (
+                <InlineItemForm
+                  bloomLevel=""
+                  description=""
+                  placeholder="Describe one measurable thing students will be able to do"
+                  submitLabel="Add Objective"
+                  onSubmit={({ bloomLevel, description }) => bloomLevel && handleAddObjective(goal.id, bloomLevel, description)}
+                  onCancel={() => setEditingItem(null)}
+                />
+              ) : editingItem === `builder-${addKey}` ? (
+                <ObjectiveBuilder
+                  bloomLevel=""
+                  description=""
+                  targetAudience={targetAudience}
+                  templates={objectiveTemplates}
+                  initialTemplate={activeObjectiveTemplate}
+                  submitLabel="Add Objective"
+                  onSubmit={({ bloomLevel, description, components }) => handleAddObjective(goal.id, bloomLevel, description, components)}
+                  onCancel={() => setEditingItem(null)}
+                />
+              ) : (
+                <div className="add-item-buttons">
+                  <button className="add-item-button" onClick={() => setEditingItem(addKey)} disabled={isItemBusy}>
+                    + Add My Own Objective
+                  </button>
+                  <button className="add-item-button" onClick={() => setEditingItem(`builder-${addKey}`)} disabled={isItemBusy}>
+                    + Build from Template
+                  </button>
+                </div>
+              )}
             </div>
           </div>
         )
@@ -961,7 +1420,7 @@ function App() {
           <button
             className="primary-button"
             onClick={approveLearningObjectives}
-            disabled={isRefining}
+            disabled={isItemBusy || editingItem !== null || refinedObjectives.length === 0}
           >
             {isRefining ? 'SAVING AND COMPLETING...' : 'SAVE AND CONTINUE'}
           </button>
@@ -974,9 +1433,7 @@ function App() {
         </ButtonGroup>
       </div>
 
-      {isRefining && (
-        <LoadingIndicator message={loadingMessage} progress={progress} />
-      )}
+      {renderLoadingState()}
     </StepContainer>
   )
 
@@ -989,12 +1446,12 @@ function App() {
       {approvedGoals.map((goal, goalIndex) => {
         const goalObjectives = approvedObjectives.filter(obj => obj.goalId === goal.id)
         const relatedAssessment = approvedAssessments.find(a => a.goalId === goal.id)
-        const originalGoal = goals[goalIndex] // Get the original goal that user submitted
+        const originalGoal = findOriginalGoal(goal) // Get the original goal that user submitted
         
         return (
           <div key={goal.id} className="complete-framework-section">
             <div className="goal-header">
-              <h3>Goal {goalIndex + 1}: {originalGoal?.description || 'Unknown Goal'}</h3>
+              <h3>Goal {goalIndex + 1}: {originalGoal?.description || 'Your own goal'}</h3>
               <p className="goal-text">{goal.description}</p>
             </div>
             
@@ -1062,6 +1519,22 @@ function App() {
         )
       })}
 
+      <details className="alignment-section" open>
+        <summary>
+          <h3>Alignment Matrix</h3>
+          <span className="toggle-indicator">▼</span>
+        </summary>
+        <p className="instruction">
+          Each row is a goal; each column is a level of Bloom's Taxonomy. Highlighted cells show cognitive levels that no objective for that goal addresses yet.
+        </p>
+        <AlignmentMatrixView matrix={buildAlignmentMatrix(buildExportData())} />
+        <ButtonGroup>
+          <button className="secondary-button" onClick={handleDownloadAlignmentCsv}>
+            ⬇ Download Matrix (CSV)
+          </button>
+        </ButtonGroup>
+      </details>
+
       <div className="completion-summary">
         <h3>Your Backward Design Framework is Complete!</h3>
         <p>✅ <strong>{approvedGoals.length}</strong> learning goals defined</p>
@@ -1081,6 +1554,24 @@ function App() {
         </div>
       )}
 
+      {docxStatus === 'error' && (
+        <div className="copy-feedback error-message">
+          ⚠ Could not create the Word document. Please try again.
+        </div>
+      )}
+
+      {printStatus === 'error' && (
+        <div className="copy-feedback error-message">
+          ⚠ Could not open the print dialog. Please try again.
+        </div>
+      )}
+
+      {librarySaveStatus === 'error' && (
+        <div className="copy-feedback error-message">
+          ⚠ Could not save to your library. Your browser storage may be full or disabled.
+        </div>
+      )}
+
       <ButtonGroup>
         <button
           className="primary-button copy-button"
@@ -1089,6 +1580,38 @@ function App() {
         >
           {copyStatus === 'success' ? '✓ Copied!' : '📋 Copy Framework'}
         </button>
+        <button
+          className="primary-button"
+          onClick={handleDownloadDocx}
+          disabled={docxStatus === 'working'}
+        >
+          {docxStatus === 'working' ? 'Preparing Document...' : '📄 Download Word'}
+        </button>
+        <button
+          className="primary-button"
+          onClick={handlePrintFramework}
+        >
+          🖨️ Print / Save as PDF
+        </button>
+        <button
+          className="secondary-button"
+          onClick={handleDownloadJson}
+        >
+          ⬇ Export JSON
+        </button>
+        <button
+          className="secondary-button"
+          onClick={handleDownloadObjectivesCsv}
+        >
+          ⬇ Objectives CSV
+        </button>
+        <button
+          className="secondary-button"
+          onClick={handleSaveToLibrary}
+          disabled={activeFrameworkId !== null}
+        >
+          {activeFrameworkId ? '✓ Saved in Library' : '💾 Save to Library'}
+        </button>
         <button
           className="secondary-button"
           onClick={resetApp}
@@ -1105,6 +1628,10 @@ function App() {
         <AppHeader 
           showHelp={showHelp}
           onToggleHelp={() => setShowHelp(!showHelp)}
+          onOpenSettings={isStaticMode ? () => setShowSettings(!showSettings) : undefined}
+          needsApiKey={needsApiKey}
+          onToggleUsage={() => setShowUsage(!showUsage)}
+          onToggleTemplates={() => setShowTemplates(!showTemplates)}
         />
         <ProgressIndicator 
           onNavigateToStep={navigateToStep}
@@ -1128,6 +1655,23 @@ function App() {
             isVisible={showHelp}
             onClose={() => setShowHelp(false)}
           />
+          {isStaticMode && (
+            <AISettingsPanel
+              isVisible={showSettings}
+              onClose={() => setShowSettings(false)}
+              onApiKeyChange={setHasApiKey}
+            />
+          )}
+          <UsagePanel
+            usage={aiUsage}
+            isVisible={showUsage}
+            onClose={() => setShowUsage(false)}
+          />
+          <ObjectiveTemplatesPanel
+            isVisible={showTemplates}
+            onClose={() => setShowTemplates(false)}
+            onChange={refreshObjectiveTemplates}
+          />
           
           {currentStep === 'intro' && renderIntro()}
           {currentStep === 'goals' && renderGoals()}
@@ -1138,7 +1682,7 @@ function App() {
               title="Generating Learning Objectives..." 
               description="Please wait while we create learning objectives aligned with your goals and assessments using Bloom's Taxonomy..."
             >
-              <LoadingIndicator message={loadingMessage} progress={progress} />
+              {renderLoadingState()}
             </StepContainer>
           )}
           {currentStep === 'review-objectives' && !isRefining && renderObjectivesReview()}
@@ -0,0 +1,104 @@
+import { memo, useState } from 'react'
+import { clearApiKey, isApiKeyRemembered, loadApiKey, saveApiKey } from '../utils/apiKeyStorage'
+
+interface AISettingsPanelProps {
+  isVisible: boolean
+  onClose: () => void
+  // Called after the key is saved or removed, with whether one is now set
+  onApiKeyChange: (hasApiKey: boolean) => void
+}
+
+// Keys are shown masked so they can be recognised without being exposed
+const maskApiKey = (apiKey: string) => apiKey.length > 12 ? `${apiKey.slice(0, 7)}…${apiKey.slice(-4)}` : '••••'
+
+/**
+ * Lets the user enter their own Anthropic API key when the app runs without the Netlify Function
+ */
+export const AISettingsPanel = memo(function AISettingsPanel({ isVisible, onClose, onApiKeyChange }: AISettingsPanelProps) {
+  const [savedKey, setSavedKey] = useState(loadApiKey)
+  const [apiKeyInput, setApiKeyInput] = useState('')
+  const [remember, setRemember] = useState(isApiKeyRemembered)
+  const [status, setStatus] = useState('')
+
+  if (!isVisible) return null
+
+  const handleSave = () => {
+    const apiKey = apiKeyInput.trim()
+    if (!apiKey) return
+
+    const stored = saveApiKey(apiKey, remember)
+    setSavedKey(apiKey)
+    setApiKeyInput('')
+    setStatus(stored
+      ? 'API key saved.'
+      : 'API key set for this page only. Your browser blocked storage, so you\'ll need to enter it again next time.')
+    onApiKeyChange(true)
+  }
+
+  const handleRemove = () => {
+    clearApiKey()
+    setSavedKey(null)
+    setStatus('API key removed from this browser.')
+    onApiKeyChange(false)
+  }
+
+  return (
+    <div className="help-panel ai-settings-panel">
+      <div className="help-header">
+        <h4>⚙ AI Settings</h4>
+        <button
+          className="help-close"
+          onClick={onClose}
+          aria-label="Close AI settings"
+        >
+          ×
+        </button>
+      </div>
+      <div className="help-content">
+        <p>
+          This copy of the app connects to Anthropic's API directly from your browser, so it needs your own API key.
+          Requests are billed to your Anthropic account. Get a key from the{' '}
+          <a href="https://console.anthropic.com/" target="_blank" rel="noopener noreferrer">Anthropic Console</a>.
+        </p>
+
+        {savedKey && (
+          <p className="ai-settings-current">
+            Current key: <code>{maskApiKey(savedKey)}</code>
+            <button className="item-action danger" onClick={handleRemove}>
+              Remove Key
+            </button>
+          </p>
+        )}
+
+        <div className="ai-settings-form">
+          <input
+            type="password"
+            value={apiKeyInput}
+            onChange={(e) => setApiKeyInput(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+            placeholder={savedKey ? 'Enter a new key to replace it' : 'sk-ant-...'}
+            aria-label="Anthropic API key"
+            autoComplete="off"
+            spellCheck={false}
+          />
+          <label className="ai-settings-remember">
+            <input
+              type="checkbox"
+              checked={remember}
+              onChange={(e) => setRemember(e.target.checked)}
+            />
+            Remember on this device
+          </label>
+          <button className="primary-button" onClick={handleSave} disabled={!apiKeyInput.trim()}>
+            Save Key
+          </button>
+        </div>
+
+        <p className="ai-settings-note">
+          Without "Remember", the key is forgotten when you close this tab. Only use "Remember" on a device you don't share.
+        </p>
+        {status && <p className="ai-settings-status" role="status">{status}</p>}
+      </div>
+    </div>
+  )
+})
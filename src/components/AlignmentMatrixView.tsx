@@ -0,0 +1,92 @@
+import { memo } from 'react'
+import { BLOOM_TAXONOMY } from '../services/prompts'
+import type { AlignedObjective, AlignmentMatrix } from '../utils/alignment'
+
+interface AlignmentMatrixViewProps {
+  matrix: AlignmentMatrix
+}
+
+function ObjectiveTags({ objectives }: { objectives: AlignedObjective[] }) {
+  return (
+    <ul className="alignment-objectives">
+      {objectives.map(item => (
+        <li key={item.objective.id} title={item.objective.description}>
+          <span className="alignment-label">{item.label}</span> {item.objective.description}
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+/**
+ * Goal × Bloom level matrix that shows which objectives cover which cell
+ * and highlights the cognitive levels a goal doesn't reach
+ */
+export const AlignmentMatrixView = memo(function AlignmentMatrixView({ matrix }: AlignmentMatrixViewProps) {
+  const hasUnclassified = matrix.rows.some(row => row.unclassified.length > 0)
+
+  return (
+    <div className="alignment-matrix">
+      <table>
+        <thead>
+          <tr>
+            <th scope="col">Goal</th>
+            {matrix.levels.map(level => (
+              <th key={level} scope="col" title={BLOOM_TAXONOMY[level].description}>{level}</th>
+            ))}
+            {hasUnclassified && <th scope="col">Other</th>}
+            <th scope="col">Assessment Strategies</th>
+          </tr>
+        </thead>
+        <tbody>
+          {matrix.rows.map(row => (
+            <tr key={row.goal.id}>
+              <th scope="row" className="alignment-goal">
+                <span className="alignment-label">Goal {row.goalNumber}</span>
+                <span className="alignment-goal-text">{row.goal.description}</span>
+                {row.missingLevels.length > 0 && (
+                  <span className="alignment-gap-count">
+                    {row.missingLevels.length} of {matrix.levels.length} levels uncovered
+                  </span>
+                )}
+              </th>
+              {row.cells.map(cell => (
+                cell.objectives.length > 0 ? (
+                  <td key={cell.level} className="alignment-covered">
+                    <ObjectiveTags objectives={cell.objectives} />
+                  </td>
+                ) : (
+                  <td
+                    key={cell.level}
+                    className="alignment-gap"
+                    aria-label={`No ${cell.level} objective for goal ${row.goalNumber}`}
+                  >
+                    —
+                  </td>
+                )
+              ))}
+              {hasUnclassified && (
+                <td>
+                  <ObjectiveTags objectives={row.unclassified} />
+                </td>
+              )}
+              <td className="alignment-strategies">
+                {row.strategies.length > 0 ? (
+                  <ul>
+                    {row.strategies.map((strategy, index) => (
+                      <li key={index} title={strategy.description}>
+                        {strategy.title || strategy.description}
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <span className="alignment-gap-count">No assessment</span>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+})
@@ -0,0 +1,46 @@
+import { memo } from 'react'
+import type { ItemAlternative } from '../services/aiService'
+
+interface AlternativesPickerProps {
+  alternatives: ItemAlternative[]
+  onChoose: (alternative: ItemAlternative) => void
+  onDismiss: () => void
+}
+
+/**
+ * Lets the user pick one of several AI-generated replacements for an item, or keep the current one
+ */
+export const AlternativesPicker = memo(function AlternativesPicker({ alternatives, onChoose, onDismiss }: AlternativesPickerProps) {
+  return (
+    <div className="alternatives-picker">
+      <h5>Choose a replacement</h5>
+      <ol className="alternatives-list">
+        {alternatives.map((alternative, index) => (
+          <li key={index} className="alternative-option">
+            <div className="alternative-content">
+              {alternative.bloomLevel && <span className="bloom-level">{alternative.bloomLevel}:</span>}
+              {alternative.strategies ? (
+                <ul className="alternative-strategies">
+                  {alternative.strategies.map((strategy, strategyIndex) => (
+                    <li key={strategyIndex}>
+                      {strategy.title && <strong>{strategy.title}: </strong>}
+                      {strategy.description}
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <span className="alternative-description">{alternative.description}</span>
+              )}
+            </div>
+            <button className="item-action" onClick={() => onChoose(alternative)}>
+              Use This
+            </button>
+          </li>
+        ))}
+      </ol>
+      <button className="item-action" onClick={onDismiss}>
+        Keep Current
+      </button>
+    </div>
+  )
+})
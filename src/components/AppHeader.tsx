@@ -3,15 +3,49 @@ import { memo } from 'react'
 interface AppHeaderProps {
   showHelp: boolean
   onToggleHelp: () => void
+  // Shows the AI Settings button (static mode only)
+  onOpenSettings?: () => void
+  needsApiKey?: boolean
+  // Shows the AI usage button
+  onToggleUsage?: () => void
+  // Shows the objective templates button
+  onToggleTemplates?: () => void
 }
 
-export const AppHeader = memo(function AppHeader({ showHelp, onToggleHelp }: AppHeaderProps) {
+export const AppHeader = memo(function AppHeader({ showHelp, onToggleHelp, onOpenSettings, needsApiKey = false, onToggleUsage, onToggleTemplates }: AppHeaderProps) {
   return (
     <div className="header-content">
       <div className="header-left">
         <h1>Course Goal Builder</h1>
       </div>
       <div className="header-right">
+        {onToggleTemplates && (
+          <button
+            className="help-button"
+            onClick={onToggleTemplates}
+            aria-label="Objective templates"
+          >
+            Templates
+          </button>
+        )}
+        {onToggleUsage && (
+          <button
+            className="help-button"
+            onClick={onToggleUsage}
+            aria-label="AI usage for this framework"
+          >
+            Usage
+          </button>
+        )}
+        {onOpenSettings && (
+          <button
+            className="help-button"
+            onClick={onOpenSettings}
+            aria-label={needsApiKey ? 'AI settings (API key needed)' : 'AI settings'}
+          >
+            ⚙ AI Settings{needsApiKey && <span className="settings-alert" aria-hidden="true"> •</span>}
+          </button>
+        )}
         <button 
           className="help-button"
           onClick={onToggleHelp}
@@ -0,0 +1,24 @@
+import { memo, useMemo } from 'react'
+import { diffWords } from '../utils/textDiff'
+
+interface DiffViewProps {
+  before: string
+  after: string
+}
+
+/**
+ * Shows a word-level diff between the current and proposed text
+ */
+export const DiffView = memo(function DiffView({ before, after }: DiffViewProps) {
+  const segments = useMemo(() => diffWords(before, after), [before, after])
+
+  return (
+    <p className="diff-view" aria-label="Proposed changes">
+      {segments.map((segment, index) => {
+        if (segment.type === 'added') return <ins key={index}>{segment.text}</ins>
+        if (segment.type === 'removed') return <del key={index}>{segment.text}</del>
+        return <span key={index}>{segment.text}</span>
+      })}
+    </p>
+  )
+})
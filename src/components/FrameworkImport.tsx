@@ -0,0 +1,78 @@
+import type { ChangeEvent } from 'react'
+import { memo, useRef, useState } from 'react'
+import ErrorMessage from './ErrorMessage'
+import { getImportProblems, parseFrameworkDocument } from '../utils/frameworkJson'
+import { createAppError, ErrorCategory, ErrorSeverity, type AppError } from '../utils/errorHandling'
+import type { PersistedState } from '../utils/persistence'
+
+interface FrameworkImportProps {
+  onImport: (state: PersistedState) => void
+}
+
+/**
+ * Imports a framework from a JSON export and lists any field-level problems found in the file
+ */
+export const FrameworkImport = memo(function FrameworkImport({ onImport }: FrameworkImportProps) {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [importError, setImportError] = useState<AppError | null>(null)
+
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    // Allow re-selecting the same file after fixing it
+    e.target.value = ''
+    if (!file) return
+
+    let text: string
+    try {
+      text = await file.text()
+    } catch (err) {
+      setImportError(createAppError(err instanceof Error ? err : String(err), { fileName: file.name }, {
+        category: ErrorCategory.DATA,
+        severity: ErrorSeverity.MEDIUM,
+        userMessage: 'The selected file could not be read.'
+      }))
+      return
+    }
+
+    const result = parseFrameworkDocument(text)
+    if (result.success) {
+      setImportError(null)
+      onImport(result.data)
+    } else {
+      setImportError(result.error)
+    }
+  }
+
+  const problems = importError ? getImportProblems(importError) : []
+
+  return (
+    <div className="framework-import">
+      <input
+        ref={inputRef}
+        type="file"
+        accept="application/json,.json"
+        onChange={handleFileChange}
+        className="framework-import-input"
+        aria-label="Framework JSON file"
+      />
+      <button className="secondary-button" onClick={() => inputRef.current?.click()}>
+        📂 Import Framework (JSON)
+      </button>
+
+      {importError && (
+        <>
+          <ErrorMessage error={importError} onDismiss={() => setImportError(null)} />
+          {problems.length > 0 && (
+            <ul className="import-problems">
+              {problems.map((problem, index) => (
+                <li key={index}>
+                  <code>{problem.path}</code> {problem.message}
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  )
+})
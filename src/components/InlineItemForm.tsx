@@ -0,0 +1,102 @@
+import { memo, useState } from 'react'
+import { BLOOM_TAXONOMY, isBloomLevel } from '../services/prompts'
+import { BLOOM_LEVELS, type BloomLevel } from '../types'
+import { validateEditedText } from '../utils/validation'
+import { FieldError } from './ErrorMessage'
+
+interface InlineItemFormProps {
+  description: string
+  // Shows an optional title field when defined (assessment strategies)
+  title?: string
+  // Shows a Bloom level picker when defined (learning objectives); empty starts at Apply
+  bloomLevel?: BloomLevel | ''
+  placeholder: string
+  submitLabel?: string
+  onSubmit: (values: { description: string; title?: string; bloomLevel?: BloomLevel }) => void
+  onCancel: () => void
+}
+
+/**
+ * Inline form for editing or adding a goal, assessment strategy or learning objective
+ */
+export const InlineItemForm = memo(function InlineItemForm({
+  description,
+  title,
+  bloomLevel,
+  placeholder,
+  submitLabel = 'Save',
+  onSubmit,
+  onCancel
+}: InlineItemFormProps) {
+  const [descriptionValue, setDescriptionValue] = useState(description)
+  const [titleValue, setTitleValue] = useState(title ?? '')
+  const [bloomLevelValue, setBloomLevelValue] = useState<BloomLevel>(bloomLevel || BLOOM_LEVELS[2])
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSubmit = () => {
+    if (!descriptionValue.trim()) return
+
+    // Edited text goes back to the AI on regeneration, so it gets the same check as new input
+    const result = [validateEditedText(titleValue, 'Title'), validateEditedText(descriptionValue, 'Description')]
+      .find(check => !check.isValid)
+    if (result) {
+      setError(result.error ?? null)
+      return
+    }
+
+    onSubmit({
+      description: descriptionValue.trim(),
+      ...(title !== undefined ? { title: titleValue.trim() } : {}),
+      ...(bloomLevel !== undefined ? { bloomLevel: bloomLevelValue } : {})
+    })
+  }
+
+  return (
+    <div className="inline-item-form">
+      {title !== undefined && (
+        <input
+          type="text"
+          value={titleValue}
+          onChange={(e) => {
+            setTitleValue(e.target.value)
+            setError(null)
+          }}
+          placeholder="Title (optional)"
+          aria-label="Title"
+        />
+      )}
+      {bloomLevel !== undefined && (
+        <select
+          value={bloomLevelValue}
+          onChange={(e) => isBloomLevel(e.target.value) && setBloomLevelValue(e.target.value)}
+          aria-label="Bloom's Taxonomy level"
+        >
+          {BLOOM_LEVELS.map(level => (
+            <option key={level} value={level} title={BLOOM_TAXONOMY[level].description}>{level}</option>
+          ))}
+        </select>
+      )}
+      <textarea
+        value={descriptionValue}
+        onChange={(e) => {
+          setDescriptionValue(e.target.value)
+          setError(null)
+        }}
+        onKeyDown={(e) => e.key === 'Escape' && onCancel()}
+        placeholder={placeholder}
+        aria-label="Description"
+        rows={3}
+        autoFocus
+      />
+      <FieldError error={error} />
+      <div className="inline-item-form-actions">
+        <button className="item-action" onClick={handleSubmit} disabled={!descriptionValue.trim()}>
+          {submitLabel}
+        </button>
+        <button className="item-action" onClick={onCancel}>
+          Cancel
+        </button>
+      </div>
+    </div>
+  )
+})
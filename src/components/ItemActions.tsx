@@ -0,0 +1,74 @@
+import { memo } from 'react'
+
+interface ItemActionsProps {
+  onEdit?: () => void
+  onDelete?: () => void
+  onRegenerate?: () => void
+  onAlternatives?: () => void
+  onFeedback?: () => void
+  // Opens the ABCD objective builder (learning objectives only)
+  onBuild?: () => void
+  // Names the item for screen readers, e.g. "goal 2"
+  itemLabel: string
+  disabled?: boolean
+  // Shown instead of the buttons while the AI works on this item
+  busyMessage?: string
+}
+
+/**
+ * Edit, delete, AI regeneration and feedback buttons shown next to a goal, assessment block, strategy or objective
+ */
+export const ItemActions = memo(function ItemActions({
+  onEdit,
+  onDelete,
+  onRegenerate,
+  onAlternatives,
+  onFeedback,
+  onBuild,
+  itemLabel,
+  disabled = false,
+  busyMessage
+}: ItemActionsProps) {
+  if (busyMessage) {
+    return (
+      <div className="item-actions">
+        <span className="item-busy" role="status">{busyMessage}</span>
+      </div>
+    )
+  }
+
+  return (
+    <div className="item-actions">
+      {onEdit && (
+        <button className="item-action" onClick={onEdit} disabled={disabled} aria-label={`Edit ${itemLabel}`}>
+          Edit
+        </button>
+      )}
+      {onBuild && (
+        <button className="item-action" onClick={onBuild} disabled={disabled} aria-label={`Rewrite ${itemLabel} with the objective builder`}>
+          Build
+        </button>
+      )}
+      {onRegenerate && (
+        <button className="item-action" onClick={onRegenerate} disabled={disabled} aria-label={`Regenerate ${itemLabel}`}>
+          ↻ Regenerate
+        </button>
+      )}
+      {onAlternatives && (
+        <button className="item-action" onClick={onAlternatives} disabled={disabled} aria-label={`Show alternatives for ${itemLabel}`}>
+          Alternatives
+        </button>
+      )}
+      {onFeedback && (
+        <button className="item-action" onClick={onFeedback} disabled={disabled} aria-label={`Give feedback on ${itemLabel}`}>
+          Feedback
+        </button>
+      )}
+      {onDelete && (
+        <button className="item-action danger" onClick={onDelete} disabled={disabled} aria-label={`Delete ${itemLabel}`}>
+          Delete
+        </button>
+      )}
+    </div>
+  )
+})
@@ -0,0 +1,85 @@
+import { memo, useState } from 'react'
+import { DiffView } from './DiffView'
+import type { ItemAlternative } from '../services/aiService'
+import type { AppError } from '../utils/errorHandling'
+import { USER_TEXT_LIMITS } from '../services/prompts'
+
+const MAX_INSTRUCTION_LENGTH = USER_TEXT_LIMITS.feedback
+
+interface ItemFeedbackProps {
+  // The item as plain text, and how to show a proposed revision the same way
+  currentText: string
+  describe: (revision: ItemAlternative) => string
+  onRequestRevision: (instruction: string) => Promise<ItemAlternative>
+  onAccept: (revision: ItemAlternative) => void
+  onClose: () => void
+}
+
+/**
+ * Sends the user's feedback about one item to the AI and shows the proposed revision as a diff to accept or reject
+ */
+export const ItemFeedback = memo(function ItemFeedback({ currentText, describe, onRequestRevision, onAccept, onClose }: ItemFeedbackProps) {
+  const [instruction, setInstruction] = useState('')
+  const [isWorking, setIsWorking] = useState(false)
+  const [revision, setRevision] = useState<ItemAlternative | null>(null)
+  const [feedbackError, setFeedbackError] = useState('')
+
+  const handleRevise = async () => {
+    if (!instruction.trim() || isWorking) return
+
+    setIsWorking(true)
+    setFeedbackError('')
+    try {
+      setRevision(await onRequestRevision(instruction))
+    } catch (err) {
+      console.error('Error revising item:', err)
+      setFeedbackError(err && typeof err === 'object' && 'userMessage' in err
+        ? (err as AppError).userMessage
+        : 'We couldn\'t revise this item. Please try again.')
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  return (
+    <div className="item-feedback">
+      {revision ? (
+        <>
+          <h5>Proposed revision</h5>
+          <DiffView before={currentText} after={describe(revision)} />
+          <div className="inline-item-form-actions">
+            <button className="item-action" onClick={() => onAccept(revision)}>
+              Accept
+            </button>
+            <button className="item-action danger" onClick={() => setRevision(null)}>
+              Reject
+            </button>
+          </div>
+        </>
+      ) : (
+        <>
+          <textarea
+            value={instruction}
+            onChange={(e) => setInstruction(e.target.value)}
+            onKeyDown={(e) => e.key === 'Escape' && onClose()}
+            placeholder='Tell the AI what to change, e.g. "make this less technical" or "target first-year students"'
+            aria-label="Feedback for the AI"
+            maxLength={MAX_INSTRUCTION_LENGTH}
+            rows={2}
+            disabled={isWorking}
+            autoFocus
+          />
+          {feedbackError && <p className="item-feedback-error" role="alert">⚠ {feedbackError}</p>}
+          <div className="inline-item-form-actions">
+            <button className="item-action" onClick={handleRevise} disabled={!instruction.trim() || isWorking}>
+              {isWorking ? 'Revising...' : 'Revise'}
+            </button>
+            <button className="item-action" onClick={onClose} disabled={isWorking}>
+              Cancel
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  )
+})
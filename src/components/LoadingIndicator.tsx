@@ -3,11 +3,17 @@ import { memo } from 'react'
 interface LoadingIndicatorProps {
   message: string
   progress: number
+  // Items that have already arrived from a streaming response
+  items?: string[]
+  // Shows a Cancel button when provided
+  onCancel?: () => void
 }
 
 export const LoadingIndicator = memo<LoadingIndicatorProps>(function LoadingIndicator({ 
   message, 
-  progress 
+  progress,
+  items = [],
+  onCancel
 }) {
   return (
     <div className="loading-indicator">
@@ -18,6 +24,18 @@ export const LoadingIndicator = memo<LoadingIndicatorProps>(function LoadingIndi
       <div className="loading-bar">
         <div className="loading-progress" style={{ width: `${progress}%` }}></div>
       </div>
+      {onCancel && (
+        <button className="loading-cancel" onClick={onCancel}>
+          Cancel
+        </button>
+      )}
+      {items.length > 0 && (
+        <ol className="loading-items" aria-live="polite">
+          {items.map((item, index) => (
+            <li key={index}>{item}</li>
+          ))}
+        </ol>
+      )}
     </div>
   )
 })
\ No newline at end of file
@@ -0,0 +1,185 @@
+import { memo, useMemo, useState } from 'react'
+import {
+  BLOOM_TAXONOMY,
+  composeObjective,
+  isBloomLevel,
+  isTemplateComplete,
+  type TemplateValues
+} from '../services/prompts'
+import { BLOOM_LEVELS, type BloomLevel, type ObjectiveComponents } from '../types'
+import { ABCD_GUIDANCE, getTemplateParts, prefillTemplateValues } from '../utils/objectiveBuilder'
+import { createObjectiveComponents } from '../utils/objectiveComponents'
+import type { ObjectiveTemplate } from '../utils/objectiveTemplates'
+
+interface ObjectiveBuilderProps {
+  // The objective being rewritten; empty when building a new one
+  description: string
+  // Empty when building a new objective, which starts at Apply
+  bloomLevel: BloomLevel | ''
+  targetAudience: string
+  // Templates to choose from, and the one to start with
+  templates: ObjectiveTemplate[]
+  initialTemplate: ObjectiveTemplate
+  submitLabel?: string
+  // Components hold whichever of the audience, behavior, condition and degree blanks the template has
+  onSubmit: (values: { bloomLevel: BloomLevel; description: string; components?: ObjectiveComponents }) => void
+  onCancel: () => void
+}
+
+// Blanks grow with their text, since conditions and behaviors are full phrases
+const blankWidth = (value: string) => `${Math.max(value.length + 2, 12)}ch`
+
+/**
+ * Builds or rewrites a learning objective by filling in the Audience, Behavior, Condition and Degree blanks
+ */
+export const ObjectiveBuilder = memo(function ObjectiveBuilder({
+  description,
+  bloomLevel,
+  targetAudience,
+  templates,
+  initialTemplate,
+  submitLabel = 'Save Objective',
+  onSubmit,
+  onCancel
+}: ObjectiveBuilderProps) {
+  const [templateId, setTemplateId] = useState(initialTemplate.id)
+  const template = templates.find(item => item.id === templateId) ?? initialTemplate
+  const parts = useMemo(() => getTemplateParts(template.template), [template.template])
+  const [values, setValues] = useState<TemplateValues>(() => prefillTemplateValues(parts, description, targetAudience))
+  const [bloomLevelValue, setBloomLevelValue] = useState<BloomLevel>(bloomLevel || BLOOM_LEVELS[2])
+
+  const setValue = (name: string, value: string) => setValues(prev => ({ ...prev, [name]: value }))
+
+  // Blanks the new template shares with the old one keep what the user typed
+  const changeTemplate = (id: string) => {
+    const next = templates.find(item => item.id === id)
+    if (!next) return
+
+    const nextParts = getTemplateParts(next.template)
+    const kept = Object.fromEntries(Object.entries(values).filter(([name, value]) =>
+      value.trim() && nextParts.some(part => part.kind === 'blank' && part.name === name)
+    ))
+    setTemplateId(id)
+    setValues({ ...prefillTemplateValues(nextParts, description, targetAudience), ...kept })
+  }
+  // Only this template's blanks count; values kept from another template aren't in the sentence
+  const templateValues: TemplateValues = Object.fromEntries(parts.flatMap(part => {
+    if (part.kind === 'blank') return [[part.name, values[part.name] ?? '']]
+    if (part.kind === 'choice') return [[part.name, values[part.name] ?? part.choices[0]]]
+    return []
+  }))
+  const isComplete = isTemplateComplete(parts, values)
+  const objective = composeObjective(parts, values)
+
+  return (
+    <div className="objective-builder">
+      <details className="objective-builder-guide">
+        <summary>What goes in each blank?</summary>
+        <dl>
+          <dt>Condition</dt>
+          <dd>
+            The circumstances under which learners will <em>demonstrate</em> the skill: what they'll have
+            ("given a map"), what they'll be denied ("without a calculator"), or the setting or timing
+            ("at the end of the semester"). It describes the performance, not the instruction.
+          </dd>
+          <dt>Audience</dt>
+          <dd>Who the learners are: "students", "third-grade students", "new hires".</dd>
+          <dt>Behavior</dt>
+          <dd>
+            An observable, measurable action, what learners will <em>do</em>: label, calculate, assemble,
+            critique. Avoid verbs you can't watch or check, like "understand" or "appreciate".
+          </dd>
+          <dt>Degree</dt>
+          <dd>
+            How well they must perform for it to count: accuracy ("with 90% accuracy"), speed ("within five
+            minutes"), or completeness ("all fifty states").
+          </dd>
+        </dl>
+        <p className="objective-builder-example">
+          <strong>Example:</strong> Given{' '}
+          <span className="abcd-part">a blank map of the US<span className="abcd-label">condition</span></span>,{' '}
+          <span className="abcd-part">students<span className="abcd-label">audience</span></span> will{' '}
+          <span className="abcd-part">label all fifty states<span className="abcd-label">behavior</span></span>{' '}
+          <span className="abcd-part">with 90% accuracy<span className="abcd-label">degree</span></span>.
+        </p>
+      </details>
+
+      {templates.length > 1 && (
+        <label className="objective-builder-level">
+          Template
+          <select value={template.id} onChange={(e) => changeTemplate(e.target.value)}>
+            {templates.map(item => (
+              <option key={item.id} value={item.id}>{item.name}</option>
+            ))}
+          </select>
+        </label>
+      )}
+
+      <label className="objective-builder-level">
+        Bloom's level
+        <select value={bloomLevelValue} onChange={(e) => isBloomLevel(e.target.value) && setBloomLevelValue(e.target.value)}>
+          {BLOOM_LEVELS.map(level => (
+            <option key={level} value={level} title={BLOOM_TAXONOMY[level].description}>{level}</option>
+          ))}
+        </select>
+      </label>
+
+      <p className="objective-builder-sentence">
+        {parts.map((part, index) => {
+          if (part.kind === 'text') return <span key={index}>{part.text}</span>
+          if (part.kind === 'break') return <br key={index} />
+
+          if (part.kind === 'choice') {
+            return (
+              <span key={index} className="abcd-blank">
+                <select
+                  value={values[part.name] ?? part.choices[0]}
+                  onChange={(e) => setValue(part.name, e.target.value)}
+                  aria-label={part.name}
+                >
+                  {part.choices.map(choice => (
+                    <option key={choice} value={choice}>{choice}</option>
+                  ))}
+                </select>
+              </span>
+            )
+          }
+
+          const value = values[part.name] ?? ''
+          return (
+            <span key={index} className="abcd-blank" title={ABCD_GUIDANCE[part.name]}>
+              <input
+                type="text"
+                value={value}
+                onChange={(e) => setValue(part.name, e.target.value)}
+                onKeyDown={(e) => e.key === 'Escape' && onCancel()}
+                style={{ width: blankWidth(value) }}
+                aria-label={part.name}
+                autoComplete="off"
+              />
+              <span className="abcd-label" aria-hidden="true">{part.name}</span>
+            </span>
+          )
+        })}
+      </p>
+
+      <p className="objective-builder-preview" aria-live="polite">
+        <span className="bloom-level">{bloomLevelValue}:</span> {objective}
+      </p>
+
+      <div className="inline-item-form-actions">
+        <button
+          className="item-action"
+          onClick={() => onSubmit({ bloomLevel: bloomLevelValue, description: objective, components: createObjectiveComponents(templateValues) })}
+          disabled={!isComplete}
+        >
+          {submitLabel}
+        </button>
+        <button className="item-action" onClick={onCancel}>
+          Cancel
+        </button>
+        {!isComplete && <span className="objective-builder-hint">Fill in every blank to save.</span>}
+      </div>
+    </div>
+  )
+})
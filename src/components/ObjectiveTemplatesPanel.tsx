@@ -0,0 +1,180 @@
+import { memo, useState } from 'react'
+import {
+  USER_TEXT_LIMITS,
+  describeInstructionLikeContent,
+  describeTemplateForPrompt,
+  findInstructionLikeContent,
+  parseObjectiveTemplate
+} from '../services/prompts'
+import {
+  deleteObjectiveTemplate,
+  getActiveObjectiveTemplate,
+  isBuiltInTemplate,
+  listObjectiveTemplates,
+  saveObjectiveTemplate,
+  setActiveObjectiveTemplate,
+  type ObjectiveTemplate
+} from '../utils/objectiveTemplates'
+
+interface ObjectiveTemplatesPanelProps {
+  isVisible: boolean
+  onClose: () => void
+  // Called after templates are saved, removed or a different one is chosen
+  onChange: () => void
+}
+
+interface TemplateForm {
+  // Set when editing a saved template
+  id?: string
+  name: string
+  template: string
+}
+
+const EMPTY_FORM: TemplateForm = { name: '', template: '' }
+
+/**
+ * Lets an institution write its own objective templates and choose the one used by the
+ * objective builder and for AI-generated objectives
+ */
+export const ObjectiveTemplatesPanel = memo(function ObjectiveTemplatesPanel({ isVisible, onClose, onChange }: ObjectiveTemplatesPanelProps) {
+  const [templates, setTemplates] = useState(listObjectiveTemplates)
+  const [activeId, setActiveId] = useState(() => getActiveObjectiveTemplate().id)
+  const [form, setForm] = useState<TemplateForm>(EMPTY_FORM)
+  const [status, setStatus] = useState('')
+
+  if (!isVisible) return null
+
+  const refresh = (message: string) => {
+    setTemplates(listObjectiveTemplates())
+    setActiveId(getActiveObjectiveTemplate().id)
+    setStatus(message)
+    onChange()
+  }
+
+  const parsed = form.template.trim() ? parseObjectiveTemplate(form.template) : null
+  const instructionLike = findInstructionLikeContent(form.template)
+  const problems = [
+    ...(parsed && !parsed.success ? parsed.errors.map(error => error.message) : []),
+    ...(instructionLike ? [describeInstructionLikeContent('The template', instructionLike)] : [])
+  ]
+  const canSave = Boolean(form.name.trim() && parsed?.success && !instructionLike)
+
+  const handleSave = () => {
+    if (!canSave) return
+
+    const saved = saveObjectiveTemplate(form.name, form.template, form.id)
+    if (!saved) {
+      setStatus('We couldn\'t save this template. Your browser may be blocking storage.')
+      return
+    }
+    setForm(EMPTY_FORM)
+    refresh(`Saved "${saved.name}".`)
+  }
+
+  const handleUse = (template: ObjectiveTemplate) => {
+    if (setActiveObjectiveTemplate(template.id)) refresh(`Now using "${template.name}".`)
+  }
+
+  const handleDelete = (template: ObjectiveTemplate) => {
+    if (!window.confirm(`Delete the template "${template.name}"?`)) return
+    if (deleteObjectiveTemplate(template.id)) {
+      if (form.id === template.id) setForm(EMPTY_FORM)
+      refresh(`Deleted "${template.name}".`)
+    }
+  }
+
+  return (
+    <div className="help-panel objective-templates-panel">
+      <div className="help-header">
+        <h4>Objective Templates</h4>
+        <button
+          className="help-close"
+          onClick={onClose}
+          aria-label="Close objective templates"
+        >
+          ×
+        </button>
+      </div>
+      <div className="help-content">
+        <p>
+          The template in use sets the blanks in the objective builder. A saved template is also given to the AI,
+          so generated objectives follow your institution's wording. Templates are kept in this browser.
+        </p>
+
+        <ul className="objective-template-list">
+          {templates.map(template => (
+            <li key={template.id} className={template.id === activeId ? 'active' : ''}>
+              <div className="objective-template-summary">
+                <strong>{template.name}</strong>
+                <code>{template.template}</code>
+              </div>
+              <div className="item-actions">
+                {template.id === activeId ? (
+                  <span className="objective-template-current">In use</span>
+                ) : (
+                  <button className="item-action" onClick={() => handleUse(template)}>Use</button>
+                )}
+                {!isBuiltInTemplate(template) && (
+                  <>
+                    <button className="item-action" onClick={() => setForm({ id: template.id, name: template.name, template: template.template })}>
+                      Edit
+                    </button>
+                    <button className="item-action danger" onClick={() => handleDelete(template)}>Delete</button>
+                  </>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+
+        <div className="objective-template-form">
+          <h5>{form.id ? 'Edit template' : 'New template'}</h5>
+          <input
+            type="text"
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            placeholder="Name, e.g. Module objectives"
+            aria-label="Template name"
+            maxLength={80}
+          />
+          <textarea
+            value={form.template}
+            onChange={(e) => setForm({ ...form, template: e.target.value })}
+            placeholder="By the end of the module, {audience} will be able to {behavior}."
+            aria-label="Template"
+            rows={3}
+            maxLength={USER_TEXT_LIMITS.objectiveTemplate}
+            spellCheck={false}
+          />
+          <p className="objective-template-syntax">
+            Write <code>{'{name}'}</code> for a blank, <code>{'{Given|At|After}'}</code> for a dropdown,{' '}
+            <code>{'{opener:Given|At}'}</code> for a dropdown with a label, and <code>\n</code> for a line break.
+            Blanks named condition, audience, behavior or degree get the ABCD hints.
+          </p>
+
+          {problems.length > 0 && (
+            <ul className="objective-template-errors" role="alert">
+              {problems.map(problem => <li key={problem}>{problem}</li>)}
+            </ul>
+          )}
+          {parsed?.success && !instructionLike && (
+            <p className="objective-template-preview">
+              <strong>Preview:</strong> {describeTemplateForPrompt(parsed.parts)}
+            </p>
+          )}
+
+          <div className="inline-item-form-actions">
+            <button className="primary-button" onClick={handleSave} disabled={!canSave}>
+              {form.id ? 'Save Changes' : 'Save Template'}
+            </button>
+            {(form.id || form.name || form.template) && (
+              <button className="item-action" onClick={() => setForm(EMPTY_FORM)}>Cancel</button>
+            )}
+          </div>
+        </div>
+
+        {status && <p className="objective-template-status" role="status">{status}</p>}
+      </div>
+    </div>
+  )
+})
@@ -0,0 +1,49 @@
+import { memo } from 'react'
+import type { ObjectiveIssue } from '../utils/objectiveLinter'
+
+interface ObjectiveWarningsProps {
+  issues: ObjectiveIssue[]
+  // Names the objective for screen readers, e.g. "objective 2.1"
+  itemLabel: string
+  // Swaps the flagged verb for a suggestion; suggestions are shown as plain text without it
+  onReplaceVerb?: (phrase: string, replacement: string) => void
+  disabled?: boolean
+}
+
+/**
+ * Quality warnings shown under a learning objective, with suggested verbs to swap in
+ */
+export const ObjectiveWarnings = memo(function ObjectiveWarnings({ issues, itemLabel, onReplaceVerb, disabled = false }: ObjectiveWarningsProps) {
+  if (issues.length === 0) return null
+
+  return (
+    <ul className="objective-warnings" aria-label={`Quality checks for ${itemLabel}`}>
+      {issues.map(issue => (
+        <li key={issue.kind} className={`objective-warning ${issue.severity}`}>
+          <span className="objective-warning-icon" aria-hidden="true">{issue.severity === 'warning' ? '⚠' : 'ℹ'}</span>
+          <span className="objective-warning-message">
+            {issue.message}
+            {issue.suggestions && issue.suggestions.length > 0 && (
+              <span className="objective-warning-suggestions">
+                {' '}Try:{' '}
+                {issue.suggestions.map(suggestion => onReplaceVerb && issue.phrase ? (
+                  <button
+                    key={suggestion}
+                    className="objective-verb-suggestion"
+                    onClick={() => onReplaceVerb(issue.phrase as string, suggestion)}
+                    disabled={disabled}
+                    aria-label={`Replace "${issue.phrase}" with "${suggestion}" in ${itemLabel}`}
+                  >
+                    {suggestion}
+                  </button>
+                ) : (
+                  <span key={suggestion} className="objective-verb-suggestion">{suggestion}</span>
+                ))}
+              </span>
+            )}
+          </span>
+        </li>
+      ))}
+    </ul>
+  )
+})
@@ -0,0 +1,137 @@
+import { memo, useState } from 'react'
+import {
+  DEFAULT_FRAMEWORK_NAME,
+  deleteFramework,
+  duplicateFramework,
+  listFrameworks,
+  renameFramework,
+  type SavedFramework
+} from '../utils/projectLibrary'
+
+interface ProjectLibraryProps {
+  activeFrameworkId: string | null
+  onOpen: (framework: SavedFramework) => void
+  onNew: (name: string) => void
+  onDeleted: (id: string) => void
+}
+
+/**
+ * Lists saved frameworks and lets the user open, duplicate, rename, delete or start a new one
+ */
+export const ProjectLibrary = memo(function ProjectLibrary({ activeFrameworkId, onOpen, onNew, onDeleted }: ProjectLibraryProps) {
+  const [frameworks, setFrameworks] = useState<SavedFramework[]>(() => listFrameworks())
+  const [newName, setNewName] = useState('')
+  const [renamingId, setRenamingId] = useState<string | null>(null)
+  const [renameValue, setRenameValue] = useState('')
+
+  const refresh = () => setFrameworks(listFrameworks())
+
+  const handleNew = () => {
+    onNew(newName.trim() || DEFAULT_FRAMEWORK_NAME)
+    setNewName('')
+    refresh()
+  }
+
+  const startRename = (framework: SavedFramework) => {
+    setRenamingId(framework.id)
+    setRenameValue(framework.name)
+  }
+
+  const commitRename = () => {
+    if (renamingId && renameValue.trim()) {
+      renameFramework(renamingId, renameValue)
+      refresh()
+    }
+    setRenamingId(null)
+  }
+
+  const handleDuplicate = (id: string) => {
+    duplicateFramework(id)
+    refresh()
+  }
+
+  const handleDelete = (framework: SavedFramework) => {
+    if (!window.confirm(`Delete "${framework.name}" from your library? This cannot be undone.`)) return
+    deleteFramework(framework.id)
+    onDeleted(framework.id)
+    refresh()
+  }
+
+  return (
+    <div className="project-library">
+      <h3>Your Framework Library</h3>
+
+      <div className="goal-input">
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleNew()}
+          placeholder="Name a new framework, e.g. BIO 101 - Fall term"
+        />
+        <button className="add-button" onClick={handleNew}>
+          New Framework
+        </button>
+      </div>
+
+      {frameworks.length === 0 ? (
+        <p className="instruction">No saved frameworks yet. Start a new one, or save a finished framework from the last step.</p>
+      ) : (
+        <ul className="library-list">
+          {frameworks.map((framework) => (
+            <li
+              key={framework.id}
+              className={`library-item ${framework.id === activeFrameworkId ? 'active' : ''}`.trim()}
+            >
+              {renamingId === framework.id ? (
+                <div className="library-rename">
+                  <input
+                    type="text"
+                    value={renameValue}
+                    onChange={(e) => setRenameValue(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename()
+                      if (e.key === 'Escape') setRenamingId(null)
+                    }}
+                    aria-label="Framework name"
+                    autoFocus
+                  />
+                  <button className="library-action" onClick={commitRename} disabled={!renameValue.trim()}>
+                    Save
+                  </button>
+                  <button className="library-action" onClick={() => setRenamingId(null)}>
+                    Cancel
+                  </button>
+                </div>
+              ) : (
+                <div className="library-details">
+                  <span className="library-name">{framework.name}</span>
+                  <span className="library-meta">
+                    {framework.state.courseSubject || 'No subject yet'} · Updated {new Date(framework.updatedAt).toLocaleString()}
+                  </span>
+                </div>
+              )}
+
+              {renamingId !== framework.id && (
+                <div className="library-actions">
+                  <button className="library-action" onClick={() => onOpen(framework)}>
+                    Open
+                  </button>
+                  <button className="library-action" onClick={() => handleDuplicate(framework.id)}>
+                    Duplicate
+                  </button>
+                  <button className="library-action" onClick={() => startRename(framework)}>
+                    Rename
+                  </button>
+                  <button className="library-action danger" onClick={() => handleDelete(framework)}>
+                    Delete
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+})
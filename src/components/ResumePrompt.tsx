@@ -0,0 +1,44 @@
+import { memo } from 'react'
+import type { PersistedSnapshot } from '../utils/persistence'
+import { ButtonGroup } from './ButtonGroup'
+
+interface ResumePromptProps {
+  session: PersistedSnapshot
+  onResume: () => void
+  onDiscard: () => void
+}
+
+const STEP_LABELS: Record<PersistedSnapshot['state']['currentStep'], string> = {
+  intro: 'Setup',
+  goals: 'Set Goals',
+  'review-goals': 'Review Goals',
+  assessments: 'Assessments',
+  'review-objectives': 'Review Objectives',
+  complete: 'Complete'
+}
+
+/**
+ * Offers to restore a previously autosaved session
+ */
+export const ResumePrompt = memo(function ResumePrompt({ session, onResume, onDiscard }: ResumePromptProps) {
+  const { state, savedAt } = session
+
+  return (
+    <div className="resume-prompt">
+      <h3>Resume where you left off?</h3>
+      <p>
+        We saved your progress on
+        {state.courseSubject ? <> <strong>{state.courseSubject}</strong></> : ' an unnamed framework'}
+        {' '}({STEP_LABELS[state.currentStep]} step, {new Date(savedAt).toLocaleString()}).
+      </p>
+      <ButtonGroup>
+        <button className="secondary-button" onClick={onDiscard}>
+          Start Fresh
+        </button>
+        <button className="primary-button" onClick={onResume}>
+          Resume Where You Left Off
+        </button>
+      </ButtonGroup>
+    </div>
+  )
+})
@@ -0,0 +1,89 @@
+import { memo, useMemo } from 'react'
+import type { AIUsageEntry } from '../types'
+import { estimateCost, formatCost, formatTokens, getOperationLabel, readTokenPrices } from '../utils/aiUsage'
+
+interface UsagePanelProps {
+  usage: AIUsageEntry[]
+  isVisible: boolean
+  onClose: () => void
+}
+
+/**
+ * Shows the tokens spent on the current framework and what they are estimated to cost
+ */
+export const UsagePanel = memo(function UsagePanel({ usage, isVisible, onClose }: UsagePanelProps) {
+  const prices = useMemo(readTokenPrices, [])
+
+  if (!isVisible) return null
+
+  const rows = usage.map(entry => ({ ...entry, cost: estimateCost(entry, prices) }))
+  const totals = rows.reduce(
+    (sum, row) => ({
+      requests: sum.requests + row.requests,
+      inputTokens: sum.inputTokens + row.inputTokens,
+      outputTokens: sum.outputTokens + row.outputTokens,
+      cost: sum.cost + (row.cost ?? 0)
+    }),
+    { requests: 0, inputTokens: 0, outputTokens: 0, cost: 0 }
+  )
+  const hasUnpricedModel = rows.some(row => row.cost === null)
+
+  return (
+    <div className="help-panel usage-panel">
+      <div className="help-header">
+        <h4>AI Usage</h4>
+        <button
+          className="help-close"
+          onClick={onClose}
+          aria-label="Close AI usage"
+        >
+          ×
+        </button>
+      </div>
+      <div className="help-content">
+        {rows.length === 0 ? (
+          <p>No AI requests have been made for this framework yet.</p>
+        ) : (
+          <table className="usage-table">
+            <thead>
+              <tr>
+                <th scope="col">Operation</th>
+                <th scope="col">Model</th>
+                <th scope="col">Requests</th>
+                <th scope="col">Input tokens</th>
+                <th scope="col">Output tokens</th>
+                <th scope="col">Est. cost</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => (
+                <tr key={`${row.operation}-${row.model}`}>
+                  <td>{getOperationLabel(row.operation)}</td>
+                  <td><code>{row.model}</code></td>
+                  <td>{row.requests}</td>
+                  <td>{formatTokens(row.inputTokens)}</td>
+                  <td>{formatTokens(row.outputTokens)}</td>
+                  <td>{formatCost(row.cost)}</td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot>
+              <tr>
+                <th scope="row" colSpan={2}>Total</th>
+                <td>{totals.requests}</td>
+                <td>{formatTokens(totals.inputTokens)}</td>
+                <td>{formatTokens(totals.outputTokens)}</td>
+                <td>{formatCost(totals.cost)}{hasUnpricedModel && '*'}</td>
+              </tr>
+            </tfoot>
+          </table>
+        )}
+
+        <p className="usage-note">
+          Costs are estimates from list prices in US dollars. Results reused from the cache cost nothing and aren't counted.
+          {hasUnpricedModel && ' *Models without a known price are left out of the total.'}
+        </p>
+      </div>
+    </div>
+  )
+})
@@ -4,6 +4,20 @@ export { AppHeader } from './AppHeader'
 export { ProgressIndicator } from './ProgressIndicator'
 export { StepContainer } from './StepContainer'
 export { ButtonGroup } from './ButtonGroup'
+export { ResumePrompt } from './ResumePrompt'
+export { ProjectLibrary } from './ProjectLibrary'
+export { AlignmentMatrixView } from './AlignmentMatrixView'
+export { FrameworkImport } from './FrameworkImport'
+export { InlineItemForm } from './InlineItemForm'
+export { ItemActions } from './ItemActions'
+export { AlternativesPicker } from './AlternativesPicker'
+export { DiffView } from './DiffView'
+export { ItemFeedback } from './ItemFeedback'
+export { ObjectiveBuilder } from './ObjectiveBuilder'
+export { ObjectiveTemplatesPanel } from './ObjectiveTemplatesPanel'
+export { ObjectiveWarnings } from './ObjectiveWarnings'
+export { AISettingsPanel } from './AISettingsPanel'
+export { UsagePanel } from './UsagePanel'
 export { default as ErrorBoundary } from './ErrorBoundary'
 export { default as withErrorBoundary } from './withErrorBoundary'
 export { default as ErrorMessage, FieldError, ErrorToast, ErrorBanner } from './ErrorMessage'
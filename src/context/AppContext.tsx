@@ -1,12 +1,26 @@
-import { createContext, useContext, useState, useMemo } from 'react'
+import { createContext, useContext, useState, useMemo, useCallback, useEffect } from 'react'
 import type { ReactNode } from 'react'
 import type { 
   Step, 
   Goal, 
   Assessment, 
   LearningObjective,
-  CourseType 
+  CourseType,
+  AIUsageEntry,
+  TokenUsage
 } from '../types'
+import {
+  AUTOSAVE_DELAY_MS,
+  clearSessionSnapshot,
+  extractPersistedState,
+  hasMeaningfulProgress,
+  loadSessionSnapshot,
+  saveSessionSnapshot,
+  type PersistedSnapshot,
+  type PersistedState
+} from '../utils/persistence'
+import { updateFramework } from '../utils/projectLibrary'
+import { addUsage } from '../utils/aiUsage'
 
 // Define the shape of our application state
 export interface AppState {
@@ -35,13 +49,21 @@ export interface AppState {
   refinedObjectives: LearningObjective[]
   approvedObjectives: LearningObjective[]
   
+  // AI Usage State - token totals spent on this framework
+  aiUsage: AIUsageEntry[]
+  
   // UI State
   isRefining: boolean
   loadingMessage: string
   progress: number
+  partialItems: string[]
   error: string
   inputErrors: Record<string, string>
   showHelp: boolean
+  
+  // Session Persistence State
+  resumableSession: PersistedSnapshot | null
+  activeFrameworkId: string | null
 }
 
 // Define the actions/setters interface
@@ -71,13 +93,24 @@ export interface AppActions {
   setRefinedObjectives: (objectives: LearningObjective[]) => void
   setApprovedObjectives: (objectives: LearningObjective[]) => void
   
+  // AI Usage Actions
+  setAIUsage: (usage: AIUsageEntry[]) => void
+  recordAIUsage: (operation: string, model: string, usage: TokenUsage) => void
+  
   // UI Actions
   setIsRefining: (refining: boolean) => void
   setLoadingMessage: (message: string) => void
   setProgress: (progress: number) => void
+  setPartialItems: (items: string[]) => void
   setError: (error: string) => void
   setInputErrors: (errors: Record<string, string> | ((prev: Record<string, string>) => Record<string, string>)) => void
   setShowHelp: (show: boolean) => void
+  
+  // Session Persistence Actions
+  restoreState: (state: PersistedState) => void
+  resumeSession: () => void
+  discardResumableSession: () => void
+  setActiveFrameworkId: (id: string | null) => void
 }
 
 // Combined context interface
@@ -165,12 +198,14 @@ export const useUIState = () => {
     isRefining: state.isRefining,
     loadingMessage: state.loadingMessage,
     progress: state.progress,
+    partialItems: state.partialItems,
     error: state.error,
     inputErrors: state.inputErrors,
     showHelp: state.showHelp,
     setIsRefining: actions.setIsRefining,
     setLoadingMessage: actions.setLoadingMessage,
     setProgress: actions.setProgress,
+    setPartialItems: actions.setPartialItems,
     setError: actions.setError,
     setInputErrors: actions.setInputErrors,
     setShowHelp: actions.setShowHelp,
@@ -209,13 +244,104 @@ export function AppProvider({ children }: AppProviderProps) {
   const [refinedObjectives, setRefinedObjectives] = useState<LearningObjective[]>([])
   const [approvedObjectives, setApprovedObjectives] = useState<LearningObjective[]>([])
   
+  // AI Usage State
+  const [aiUsage, setAIUsage] = useState<AIUsageEntry[]>([])
+  
   // UI State
   const [isRefining, setIsRefining] = useState(false)
   const [loadingMessage, setLoadingMessage] = useState('')
   const [progress, setProgress] = useState(0)
+  const [partialItems, setPartialItems] = useState<string[]>([])
   const [error, setError] = useState('')
   const [inputErrors, setInputErrors] = useState<Record<string, string>>({})
   const [showHelp, setShowHelp] = useState(false)
+  
+  // Session Persistence State - a previous session is only offered if it has real progress
+  const [resumableSession, setResumableSession] = useState<PersistedSnapshot | null>(() => {
+    const snapshot = loadSessionSnapshot()
+    return snapshot && hasMeaningfulProgress(snapshot.state) ? snapshot : null
+  })
+  const [activeFrameworkId, setActiveFrameworkId] = useState<string | null>(null)
+
+  const persistedState: PersistedState = useMemo(() => extractPersistedState({
+    currentStep,
+    courseType,
+    courseSubject,
+    targetAudience,
+    instructionDuration,
+    isSubjectConfirmed,
+    isSetupComplete,
+    goals,
+    currentGoal,
+    refinedGoals,
+    approvedGoals,
+    refinedAssessments,
+    approvedAssessments,
+    refinedObjectives,
+    approvedObjectives,
+    aiUsage
+  }), [currentStep, courseType, courseSubject, targetAudience, instructionDuration, isSubjectConfirmed, isSetupComplete, goals, currentGoal, refinedGoals, approvedGoals, refinedAssessments, approvedAssessments, refinedObjectives, approvedObjectives, aiUsage])
+
+  // Autosave (debounced) whenever the persisted part of the state changes,
+  // keeping the open library framework in sync with the session
+  useEffect(() => {
+    const hasProgress = hasMeaningfulProgress(persistedState)
+
+    // Don't overwrite a resumable session while the user hasn't started anything new
+    if (resumableSession && !hasProgress) return
+
+    const timer = setTimeout(() => {
+      if (hasProgress) {
+        saveSessionSnapshot(persistedState, activeFrameworkId)
+        if (activeFrameworkId) {
+          updateFramework(activeFrameworkId, persistedState)
+        }
+        // Starting fresh supersedes the previously offered session
+        setResumableSession(null)
+      } else {
+        clearSessionSnapshot()
+      }
+    }, AUTOSAVE_DELAY_MS)
+
+    return () => clearTimeout(timer)
+  }, [persistedState, resumableSession, activeFrameworkId])
+
+  const restoreState = useCallback((saved: PersistedState) => {
+    setCourseType(saved.courseType)
+    setCourseSubject(saved.courseSubject)
+    setTargetAudience(saved.targetAudience)
+    setInstructionDuration(saved.instructionDuration)
+    setIsSubjectConfirmed(saved.isSubjectConfirmed)
+    setIsSetupComplete(saved.isSetupComplete)
+    setGoals(saved.goals)
+    setCurrentGoal(saved.currentGoal)
+    setRefinedGoals(saved.refinedGoals)
+    setApprovedGoals(saved.approvedGoals)
+    setRefinedAssessments(saved.refinedAssessments)
+    setApprovedAssessments(saved.approvedAssessments)
+    setRefinedObjectives(saved.refinedObjectives)
+    setApprovedObjectives(saved.approvedObjectives)
+    setAIUsage(saved.aiUsage)
+    setError('')
+    setInputErrors({})
+    setCurrentStep(saved.currentStep)
+  }, [])
+
+  const resumeSession = useCallback(() => {
+    if (!resumableSession) return
+    restoreState(resumableSession.state)
+    setActiveFrameworkId(resumableSession.frameworkId)
+    setResumableSession(null)
+  }, [resumableSession, restoreState])
+
+  const recordAIUsage = useCallback((operation: string, model: string, usage: TokenUsage) => {
+    setAIUsage(prev => addUsage(prev, operation, model, usage))
+  }, [])
+
+  const discardResumableSession = useCallback(() => {
+    clearSessionSnapshot()
+    setResumableSession(null)
+  }, [])
 
   // Create state object with memoization
   const state: AppState = useMemo(() => ({
@@ -244,14 +370,22 @@ export function AppProvider({ children }: AppProviderProps) {
     refinedObjectives,
     approvedObjectives,
     
+    // AI Usage State
+    aiUsage,
+    
     // UI State
     isRefining,
     loadingMessage,
     progress,
+    partialItems,
     error,
     inputErrors,
-    showHelp
-  }), [courseType, courseSubject, targetAudience, instructionDuration, isSubjectConfirmed, isSetupComplete, currentStep, goals, currentGoal, refinedGoals, approvedGoals, refinedAssessments, approvedAssessments, refinedObjectives, approvedObjectives, isRefining, loadingMessage, progress, error, inputErrors, showHelp])
+    showHelp,
+    
+    // Session Persistence State
+    resumableSession,
+    activeFrameworkId
+  }), [courseType, courseSubject, targetAudience, instructionDuration, isSubjectConfirmed, isSetupComplete, currentStep, goals, currentGoal, refinedGoals, approvedGoals, refinedAssessments, approvedAssessments, refinedObjectives, approvedObjectives, aiUsage, isRefining, loadingMessage, progress, partialItems, error, inputErrors, showHelp, resumableSession, activeFrameworkId])
 
   // Create actions object with memoization
   const actions: AppActions = useMemo(() => ({
@@ -280,14 +414,25 @@ export function AppProvider({ children }: AppProviderProps) {
     setRefinedObjectives,
     setApprovedObjectives,
     
+    // AI Usage Actions
+    setAIUsage,
+    recordAIUsage,
+    
     // UI Actions
     setIsRefining,
     setLoadingMessage,
     setProgress,
+    setPartialItems,
     setError,
     setInputErrors,
-    setShowHelp
-  }), [setCourseType, setCourseSubject, setTargetAudience, setInstructionDuration, setIsSubjectConfirmed, setIsSetupComplete, setCurrentStep, setGoals, setCurrentGoal, setRefinedGoals, setApprovedGoals, setRefinedAssessments, setApprovedAssessments, setRefinedObjectives, setApprovedObjectives, setIsRefining, setLoadingMessage, setProgress, setError, setInputErrors, setShowHelp])
+    setShowHelp,
+    
+    // Session Persistence Actions
+    restoreState,
+    resumeSession,
+    discardResumableSession,
+    setActiveFrameworkId
+  }), [setCourseType, setCourseSubject, setTargetAudience, setInstructionDuration, setIsSubjectConfirmed, setIsSetupComplete, setCurrentStep, setGoals, setCurrentGoal, setRefinedGoals, setApprovedGoals, setRefinedAssessments, setApprovedAssessments, setRefinedObjectives, setApprovedObjectives, setAIUsage, recordAIUsage, setIsRefining, setLoadingMessage, setProgress, setPartialItems, setError, setInputErrors, setShowHelp, restoreState, resumeSession, discardResumableSession, setActiveFrameworkId])
 
   // Create context value with memoization
   const contextValue: AppContextType = useMemo(() => ({
@@ -0,0 +1,13 @@
+import { useAppContext } from '../context/AppContext'
+
+/**
+ * Token totals spent on the open framework, and the action AI requests report their usage to
+ */
+export const useAIUsage = () => {
+  const { state, actions } = useAppContext();
+  return {
+    aiUsage: state.aiUsage,
+    setAIUsage: actions.setAIUsage,
+    recordAIUsage: actions.recordAIUsage,
+  };
+};
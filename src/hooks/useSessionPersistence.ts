@@ -0,0 +1,17 @@
+import { useAppContext } from '../context/AppContext'
+
+/**
+ * The saved session offered for resuming, the library entry being saved into, and the actions
+ * that restore or discard a session
+ */
+export const useSessionPersistence = () => {
+  const { state, actions } = useAppContext();
+  return {
+    resumableSession: state.resumableSession,
+    activeFrameworkId: state.activeFrameworkId,
+    restoreState: actions.restoreState,
+    resumeSession: actions.resumeSession,
+    discardResumableSession: actions.discardResumableSession,
+    setActiveFrameworkId: actions.setActiveFrameworkId,
+  };
+};
@@ -0,0 +1,318 @@
+// Typed schemas for the structured JSON responses requested from the AI.
+// Goals are referenced by their 1-based position in the list sent with the prompt.
+import { BLOOM_LEVELS, type BloomLevel } from '../types'
+import { inferBloomLevel, normalizeBloomLevel } from './prompts'
+
+export interface RefinedGoalPayload {
+  goal: number
+  description: string
+}
+
+export interface StrategyPayload {
+  title: string | null
+  description: string
+}
+
+export interface AssessmentPayload {
+  goal: number
+  strategies: StrategyPayload[]
+}
+
+// The objective's ABCD parts, quoted from its description; parts it doesn't state are null
+export interface ObjectiveComponentsPayload {
+  audience: string | null
+  behavior: string | null
+  condition: string | null
+  degree: string | null
+}
+
+export interface ObjectivePayload {
+  goal: number
+  bloomLevel: BloomLevel
+  description: string
+  components?: ObjectiveComponentsPayload
+}
+
+export interface RefinedGoalsResponse {
+  goals: RefinedGoalPayload[]
+}
+
+export interface AssessmentsResponse {
+  assessments: AssessmentPayload[]
+}
+
+export interface ObjectivesResponse {
+  objectives: ObjectivePayload[]
+}
+
+// Replacement candidates for a single item, without goal references
+export interface AlternativesResponse<T> {
+  alternatives: T[]
+}
+
+// A single revised item, produced from the user's feedback
+export interface RevisionResponse<T> {
+  revised: T
+}
+
+export type GoalAlternative = Omit<RefinedGoalPayload, 'goal'>
+export type AssessmentAlternative = Omit<AssessmentPayload, 'goal'>
+export type ObjectiveAlternative = Omit<ObjectivePayload, 'goal'>
+
+export type SchemaResult<T> =
+  | { success: true; data: T }
+  | { success: false; issues: string[] }
+
+/**
+ * Validates a parsed JSON value, recording every problem found in `issues`
+ */
+export type ResponseSchema<T> = (value: unknown, goalCount: number, issues: string[]) => T
+
+type JsonRecord = Record<string, unknown>
+
+function isRecord(value: unknown): value is JsonRecord {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+function readList(value: unknown, key: string, issues: string[]): { item: JsonRecord; path: string }[] {
+  const list = isRecord(value) ? value[key] : undefined
+  if (!Array.isArray(list) || list.length === 0) {
+    issues.push(`${key} must be a non-empty array`)
+    return []
+  }
+
+  return list.flatMap((item, index) => {
+    const path = `${key}[${index}]`
+    if (!isRecord(item)) {
+      issues.push(`${path} must be an object`)
+      return []
+    }
+    return [{ item, path }]
+  })
+}
+
+function readText(item: JsonRecord, key: string, path: string, issues: string[]): string {
+  const value = item[key]
+  if (typeof value !== 'string' || !value.trim()) {
+    issues.push(`${path}.${key} must be a non-empty string`)
+    return ''
+  }
+  return value.trim()
+}
+
+// Levels are accepted however they're spelled ("Analyse", "analysis"); a missing or unknown
+// level is taken from the objective's leading verb when it has a taxonomy verb
+function readBloomLevel(item: JsonRecord, path: string, issues: string[]): BloomLevel {
+  const value = item.bloomLevel
+  const level = (typeof value === 'string' ? normalizeBloomLevel(value) : null) ??
+    (typeof item.description === 'string' ? inferBloomLevel(item.description) : null)
+  if (level) return level
+
+  issues.push(`${path}.bloomLevel must be one of: ${BLOOM_LEVELS.join(', ')}`)
+  return BLOOM_LEVELS[0]
+}
+
+// Optional detail on top of the description, so a malformed part is dropped rather than
+// failing an otherwise usable objective
+function readComponents(item: JsonRecord): ObjectiveComponentsPayload | undefined {
+  const components = item.components
+  if (!isRecord(components)) return undefined
+
+  const readPart = (key: keyof ObjectiveComponentsPayload) => {
+    const value = components[key]
+    return typeof value === 'string' && value.trim() ? value.trim() : null
+  }
+  return {
+    audience: readPart('audience'),
+    behavior: readPart('behavior'),
+    condition: readPart('condition'),
+    degree: readPart('degree')
+  }
+}
+
+function readGoalNumber(item: JsonRecord, path: string, goalCount: number, issues: string[]): number {
+  const value = item.goal
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1 || value > goalCount) {
+    issues.push(`${path}.goal must be an integer from 1 to ${goalCount}`)
+    return 0
+  }
+  return value
+}
+
+function readStrategies(item: JsonRecord, path: string, issues: string[]): StrategyPayload[] {
+  return readList(item, 'strategies', issues).map(({ item: strategy, path: strategyPath }) => {
+    const title = strategy.title
+    if (title !== undefined && title !== null && typeof title !== 'string') {
+      issues.push(`${path}.${strategyPath}.title must be a string or null`)
+    }
+    return {
+      title: typeof title === 'string' && title.trim() ? title.trim() : null,
+      description: readText(strategy, 'description', `${path}.${strategyPath}`, issues)
+    }
+  })
+}
+
+export const refinedGoalsSchema: ResponseSchema<RefinedGoalsResponse> = (value, goalCount, issues) => ({
+  goals: readList(value, 'goals', issues).map(({ item, path }) => ({
+    goal: readGoalNumber(item, path, goalCount, issues),
+    description: readText(item, 'description', path, issues)
+  }))
+})
+
+export const assessmentsSchema: ResponseSchema<AssessmentsResponse> = (value, goalCount, issues) => ({
+  assessments: readList(value, 'assessments', issues).map(({ item, path }) => ({
+    goal: readGoalNumber(item, path, goalCount, issues),
+    strategies: readStrategies(item, path, issues)
+  }))
+})
+
+export const objectivesSchema: ResponseSchema<ObjectivesResponse> = (value, goalCount, issues) => ({
+  objectives: readList(value, 'objectives', issues).map(({ item, path }) => ({
+    goal: readGoalNumber(item, path, goalCount, issues),
+    bloomLevel: readBloomLevel(item, path, issues),
+    description: readText(item, 'description', path, issues),
+    components: readComponents(item)
+  }))
+})
+
+type ItemReader<T> = (item: JsonRecord, path: string, issues: string[]) => T
+
+const readGoalAlternative: ItemReader<GoalAlternative> = (item, path, issues) => ({
+  description: readText(item, 'description', path, issues)
+})
+
+const readAssessmentAlternative: ItemReader<AssessmentAlternative> = (item, path, issues) => ({
+  strategies: readStrategies(item, path, issues)
+})
+
+const readObjectiveAlternative: ItemReader<ObjectiveAlternative> = (item, path, issues) => ({
+  bloomLevel: readBloomLevel(item, path, issues),
+  description: readText(item, 'description', path, issues),
+  components: readComponents(item)
+})
+
+function alternativesSchema<T>(readItem: ItemReader<T>): ResponseSchema<AlternativesResponse<T>> {
+  return (value, _goalCount, issues) => ({
+    alternatives: readList(value, 'alternatives', issues).map(({ item, path }) => readItem(item, path, issues))
+  })
+}
+
+function revisionSchema<T>(readItem: ItemReader<T>): ResponseSchema<RevisionResponse<T>> {
+  return (value, _goalCount, issues) => {
+    const revised = isRecord(value) ? value.revised : undefined
+    if (!isRecord(revised)) {
+      issues.push('revised must be an object')
+    }
+    return { revised: readItem(isRecord(revised) ? revised : {}, 'revised', issues) }
+  }
+}
+
+export const goalAlternativesSchema = alternativesSchema(readGoalAlternative)
+export const assessmentAlternativesSchema = alternativesSchema(readAssessmentAlternative)
+export const objectiveAlternativesSchema = alternativesSchema(readObjectiveAlternative)
+
+export const goalRevisionSchema = revisionSchema(readGoalAlternative)
+export const assessmentRevisionSchema = revisionSchema(readAssessmentAlternative)
+export const objectiveRevisionSchema = revisionSchema(readObjectiveAlternative)
+
+// Returns the complete objects received so far in the named array of a partial JSON response
+function findCompleteObjects(text: string, key: string): JsonRecord[] {
+  const arrayStart = new RegExp(`"${key}"\\s*:\\s*\\[`).exec(text)
+  if (!arrayStart) return []
+
+  const objects: JsonRecord[] = []
+  let depth = 0
+  let objectStart = -1
+  let inString = false
+  let escaped = false
+
+  for (let i = arrayStart.index + arrayStart[0].length; i < text.length; i++) {
+    const char = text[i]
+    if (inString) {
+      if (escaped) escaped = false
+      else if (char === '\\') escaped = true
+      else if (char === '"') inString = false
+      continue
+    }
+
+    if (char === '"') {
+      inString = true
+    } else if (char === '{') {
+      if (depth === 0) objectStart = i
+      depth++
+    } else if (char === '}') {
+      depth--
+      if (depth === 0 && objectStart !== -1) {
+        try {
+          const value: unknown = JSON.parse(text.slice(objectStart, i + 1))
+          if (isRecord(value)) objects.push(value)
+        } catch {
+          // Skip malformed items; the full response is validated once it completes
+        }
+        objectStart = -1
+      }
+    } else if (char === ']' && depth === 0) {
+      break
+    }
+  }
+
+  return objects
+}
+
+function readPartialItems<T>(text: string, key: string, readItem: ItemReader<T>): T[] {
+  return findCompleteObjects(text, key).flatMap((item, index) => {
+    const issues: string[] = []
+    const value = readItem(item, `${key}[${index}]`, issues)
+    return issues.length === 0 ? [value] : []
+  })
+}
+
+/**
+ * Readers for the items that have fully arrived while a response is still streaming
+ */
+export const readStreamedGoals = (text: string) => readPartialItems(text, 'goals', readGoalAlternative)
+export const readStreamedAssessments = (text: string) => readPartialItems(text, 'assessments', readAssessmentAlternative)
+export const readStreamedObjectives = (text: string) => readPartialItems(text, 'objectives', readObjectiveAlternative)
+
+/**
+ * Recovers the items that were complete before a response was cut off at the token limit,
+ * validated against the same schema as a full response
+ */
+export function parseTruncatedResponse<T>(text: string, key: string, schema: ResponseSchema<T>, goalCount: number): SchemaResult<T> {
+  const items = findCompleteObjects(text, key)
+  if (items.length === 0) {
+    return { success: false, issues: [`no complete ${key} before the response was cut off`] }
+  }
+
+  const issues: string[] = []
+  const data = schema({ [key]: items }, goalCount, issues)
+  return issues.length === 0 ? { success: true, data } : { success: false, issues }
+}
+
+/**
+ * Pulls the JSON text out of a response that may be wrapped in a markdown fence or surrounded by prose
+ */
+export function extractJsonText(text: string): string {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i)
+  if (fenced) return fenced[1].trim()
+
+  const start = text.indexOf('{')
+  const end = text.lastIndexOf('}')
+  return start !== -1 && end > start ? text.slice(start, end + 1) : text.trim()
+}
+
+/**
+ * Parses an AI response as JSON and validates it against the given schema
+ */
+export function parseStructuredResponse<T>(text: string, schema: ResponseSchema<T>, goalCount: number): SchemaResult<T> {
+  let value: unknown
+  try {
+    value = JSON.parse(extractJsonText(text))
+  } catch {
+    return { success: false, issues: ['response is not valid JSON'] }
+  }
+
+  const issues: string[] = []
+  const data = schema(value, goalCount, issues)
+  return issues.length === 0 ? { success: true, data } : { success: false, issues }
+}
@@ -1,112 +1,118 @@
-// AI Service - Now uses secure Netlify Functions instead of direct API calls
-import type { Goal, Assessment, LearningObjective, Step } from '../types'
-import { createAppError, handleAsyncError, ErrorCategory, ErrorSeverity, type AppError } from '../utils/errorHandling'
-
-// Helper function to call our secure Netlify function with enhanced error handling
-async function callAIFunction(prompt: string, type: string): Promise<string> {
-  const result = await handleAsyncError(async () => {
-    const response = await fetch('/.netlify/functions/ai-request', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ prompt, type })
-    })
+// AI Service - builds structured requests and handles responses; requests go through the active AI provider
+import type { BloomLevel, Goal, Assessment, LearningObjective, ObjectiveComponents, Step, TokenUsage } from '../types'
+import { createAppError, createCancellationError, handleAsyncError, isAppError, isCancellationError, ErrorCategory, ErrorSeverity, type AppError } from '../utils/errorHandling'
+import { serializeAssessmentStrategies } from '../utils/assessmentStrategies'
+import { createObjectiveComponents } from '../utils/objectiveComponents'
+import {
+  assessmentAlternativesSchema,
+  assessmentRevisionSchema,
+  assessmentsSchema,
+  goalAlternativesSchema,
+  goalRevisionSchema,
+  objectiveAlternativesSchema,
+  objectiveRevisionSchema,
+  objectivesSchema,
+  parseStructuredResponse,
+  parseTruncatedResponse,
+  readStreamedAssessments,
+  readStreamedGoals,
+  readStreamedObjectives,
+  refinedGoalsSchema,
+  type AssessmentAlternative,
+  type GoalAlternative,
+  type ObjectiveAlternative,
+  type ResponseSchema,
+  type StrategyPayload
+} from './aiSchemas'
+import { parseLegacyAssessments, parseLegacyObjectives, parseLegacyRefinedGoals } from './legacyParsers'
+import { getAIProvider, getRetryAfterMs, type AICompletion, type StreamListener } from './providers'
+import { isCacheablePromptType, type CourseContext, type FrameworkSnapshot, type PromptRequest, type PromptType } from './prompts'
+import { readCachedResponse, writeCachedResponse } from './responseCache'
+
+export type { CourseContext } from './prompts'
+
+// Longest Retry-After we wait out automatically; beyond this the user is told how long to wait
+const MAX_RATE_LIMIT_WAIT_MS = 20000
 
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({ error: 'Unknown server error' }))
-      
-      // Create more specific error based on status code
-      let appError: AppError
-      if (response.status === 401) {
-        appError = createAppError(
-          'Authentication failed',
-          { status: response.status, type },
-          {
-            category: ErrorCategory.PERMISSION,
-            severity: ErrorSeverity.HIGH,
-            userMessage: 'API authentication failed. Please check that your API key is correctly configured.',
-            retryable: false
-          }
-        )
-      } else if (response.status === 403) {
-        appError = createAppError(
-          'Access forbidden',
-          { status: response.status, type },
-          {
-            category: ErrorCategory.PERMISSION,
-            severity: ErrorSeverity.HIGH,
-            userMessage: 'API access denied. Please check your API key permissions and billing status.',
-            retryable: false
-          }
-        )
-      } else if (response.status >= 500) {
-        appError = createAppError(
-          'Server error',
-          { status: response.status, type },
-          {
-            category: ErrorCategory.API,
-            severity: ErrorSeverity.HIGH,
-            userMessage: 'Our AI service is experiencing issues. Please try again in a few minutes.',
-            retryable: true
-          }
-        )
-      } else if (response.status === 429) {
-        appError = createAppError(
-          'Rate limit exceeded',
-          { status: response.status, type },
-          {
-            category: ErrorCategory.API,
-            severity: ErrorSeverity.MEDIUM,
-            userMessage: 'Too many requests. Please wait a moment before trying again.',
-            retryable: true
-          }
-        )
-      } else {
-        appError = createAppError(
-          errorData.error || `HTTP ${response.status}: ${response.statusText}`,
-          { status: response.status, type },
-          {
-            category: ErrorCategory.API,
-            severity: ErrorSeverity.MEDIUM,
-            userMessage: 'We couldn\'t process your AI request right now. Please try again.',
-            retryable: true
-          }
-        )
-      }
-      
-      throw appError
-    }
+/**
+ * Receives the tokens billed for each completed AI request
+ */
+export type UsageListener = (operation: PromptType, model: string, usage: TokenUsage) => void
+
+// Sends a structured request to the active AI provider with enhanced error handling.
+// Passing `onText` asks for a streamed response; aborting `signal` cancels the request.
+// A rate-limited request is sent once more after the delay the server asks for.
+// Cacheable operations reuse the response to an identical earlier request unless `bypassCache` is set.
+// `onUsage` hears about every billed completion, including ones whose text turns out unusable.
+async function callAIFunction(
+  request: PromptRequest,
+  { onText, signal, bypassCache = false, onUsage }: { onText?: StreamListener; signal?: AbortSignal; bypassCache?: boolean; onUsage?: UsageListener } = {}
+): Promise<AICompletion> {
+  const { type } = request
+  const isCacheable = isCacheablePromptType(type)
+  const cached = isCacheable && !bypassCache ? readCachedResponse(request) : null
+  if (cached) {
+    return { ...cached, cached: true }
+  }
 
-    const data = await response.json()
-    if (!data.response) {
-      throw createAppError(
-        'Invalid AI response format',
-        { type, responseData: data },
-        {
-          category: ErrorCategory.DATA,
-          severity: ErrorSeverity.MEDIUM,
-          userMessage: 'Received an invalid response from the AI service. Please try again.',
-          retryable: true
-        }
-      )
-    }
-    
-    return data.response
-  }, { operation: 'AI API call', type })
+  const provider = getAIProvider()
+  const send = () => handleAsyncError(
+    () => provider.complete({ ...request, onText, signal, bypassCache }),
+    { operation: 'AI API call', type, provider: provider.id }
+  )
+
+  let result = await send()
+  const retryAfterMs = result.success ? undefined : getRetryAfterMs(result.error)
+  if (retryAfterMs !== undefined && retryAfterMs <= MAX_RATE_LIMIT_WAIT_MS) {
+    console.warn(`${type}: rate limited, retrying in ${Math.ceil(retryAfterMs / 1000)}s`)
+    await waitForRetry(retryAfterMs, signal)
+    result = await send()
+  }
 
   if (!result.success) {
     throw result.error
   }
+
+  // A response the server replayed from its cache cost nothing
+  if (result.data.usage && !result.data.cached) {
+    onUsage?.(type, result.data.model ?? provider.id, result.data.usage)
+  }
+
+  if (result.data.truncated) {
+    console.warn(`${type}: response reached the output token limit and was cut off`)
+  } else if (isCacheable) {
+    writeCachedResponse(request, result.data)
+  }
   
   return result.data
 }
 
+// Resolves after `delayMs`, or rejects as soon as the signal is aborted
+function waitForRetry(delayMs: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createCancellationError({ operation: 'retry delay' }))
+      return
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(createCancellationError({ operation: 'retry delay' }))
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, delayMs)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
 // Enhanced retry logic for AI operations
 async function retryOperation<T>(
   operation: () => Promise<T>,
   maxRetries: number = 2,
-  delayMs: number = 1000
+  delayMs: number = 1000,
+  signal?: AbortSignal
 ): Promise<T> {
   let lastError: AppError | null = null
   
@@ -116,32 +122,138 @@ async function retryOperation<T>(
     } catch (error) {
       lastError = error instanceof Error ? createAppError(error) : error as AppError
       
-      // Don't retry if error is not retryable or we've exhausted attempts
-      if (!lastError.retryable || attempt === maxRetries) {
+      // Don't retry if error is not retryable or we've exhausted attempts. Rate-limited
+      // requests have already waited as long as the server asked in callAIFunction.
+      if (!lastError.retryable || getRetryAfterMs(lastError) !== undefined || attempt === maxRetries) {
         throw lastError
       }
       
       // Wait before retrying
-      await new Promise(resolve => setTimeout(resolve, delayMs * (attempt + 1)))
+      await waitForRetry(delayMs * (attempt + 1), signal)
     }
   }
   
   throw lastError!
 }
 
+/**
+ * Whether the request was turned down because of what the user entered, e.g. text that reads
+ * like an instruction to the AI. Fallback content would hide why, so the message is shown instead.
+ */
+function isRejectedInput(error: unknown): error is AppError {
+  return isAppError(error) && error.category === ErrorCategory.VALIDATION
+}
+
 export interface AIServiceCallbacks {
   setIsRefining: (refining: boolean) => void
   setLoadingMessage: (message: string) => void
   setProgress: (progress: number) => void
   setError: (error: string) => void
   setCurrentStep: (step: Step) => void
+  // Receives the items that have arrived so far while a response streams in
+  setPartialItems?: (items: string[]) => void
+  // Called instead of the error and fallback handling when the user cancels the request
+  onCancelled?: () => void
+  // Called when the results are an earlier response to identical inputs, reused from the cache
+  onCachedResult?: () => void
+  onUsage?: UsageListener
+}
+
+export interface AIRequestOptions {
+  // Ask for a new response even if identical inputs have one cached
+  bypassCache?: boolean
+}
+
+export interface ObjectiveRequestOptions extends AIRequestOptions {
+  // The institution's objective template, when objectives should be written with one
+  objectiveTemplate?: string
 }
 
-export interface CourseContext {
-  courseType: 'course' | 'workshop'
-  courseSubject: string
-  targetAudience: string
-  instructionDuration: string
+// Shown alongside the results when the model ran out of output tokens part-way through
+const TRUNCATED_RESPONSE_MESSAGE = 'The AI response was cut off before it finished, so items it didn\'t reach use placeholder text. Review them, or use Regenerate on each one.'
+
+/**
+ * Validates a structured AI response, falling back to the legacy text parser when it doesn't match the schema.
+ * A truncated response keeps the items that arrived complete; `listKey` names the array they are in.
+ */
+function parseAIResponse<T>(
+  completion: AICompletion,
+  schema: ResponseSchema<T>,
+  listKey: string,
+  goalCount: number,
+  parseLegacy: (text: string, goalCount: number) => T,
+  operation: string
+): T {
+  const structured = parseStructuredResponse(completion.text, schema, goalCount)
+  if (structured.success) {
+    return structured.data
+  }
+
+  if (completion.truncated) {
+    const salvaged = parseTruncatedResponse(completion.text, listKey, schema, goalCount)
+    if (salvaged.success) {
+      return salvaged.data
+    }
+    console.warn(`${operation}: nothing usable before the cut-off (prompt ${completion.promptVersion ?? 'unknown'})`, salvaged.issues)
+  }
+
+  console.warn(`${operation}: response failed schema validation (prompt ${completion.promptVersion ?? 'unknown'}), falling back to text parsing`, structured.issues)
+  return parseLegacy(completion.text, goalCount)
+}
+
+/**
+ * Builds a stream listener that shows each item once it has fully arrived and moves
+ * the progress bar across `progressRange` in step with the items received
+ */
+function createItemStreamListener<T>(
+  callbacks: AIServiceCallbacks,
+  options: {
+    readItems: (text: string) => T[]
+    describeItem: (item: T) => string
+    describeProgress: (receivedCount: number) => string
+    expectedCount: number
+    progressRange: [number, number]
+  }
+): StreamListener {
+  const [fromProgress, toProgress] = options.progressRange
+  let receivedCount = 0
+
+  return (partialText) => {
+    const items = options.readItems(partialText)
+    if (items.length === receivedCount) return
+
+    receivedCount = items.length
+    const share = Math.min(receivedCount / options.expectedCount, 1)
+    callbacks.setProgress(Math.round(fromProgress + (toProgress - fromProgress) * share))
+    callbacks.setLoadingMessage(options.describeProgress(receivedCount))
+    callbacks.setPartialItems?.(items.map(options.describeItem))
+  }
+}
+
+/**
+ * Rewrites a goal that opens with the course subject into learning-outcome language
+ */
+function removeSubjectPrefix(goalText: string, courseSubject: string): string {
+  const subject = courseSubject.trim().toLowerCase()
+  if (!subject) return goalText
+
+  const firstSubjectWord = subject.split(/\s+/)[0]
+  const goalTextLower = goalText.toLowerCase()
+
+  let prefixLength = 0
+  if (goalTextLower.startsWith(subject)) {
+    prefixLength = subject.length
+  } else if (firstSubjectWord.length > 3 && goalTextLower.startsWith(firstSubjectWord)) {
+    prefixLength = firstSubjectWord.length
+  }
+  if (prefixLength === 0) return goalText
+
+  // Drop the subject and any leftover punctuation, then make sure it reads as an outcome
+  let fixedGoalText = goalText.substring(prefixLength).replace(/^[:\-,\s]+/, '').trim()
+  if (!/^(students|learners|participants) will/i.test(fixedGoalText)) {
+    fixedGoalText = `Students will be able to ${fixedGoalText}`
+  }
+  return fixedGoalText
 }
 
 /**
@@ -152,7 +264,9 @@ export const refineGoalsWithAI = async (
   context: CourseContext,
   callbacks: AIServiceCallbacks & {
     setRefinedGoals: (goals: Goal[]) => void
-  }
+  },
+  signal?: AbortSignal,
+  { bypassCache }: AIRequestOptions = {}
 ): Promise<void> => {
   if (goals.length === 0) return
 
@@ -161,166 +275,80 @@ export const refineGoalsWithAI = async (
   callbacks.setProgress(20)
   
   try {
-    const goalsText = goals.map((goal, index) => `${index + 1}. ${goal.description}`).join('\n')
-
     callbacks.setLoadingMessage('Crafting refined goals with AI assistance...')
     callbacks.setProgress(50)
 
-    const prompt = `I have these initial goals for a ${context.courseType} on "${context.courseSubject}":
-
-INSTRUCTIONAL CONTEXT:
-- Course Type: ${context.courseType}
-- Subject: ${context.courseSubject}
-- Target Audience: ${context.targetAudience}
-- Duration: ${context.instructionDuration}
-
-INITIAL GOALS:
-${goalsText}
-
-Please help me refine these goals to make them more specific, measurable, and aligned with effective ${context.courseType} design principles for the subject of ${context.courseSubject}.
-
-Important guidelines for refining:
-- Start each refined goal with action-focused language like "Students will be able to..." or "Learners will demonstrate..."
-- Do NOT start goals with the course subject name "${context.courseSubject}"
-- Be suggestive rather than prescriptive
-- Avoid dictating specific vocabulary terms or specific issues that must be addressed
-- Use flexible language like "some examples are...", "possibly including...", "such as...", or "which may include..."
-- Focus on learning outcomes and measurable behaviors rather than exact content requirements
-- Consider the target audience "${context.targetAudience}" and the duration "${context.instructionDuration}" when suggesting appropriate complexity and scope
-- Allow for instructor flexibility in implementation
-
-For each original goal, provide a refined version that is appropriate for "${context.targetAudience}" over a "${context.instructionDuration}" timeframe. Format your response exactly like this:
-
-REFINED GOAL 1: [Your refined version of the first goal]
-REFINED GOAL 2: [Your refined version of the second goal]
-REFINED GOAL 3: [Your refined version of the third goal]
-
-Make each refined goal clear, actionable, and focused on student outcomes specific to ${context.courseSubject}, while maintaining flexibility in how the goal can be achieved.`
+    const request: PromptRequest = {
+      type: 'refine-goals',
+      payload: { context, goals: goals.map(goal => goal.description) }
+    }
 
     // Use retry logic for AI calls
-    const aiResponse = await retryOperation(() => callAIFunction(prompt, 'refine-goals'))
+    const completion = await retryOperation(() => callAIFunction(request, {
+      onText: createItemStreamListener(callbacks, {
+        readItems: readStreamedGoals,
+        describeItem: (item) => item.description,
+        describeProgress: (count) => `Received ${count} of ${goals.length} refined goals...`,
+        expectedCount: goals.length,
+        progressRange: [50, 80]
+      }),
+      signal,
+      bypassCache,
+      onUsage: callbacks.onUsage
+    }), 2, 1000, signal)
 
     callbacks.setLoadingMessage('Processing AI response...')
     callbacks.setProgress(80)
 
-    // Enhanced logging for debugging
-    console.log('AI Response for goal refinement:', aiResponse)
-    console.log('Original goals:', goals.map(g => g.description))
-    console.log('Course subject:', context.courseSubject)
-
-    // Parse AI response and create refined goals
-    const refinedGoalsList: Goal[] = []
-    const lines = aiResponse.split('\n').filter((line: string) => line.trim())
-
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i].trim()
-      console.log(`Processing line ${i}: "${line}"`)
-      
-      // Look for lines that start with "REFINED GOAL X:"
-      const refinedGoalMatch = line.match(/^REFINED GOAL \d+:\s*(.+)$/i)
-      if (refinedGoalMatch) {
-        let goalText = refinedGoalMatch[1].trim()
-        console.log(`Matched refined goal: "${goalText}"`)
-        
-        // Check and filter out goals that inappropriately start with the subject
-        const subjectWords = context.courseSubject.toLowerCase().split(/\s+/)
-        const goalTextLower = goalText.toLowerCase()
-        
-        // Check if goal starts with the subject or major subject words
-        let startsWithSubject = false
-        if (subjectWords.length > 0) {
-          // Check if goal starts with the full subject
-          if (goalTextLower.startsWith(context.courseSubject.toLowerCase())) {
-            startsWithSubject = true
-          }
-          // Check if goal starts with the first significant word of the subject (length > 3)
-          else if (subjectWords[0].length > 3 && goalTextLower.startsWith(subjectWords[0])) {
-            startsWithSubject = true
-          }
+    const payload = parseAIResponse(completion, refinedGoalsSchema, 'goals', goals.length, parseLegacyRefinedGoals, 'Goal refinement')
+    // Goals a cut-off response never reached keep their original wording
+    const missingGoals = completion.truncated
+      ? goals.flatMap((goal, index) => payload.goals.some(item => item.goal === index + 1) ? [] : [{ goal: index + 1, description: goal.description }])
+      : []
+    const refinedGoalsList: Goal[] = [...payload.goals, ...missingGoals]
+      .sort((a, b) => a.goal - b.goal)
+      .map((item, index, items) => {
+        // A refined goal keeps its original goal's ID so the two stay paired; a second
+        // refinement of the same goal gets an ID of its own
+        const isFirstForGoal = items.findIndex(other => other.goal === item.goal) === index
+        return {
+          id: (isFirstForGoal ? goals[item.goal - 1]?.id : undefined) ?? Date.now() + index,
+          description: removeSubjectPrefix(item.description, context.courseSubject),
+          isRefined: true,
+          ...(completion.promptVersion && payload.goals.includes(item) ? { promptVersion: completion.promptVersion } : {})
         }
-        
-        if (startsWithSubject) {
-          console.warn(`Warning: Fixing goal that starts with subject "${context.courseSubject}": ${goalText}`)
-          // Try to fix it by removing the subject prefix and adding proper learning outcome language
-          let fixedGoalText = goalText
-          
-          // Remove the subject from the beginning
-          if (goalTextLower.startsWith(context.courseSubject.toLowerCase())) {
-            fixedGoalText = goalText.substring(context.courseSubject.length).trim()
-          } else if (subjectWords[0].length > 3 && goalTextLower.startsWith(subjectWords[0])) {
-            fixedGoalText = goalText.substring(subjectWords[0].length).trim()
-          }
-          
-          // Clean up any remaining punctuation or conjunctions at the start
-          fixedGoalText = fixedGoalText.replace(/^[:\-,\s]+/, '').trim()
-          
-          // Add proper learning outcome language if it doesn't exist
-          if (!fixedGoalText.toLowerCase().startsWith('students will') && 
-              !fixedGoalText.toLowerCase().startsWith('learners will') && 
-              !fixedGoalText.toLowerCase().startsWith('participants will')) {
-            fixedGoalText = `Students will be able to ${fixedGoalText}`
-          }
-          
-          console.log(`Fixed goal text: ${fixedGoalText}`)
-          goalText = fixedGoalText
-        }
-        
-        if (goalText) {
-          refinedGoalsList.push({
-            id: Date.now() + i,
-            description: goalText,
-            isRefined: true
-          })
-        }
-      }
-    }
+      })
 
     callbacks.setLoadingMessage('Finalizing refined goals...')
     callbacks.setProgress(100)
 
     // If no goals were parsed, fall back to original goals (ensuring they don't start with subject)
     if (refinedGoalsList.length === 0) {
-      console.log('No refined goals parsed, using original goals with subject check')
-      const safeOriginalGoals = goals.map(goal => {
-        let description = goal.description
-        const subjectWords = context.courseSubject.toLowerCase().split(/\s+/)
-        const descriptionLower = description.toLowerCase()
-        
-        // Check if original goal starts with subject
-        if (subjectWords.length > 0 && 
-            (descriptionLower.startsWith(context.courseSubject.toLowerCase()) ||
-             (subjectWords[0].length > 3 && descriptionLower.startsWith(subjectWords[0])))) {
-          console.warn(`Warning: Original goal starts with subject, fixing: ${description}`)
-          
-          // Remove subject prefix
-          if (descriptionLower.startsWith(context.courseSubject.toLowerCase())) {
-            description = description.substring(context.courseSubject.length).trim()
-          } else if (subjectWords[0].length > 3 && descriptionLower.startsWith(subjectWords[0])) {
-            description = description.substring(subjectWords[0].length).trim()
-          }
-          
-          // Clean up and add proper language
-          description = description.replace(/^[:\-,\s]+/, '').trim()
-          if (!description.toLowerCase().startsWith('students will') && 
-              !description.toLowerCase().startsWith('learners will') && 
-              !description.toLowerCase().startsWith('participants will')) {
-            description = `Students will be able to ${description}`
-          }
-          
-          console.log(`Fixed original goal: ${description}`)
-        }
-        
-        return { ...goal, description, isRefined: true }
-      })
-      callbacks.setRefinedGoals(safeOriginalGoals)
+      console.warn('No refined goals parsed, using original goals')
+      callbacks.setRefinedGoals(goals.map(goal => ({
+        ...goal,
+        description: removeSubjectPrefix(goal.description, context.courseSubject),
+        isRefined: true
+      })))
     } else {
-      console.log('Parsed refined goals:', refinedGoalsList)
       callbacks.setRefinedGoals(refinedGoalsList)
+      if (missingGoals.length > 0) callbacks.setError(TRUNCATED_RESPONSE_MESSAGE)
     }
 
+    if (completion.cached) callbacks.onCachedResult?.()
     callbacks.setCurrentStep('review-goals')
   } catch (error) {
+    if (isCancellationError(error)) {
+      callbacks.onCancelled?.()
+      return
+    }
+
     console.error('Error refining goals:', error)
+
+    if (isRejectedInput(error)) {
+      callbacks.setError(error.userMessage)
+      return
+    }
     
     // Handle AppError objects with better user messaging
     if (error && typeof error === 'object' && 'userMessage' in error) {
@@ -359,6 +387,7 @@ Make each refined goal clear, actionable, and focused on student outcomes specif
     callbacks.setIsRefining(false)
     callbacks.setLoadingMessage('')
     callbacks.setProgress(0)
+    callbacks.setPartialItems?.([])
   }
 }
 
@@ -402,7 +431,9 @@ export const generateAssessments = async (
   context: CourseContext,
   callbacks: AIServiceCallbacks & {
     setRefinedAssessments: (assessments: Assessment[]) => void
-  }
+  },
+  signal?: AbortSignal,
+  { bypassCache }: AIRequestOptions = {}
 ): Promise<void> => {
   if (approvedGoals.length === 0) return
 
@@ -411,323 +442,73 @@ export const generateAssessments = async (
   callbacks.setProgress(15)
   
   try {
-    const goalsText = approvedGoals.map((goal, index) => `${index + 1}. ${goal.description}`).join('\n')
-
     callbacks.setLoadingMessage('Designing assessment strategies...')
     callbacks.setProgress(40)
 
-  const prompt = `I have these approved learning goals for a ${context.courseType} on "${context.courseSubject}":
-
-INSTRUCTIONAL CONTEXT:
-- Course Type: ${context.courseType}
-- Subject: ${context.courseSubject}
-- Target Audience: ${context.targetAudience}
-- Duration: ${context.instructionDuration}
-
-APPROVED GOALS:
-${goalsText}
-
-Please suggest specific, practical assessment strategies for each goal. Focus on authentic, meaningful ways to assess student achievement that are appropriate for "${context.targetAudience}" within a "${context.instructionDuration}" timeframe.
-
-Important guidelines:
-- Provide 2-3 specific assessment options for each goal
-- Use flexible language like "consider...", "options might include...", "could be assessed through..."
-- Include both formative (ongoing) and summative (final) assessment methods where appropriate for the duration
-- Focus on authentic assessment that connects to real-world application
-- Consider the ${context.courseType} format, target audience "${context.targetAudience}", and time constraints of "${context.instructionDuration}"
-- Suggest assessments that provide actionable feedback to students
-- Ensure assessments are realistic and feasible for the given timeframe and audience
-
-For each goal, provide detailed assessment suggestions appropriate for "${context.targetAudience}" over "${context.instructionDuration}".
-
-IMPORTANT: Return your response as JSON only (no explanatory text). The JSON must follow this exact schema:
-
-{
-  "assessments": [
-    {
-      "goal": 1,
-      "strategies": [
-        { "title": "Troubleshooting Lab Practical", "description": "Consider a hands-on lab..." },
-        { "title": null, "description": "Maintain a print-quality portfolio..." }
-      ]
-    },
-    { "goal": 2, "strategies": [ ... ] }
-  ]
-}
-
-Guidelines for the JSON response:
-- Include one object per goal. Use the numeric goal index matching the order in the APPROVED GOALS list (1-based).
-- For each strategy, include a title when appropriate (or null) and a short description. Provide 2-3 strategies per goal.
-- Ensure all strings are plain text suitable for JSON (escape quotes where necessary).
-- Do NOT include any extra commentary, headings, or non-JSON text. If you cannot follow the JSON format, return valid JSON with an empty "assessments" array.
-
-If the model cannot produce JSON, we will fall back to parsing free-form text, but JSON is strongly preferred because it will be deterministic and easy to parse.`
+    const request: PromptRequest = {
+      type: 'generate-assessments',
+      payload: { context, goals: approvedGoals.map(goal => goal.description) }
+    }
 
-    const aiResponse = await callAIFunction(prompt, 'generate-assessments')
+    const completion = await callAIFunction(request, {
+      onText: createItemStreamListener(callbacks, {
+        readItems: readStreamedAssessments,
+        describeItem: (item) => item.strategies.map(strategy => strategy.title ?? strategy.description).join('; '),
+        describeProgress: (count) => `Received assessment strategies for ${count} of ${approvedGoals.length} goals...`,
+        expectedCount: approvedGoals.length,
+        progressRange: [40, 70]
+      }),
+      signal,
+      bypassCache,
+      onUsage: callbacks.onUsage
+    })
 
     callbacks.setLoadingMessage('Processing assessment recommendations...')
     callbacks.setProgress(70)
 
-    // console.log('AI Response received:', aiResponse)
-    // console.log('=== ASSESSMENT PARSING DEBUG ===')
-    // console.log('AI Response length:', aiResponse.length)
-    // console.log('First 200 chars:', aiResponse.substring(0, 200))
-    // console.log('Contains "ASSESSMENT":', aiResponse.includes('ASSESSMENT'))
-    // console.log('Contains "GOAL":', aiResponse.includes('GOAL'))
-    // console.log('🔍 FULL RAW AI RESPONSE:')
-    // console.log('---START FULL AI RESPONSE---')
-    // console.log(aiResponse)
-    // console.log('---END FULL AI RESPONSE---')
-
-    // Try to parse the AI response as JSON first (we now instruct the model to output a strict JSON schema)
-    const assessmentsList: Assessment[] = []
-    let parsedJson: unknown = null
-    try {
-      parsedJson = JSON.parse(aiResponse)
-      console.log('AI returned JSON; attempting structured parse')
-    } catch {
-      console.warn('AI did not return valid JSON, falling back to text parsing')
-    }
-
-    if (parsedJson && typeof parsedJson === 'object' && 'assessments' in (parsedJson as object)) {
-      const maybe = (parsedJson as { assessments?: unknown }).assessments
-      if (Array.isArray(maybe)) {
-        // Build assessmentsList from JSON structure
-        const pj = parsedJson as { assessments: unknown[] }
-        pj.assessments.forEach((a) => {
-          if (!a || typeof a !== 'object') return
-          const rec = a as { goal?: number; strategies?: unknown[] }
-          const idx = (typeof rec.goal === 'number' ? rec.goal - 1 : null)
-          if (idx === null || idx < 0 || idx >= approvedGoals.length) return
-
-          // Construct description by joining strategies with clear separators
-          const strategies = Array.isArray(rec.strategies) ? rec.strategies : []
-          const descriptionParts = strategies.map((s) => {
-            if (!s || typeof s !== 'object') return ''
-            const strat = s as { title?: string | null; description?: string }
-            const title = strat.title ? `**${strat.title}**: ` : ''
-            return `${title}${(strat.description || '').trim()}`
-          }).filter((p) => p && p.length > 0) as string[]
-
-          const description = descriptionParts.join('\n\n')
-
-          assessmentsList.push({
-            id: Date.now() + idx + Math.random() * 1000,
-            goalId: approvedGoals[idx].id,
-            description: description,
-            isRefined: true
-          })
-        })
-      } else {
-        // If JSON exists but doesn't match the expected shape, fall through to text parsing below
-      }
-    } else {
-      // Fallback: existing robust free-form text parsing
-      const lines = aiResponse.split('\n').filter((line: string) => line.trim())
-      console.log('Filtered lines:', lines)
+    const payload = parseAIResponse(completion, assessmentsSchema, 'assessments', approvedGoals.length, parseLegacyAssessments, 'Assessment generation')
 
-      // First, try the primary parsing method with better validation
-      let currentGoalIndex = -1
-      let currentAssessmentText = ''
+    // One assessment per goal, in goal order; goals the AI skipped get a subject-specific fallback
+    const assessmentsList = approvedGoals.map((goal, goalIndex): Assessment => {
+      const strategies = payload.assessments
+        .filter(assessment => assessment.goal === goalIndex + 1)
+        .flatMap(assessment => assessment.strategies)
 
-      for (let i = 0; i < lines.length; i++) {
-        const line = lines[i].trim()
-        
-        // Look for assessment headers with more flexible patterns, including markdown headers
-        const assessmentMatch = line.match(/^(?:#{1,3}\s*)?(?:ASSESSMENT\s+FOR\s+GOAL\s+(\d+):|GOAL\s+(\d+)\s+ASSESSMENT:|ASSESSMENTS?\s+FOR\s+GOAL\s+(\d+))\s*(.*)$/i)
-        
-        if (assessmentMatch) {
-          const goalNum = assessmentMatch[1] || assessmentMatch[2] || assessmentMatch[3]
-          const goalIndex = parseInt(goalNum) - 1
-          
-          console.log('Found assessment match for goal:', goalNum, 'text:', assessmentMatch[4] || '')
-          
-          // Validate goal index is within bounds
-          if (goalIndex >= 0 && goalIndex < approvedGoals.length) {
-            // Save previous assessment if we have one
-            if (currentGoalIndex >= 0 && currentAssessmentText.trim() && currentGoalIndex < approvedGoals.length) {
-              console.log('Saving previous assessment for goal', currentGoalIndex + 1, ':', currentAssessmentText.trim())
-              assessmentsList.push({
-                id: Date.now() + currentGoalIndex + Math.random() * 1000,
-                goalId: approvedGoals[currentGoalIndex].id,
-                description: currentAssessmentText.trim(),
-                isRefined: true
-              })
-            }
-            
-            // Start new assessment
-            currentGoalIndex = goalIndex
-            currentAssessmentText = (assessmentMatch[4] || '').trim()
-            console.log('Started new assessment for goal index:', currentGoalIndex)
-          } else {
-            console.warn('Invalid goal index found:', goalIndex, 'Expected 0 to', approvedGoals.length - 1)
-          }
-        } else if (currentGoalIndex >= 0 && line) {
-          // Continue building the current assessment text
-          currentAssessmentText += (currentAssessmentText ? ' ' : '') + line
-          console.log('Building assessment text for goal', currentGoalIndex + 1, ':', currentAssessmentText.substring(0, 100) + '...')
-        }
-      }
-
-      // Don't forget the last assessment
-      if (currentGoalIndex >= 0 && currentAssessmentText.trim() && currentGoalIndex < approvedGoals.length) {
-        console.log('Saving final assessment for goal', currentGoalIndex + 1, ':', currentAssessmentText.trim())
-        assessmentsList.push({
-          id: Date.now() + currentGoalIndex + Math.random() * 1000,
-          goalId: approvedGoals[currentGoalIndex].id,
-          description: currentAssessmentText.trim(),
-          isRefined: true
-        })
+      if (strategies.length === 0) {
+        console.warn(`No assessment strategies returned for goal ${goalIndex + 1}, using fallback`)
+        return { ...createSubjectSpecificFallback(context.courseSubject, goalIndex), goalId: goal.id }
       }
-    }
-
-    console.log('Primary parsing result - found', assessmentsList.length, 'assessments from', approvedGoals.length, 'goals')
-
-    // Validation: Ensure we have assessments for all goals
-    const missingGoalIds = approvedGoals
-      .filter(goal => !assessmentsList.some(assessment => assessment.goalId === goal.id))
-      .map(goal => goal.id)
-    
-    if (missingGoalIds.length > 0) {
-      console.warn('Missing assessments for goal IDs:', missingGoalIds)
-    }
 
-    // If we don't have assessments for all goals or parsing failed entirely, try alternative methods
-    if (assessmentsList.length === 0 || assessmentsList.length < approvedGoals.length) {
-      console.log('⚠️ PRIMARY PARSING INCOMPLETE - Trying alternatives...')
-      console.log('- Current assessments found:', assessmentsList.length)
-      console.log('- Expected assessments:', approvedGoals.length)
-      console.log('- AI response analysis:')
-      console.log('  * Length:', aiResponse.length, 'chars')
-      console.log('  * Lines:', aiResponse.split('\n').length)
-      console.log('  * Has assessment keywords:', /assessment|strategy|evaluate|measure/i.test(aiResponse))
-      
-      // Clear existing assessments if primary parsing was incomplete
-      if (assessmentsList.length > 0 && assessmentsList.length < approvedGoals.length) {
-        console.log('Primary parsing was incomplete, clearing and starting over')
-        assessmentsList.length = 0
-      }
-      
-      // Method 1: Try parsing by goal numbers (1., 2., 3., etc.)
-      const goalSections = aiResponse.split(/(?=\b(?:GOAL\s+\d+|ASSESSMENT\s+FOR\s+GOAL\s+\d+|\d+\.)\b)/i)
-        .filter(section => section.trim().length > 20)
-      
-      if (goalSections.length >= approvedGoals.length) {
-        console.log('Found', goalSections.length, 'goal sections, processing...')
-        goalSections.forEach((section, sectionIndex) => {
-          if (sectionIndex < approvedGoals.length) {
-            // Extract goal number from section header if possible
-            const goalNumMatch = section.match(/(?:GOAL\s+(\d+)|ASSESSMENT\s+FOR\s+GOAL\s+(\d+)|^(\d+)\.)/i)
-            let targetGoalIndex = sectionIndex // Default to section order
-            
-            if (goalNumMatch) {
-              const goalNum = goalNumMatch[1] || goalNumMatch[2] || goalNumMatch[3]
-              const parsedIndex = parseInt(goalNum) - 1
-              if (parsedIndex >= 0 && parsedIndex < approvedGoals.length) {
-                targetGoalIndex = parsedIndex
-              }
-            }
-            
-            // Clean the section text
-            const cleanText = section
-              .replace(/^(?:GOAL\s+\d+|ASSESSMENT\s+FOR\s+GOAL\s+\d+|\d+\.)\s*:?\s*/i, '')
-              .trim()
-            
-            if (cleanText.length > 15 && !assessmentsList.some(a => a.goalId === approvedGoals[targetGoalIndex].id)) {
-              assessmentsList.push({
-                id: Date.now() + targetGoalIndex + Math.random() * 1000,
-                goalId: approvedGoals[targetGoalIndex].id,
-                description: cleanText,
-                isRefined: true
-              })
-              console.log('Alternative method: Added assessment for goal', targetGoalIndex + 1)
-            }
-          }
-        })
-      }
-      
-      // Method 2: If still missing assessments, try paragraph-based splitting
-      if (assessmentsList.length < approvedGoals.length) {
-        const paragraphs = aiResponse.split(/\n\s*\n/).filter(p => p.trim().length > 20)
-        console.log('Trying paragraph-based parsing with', paragraphs.length, 'paragraphs')
-        
-        paragraphs.forEach((paragraph) => {
-          if (assessmentsList.length < approvedGoals.length) {
-            const goalIndex = assessmentsList.length // Use current count as index
-            assessmentsList.push({
-              id: Date.now() + goalIndex + Math.random() * 1000,
-              goalId: approvedGoals[goalIndex].id,
-              description: paragraph.trim(),
-              isRefined: true
-            })
-            console.log('Paragraph method: Added assessment for goal', goalIndex + 1)
-          }
-        })
-      }
-    }
-
-    // Ensure all goals have assessments - create fallbacks for missing ones
-    const finalAssessmentsList: Assessment[] = []
-    approvedGoals.forEach((goal, goalIndex) => {
-      let existingAssessment = assessmentsList.find(assessment => assessment.goalId === goal.id)
-      
-      if (!existingAssessment) {
-        console.log('🔄 CREATING FALLBACK for goal', goalIndex + 1, 'with ID:', goal.id)
-        console.log('  - Goal description:', goal.description.substring(0, 80) + '...')
-        console.log('  - Course subject:', context.courseSubject)
-        console.log('  - RAW AI RESPONSE THAT FAILED TO PARSE:')
-        console.log('---START AI RESPONSE---')
-        console.log(aiResponse)
-        console.log('---END AI RESPONSE---')
-        
-        // Create a fallback that includes both our fallback text AND the raw AI response for debugging
-        const fallback = createSubjectSpecificFallback(context.courseSubject, goalIndex)
-        fallback.description = `[PARSING FAILED - SHOWING RAW AI RESPONSE]\n\n${aiResponse}\n\n[END RAW RESPONSE]\n\n${fallback.description}`
-        fallback.goalId = goal.id
-        existingAssessment = fallback
-      } else {
-        console.log('Found existing assessment for goal', goalIndex + 1, 'with ID:', goal.id)
+      return {
+        id: Date.now() + goalIndex,
+        goalId: goal.id,
+        description: serializeAssessmentStrategies(strategies),
+        isRefined: true,
+        ...(completion.promptVersion ? { promptVersion: completion.promptVersion } : {})
       }
-      
-      finalAssessmentsList.push(existingAssessment)
     })
-    
-    // Replace the assessments list with the properly ordered and complete list
-    assessmentsList.length = 0
-    assessmentsList.push(...finalAssessmentsList)
 
-    console.log('Parsed assessments:', assessmentsList)
-    
     callbacks.setLoadingMessage('Finalizing assessment strategies...')
     callbacks.setProgress(100)
-    
-    // Final validation and logging
-    console.log('=== FINAL ASSESSMENT GENERATION SUMMARY ===')
-    console.log('Expected goals count:', approvedGoals.length)
-    console.log('Generated assessments count:', assessmentsList.length)
-    console.log('Goals:', approvedGoals.map((g, i) => ({ index: i + 1, id: g.id, description: g.description.substring(0, 50) + '...' })))
-    console.log('Assessments:', assessmentsList.map((a, i) => ({ index: i + 1, id: a.id, goalId: a.goalId, description: a.description.substring(0, 50) + '...' })))
-    
-    // Verify mapping
-    const mappingErrors: string[] = []
-    approvedGoals.forEach((goal, goalIndex) => {
-      const matchingAssessment = assessmentsList.find(a => a.goalId === goal.id)
-      if (!matchingAssessment) {
-        mappingErrors.push(`Goal ${goalIndex + 1} (ID: ${goal.id}) has no matching assessment`)
-      }
-    })
-    
-    if (mappingErrors.length > 0) {
-      console.error('ASSESSMENT MAPPING ERRORS:', mappingErrors)
-    } else {
-      console.log('✓ All goals have matching assessments')
-    }
-    console.log('=== END SUMMARY ===')
-    
+
     callbacks.setRefinedAssessments(assessmentsList)
+    if (completion.truncated && approvedGoals.some((_, goalIndex) => !payload.assessments.some(a => a.goal === goalIndex + 1))) {
+      callbacks.setError(TRUNCATED_RESPONSE_MESSAGE)
+    }
+    if (completion.cached) callbacks.onCachedResult?.()
     callbacks.setCurrentStep('assessments')
   } catch (error) {
+    if (isCancellationError(error)) {
+      callbacks.onCancelled?.()
+      return
+    }
+
     console.error('Error generating assessments:', error)
+    if (isRejectedInput(error)) {
+      callbacks.setError(error.userMessage)
+      return
+    }
+
     callbacks.setLoadingMessage('Error occurred - creating fallback assessments...')
     callbacks.setProgress(90)
     
@@ -755,6 +536,7 @@ If the model cannot produce JSON, we will fall back to parsing free-form text, b
     callbacks.setIsRefining(false)
     callbacks.setLoadingMessage('')
     callbacks.setProgress(0)
+    callbacks.setPartialItems?.([])
   }
 }
 
@@ -835,7 +617,9 @@ export const generateLearningObjectives = async (
   context: CourseContext,
   callbacks: AIServiceCallbacks & {
     setRefinedObjectives: (objectives: LearningObjective[]) => void
-  }
+  },
+  signal?: AbortSignal,
+  { bypassCache, objectiveTemplate }: ObjectiveRequestOptions = {}
 ): Promise<void> => {
   if (approvedGoals.length === 0 || approvedAssessments.length === 0) return
 
@@ -844,192 +628,76 @@ export const generateLearningObjectives = async (
   callbacks.setProgress(20)
   
   try {
-    const goalsText = approvedGoals.map((goal, index) => `${index + 1}. ${goal.description}`).join('\n')
-    const assessmentsText = approvedAssessments.map((assessment) => {
-      const goalIndex = approvedGoals.findIndex(goal => goal.id === assessment.goalId)
-      return `Goal ${goalIndex + 1} Assessment: ${assessment.description}`
-    }).join('\n\n')
-
     callbacks.setLoadingMessage('Creating learning objectives with Bloom\'s Taxonomy...')
     callbacks.setProgress(50)
 
-    const prompt = `You are creating learning objectives for a ${context.courseType} on "${context.courseSubject}".
-
-INSTRUCTIONAL CONTEXT:
-- Subject: ${context.courseSubject}
-- Target Audience: ${context.targetAudience}
-- Duration: ${context.instructionDuration}
-
-GOALS AND ASSESSMENTS:
-${goalsText}
-
-${assessmentsText}
-
-TASK: For each goal, create 2-3 learning objectives that are COMPLETELY DIFFERENT from each other.
-
-ABSOLUTE REQUIREMENTS - EACH OBJECTIVE MUST:
-
-1. Focus on ONE specific sub-skill, concept, or competency within the goal
-2. Use a DIFFERENT action verb from Bloom's Taxonomy
-3. Include DIFFERENT specific details, tools, methods, or contexts
-4. NOT repeat the same sentence structure or phrasing as other objectives
-5. Build in cognitive complexity from foundational to advanced
-
-STEP-BY-STEP PROCESS FOR EACH GOAL:
-
-Step 1: Break the goal into 2-3 DISTINCT components or sub-skills
-Step 2: For each component, write ONE objective using the appropriate Bloom's level
-Step 3: Ensure each objective addresses a DIFFERENT aspect and uses DIFFERENT wording
-
-BLOOM'S TAXONOMY LEVELS (choose the appropriate verb for each objective's complexity):
-- Apply: demonstrate, execute, implement, solve, use, operate, perform
-- Analyze: compare, contrast, differentiate, examine, categorize, break down
-- Evaluate: critique, judge, justify, assess, defend, appraise
-- Create: design, develop, construct, formulate, generate, produce
-
-FORBIDDEN PATTERNS (DO NOT DO THIS):
-❌ "Demonstrate key concepts related to [topic]"
-❌ "Analyze key concepts related to [topic]"  
-❌ "Evaluate key concepts related to [topic]"
-❌ Using the exact same sentence with only the verb changed
-
-REQUIRED PATTERN (DO THIS INSTEAD):
-✅ Each objective must have UNIQUE content after the verb
-✅ Each objective must specify WHAT specific skill/knowledge is being addressed
-✅ Each objective must be independently assessable
-
-EXAMPLE FOR "Students will prepare a digital model for 3D printing":
-
-Component 1 - Software operation:
-• Apply: Operate slicing software to configure basic print parameters including layer height, infill density, and support placement for a given 3D model.
-
-Component 2 - Decision-making:
-• Analyze: Compare how different parameter choices (print speed, support density, infill patterns) affect print time, material usage, and structural integrity.
-
-Component 3 - Quality assessment:
-• Evaluate: Assess a sliced file's readiness for printing by examining whether settings match the model's geometry, material requirements, and functional purpose.
-
-Notice: Each objective focuses on a DIFFERENT skill (operating software vs. comparing options vs. assessing quality) with DIFFERENT specific content.
-
-Now create objectives for each goal following this pattern. Each objective MUST have different content and focus on a distinct aspect of the goal.
-
-CRITICAL FORMAT REQUIREMENTS:
-- Start each goal section with EXACTLY: "OBJECTIVES FOR GOAL [number]:" (no markdown headers, no extra text after the colon)
-- Use bullet points with the bullet character • (not -, *, or ##)
-- Format each objective as: "• [Bloom Level]: [Objective text]"
-- Do NOT add goal titles or descriptions after the colon
-- Do NOT use markdown headers (##, ###, etc.)
-
-CORRECT FORMAT EXAMPLE:
-
-OBJECTIVES FOR GOAL 1:
-• Apply: Operate slicing software to configure basic print parameters including layer height, infill density, and support placement for a given 3D model
-• Analyze: Compare how different parameter choices affect print time, material usage, and structural integrity
-• Evaluate: Assess a sliced file's readiness for printing by examining whether settings match the model's geometry and material requirements
-
-OBJECTIVES FOR GOAL 2:
-• Apply: Use technical vocabulary related to 3D printer components correctly when documenting setup procedures
-• Analyze: Categorize 3D printing terminology into functional groups to explain relationships between aspects of the workflow
-
-Continue for all goals. Remember: NO REPEATED CONTENT - each objective must address a unique aspect.`
+    const request: PromptRequest = {
+      type: 'generate-objectives',
+      payload: {
+        context,
+        goals: approvedGoals.map(goal => goal.description),
+        assessments: approvedAssessments.flatMap(assessment => {
+          const goalNumber = approvedGoals.findIndex(goal => goal.id === assessment.goalId) + 1
+          return goalNumber > 0 ? [{ goal: goalNumber, description: assessment.description }] : []
+        }),
+        ...(objectiveTemplate ? { objectiveTemplate } : {})
+      }
+    }
 
-    const aiResponse = await callAIFunction(prompt, 'generate-objectives')
+    // The prompt asks for 2-3 objectives per goal, so progress is measured against the midpoint
+    const completion = await callAIFunction(request, {
+      onText: createItemStreamListener(callbacks, {
+        readItems: readStreamedObjectives,
+        describeItem: (item) => `${item.bloomLevel}: ${item.description}`,
+        describeProgress: (count) => `Received ${count} learning objective${count === 1 ? '' : 's'}...`,
+        expectedCount: Math.ceil(approvedGoals.length * 2.5),
+        progressRange: [50, 80]
+      }),
+      signal,
+      bypassCache,
+      onUsage: callbacks.onUsage
+    })
 
     callbacks.setLoadingMessage('Processing learning objectives...')
     callbacks.setProgress(80)
 
-    console.log('\n\n════════════════════════════════════════════════════════════')
-    console.log('🎯 OBJECTIVES AI RESPONSE DEBUG')
-    console.log('════════════════════════════════════════════════════════════')
-    console.log('Response length:', aiResponse.length, 'characters')
-    console.log('Number of lines:', aiResponse.split('\n').length)
-    console.log('Contains "OBJECTIVES FOR GOAL":', aiResponse.includes('OBJECTIVES FOR GOAL'))
-    console.log('Number of bullet points (•):', (aiResponse.match(/•/g) || []).length)
-    console.log('Number of hyphens (-):', (aiResponse.match(/^-/gm) || []).length)
-    console.log('\n📄 FULL RAW OBJECTIVES AI RESPONSE:')
-    console.log('---START OBJECTIVES RESPONSE---')
-    console.log(aiResponse)
-    console.log('---END OBJECTIVES RESPONSE---')
-    console.log('════════════════════════════════════════════════════════════\n\n')
-
-    // Parse AI response and create learning objectives
-    const objectivesList: LearningObjective[] = []
-    const lines = aiResponse.split('\n').filter((line: string) => line.trim())
-    
-    let currentGoalIndex = -1
-    let objectiveId = Date.now()
-
-    console.log('🔍 Starting to parse objectives from', lines.length, 'lines')
+    const payload = parseAIResponse(completion, objectivesSchema, 'objectives', approvedGoals.length, parseLegacyObjectives, 'Objective generation')
 
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i].trim()
-      
-      // Look for objective headers (more flexible matching to handle markdown headers and extra text)
-      // Matches: "OBJECTIVES FOR GOAL 1:", "## OBJECTIVES FOR GOAL 1:", "OBJECTIVES FOR GOAL 1: Troubleshooting"
-      const objectiveMatch = line.match(/^#{0,3}\s*OBJECTIVES\s+FOR\s+GOAL\s+(\d+):/i)
-      
-      if (objectiveMatch) {
-        currentGoalIndex = parseInt(objectiveMatch[1]) - 1
-        console.log('✅ Found objectives header for goal index:', currentGoalIndex, '(Goal ID:', approvedGoals[currentGoalIndex]?.id, ')')
-      } else if (currentGoalIndex >= 0 && currentGoalIndex < approvedGoals.length) {
-        // Look for lines that start with bullet points or contain Bloom level indicators
-        if (line.startsWith('•') || line.startsWith('-') || line.startsWith('*')) {
-          // Parse individual objective with Bloom level
-          const objectiveText = line.replace(/^[•\-*]\s*/, '').trim()
-          console.log('  📌 Parsing bullet point:', objectiveText.substring(0, 80) + '...')
-          const bloomMatch = objectiveText.match(/^([^:]+):\s*(.*)$/)
-          
-          if (bloomMatch) {
-            const bloomLevel = bloomMatch[1].trim()
-            const description = bloomMatch[2].trim()
-            const relatedAssessment = approvedAssessments.find(a => a.goalId === approvedGoals[currentGoalIndex].id)
-            
-            objectivesList.push({
-              id: objectiveId++,
-              goalId: approvedGoals[currentGoalIndex].id,
-              bloomLevel: bloomLevel,
-              description: description,
-              assessmentAlignment: relatedAssessment ? relatedAssessment.description : 'Assessment alignment needed'
-            })
-            console.log('  ✅ Added objective for goal', currentGoalIndex + 1, '- Bloom:', bloomLevel)
-            console.log('     Description:', description.substring(0, 100) + (description.length > 100 ? '...' : ''))
-          } else {
-            // If no colon found, try to extract Bloom level from common patterns
-            const bloomWords = ['remember', 'understand', 'apply', 'analyze', 'evaluate', 'create', 'recall', 'identify', 'explain', 'demonstrate', 'compare', 'critique', 'design']
-            const firstWord = objectiveText.split(' ')[0].toLowerCase()
-            if (bloomWords.includes(firstWord)) {
-              const relatedAssessment = approvedAssessments.find(a => a.goalId === approvedGoals[currentGoalIndex].id)
-              objectivesList.push({
-                id: objectiveId++,
-                goalId: approvedGoals[currentGoalIndex].id,
-                bloomLevel: firstWord.charAt(0).toUpperCase() + firstWord.slice(1),
-                description: objectiveText,
-                assessmentAlignment: relatedAssessment ? relatedAssessment.description : 'Assessment alignment needed'
-              })
-              console.log('Added objective with detected Bloom level:', firstWord, objectiveText)
-            }
-          }
+    // Goal numbers map straight to goal IDs; keep objectives grouped in goal order
+    let objectiveId = Date.now()
+    const objectivesList: LearningObjective[] = [...payload.objectives]
+      .sort((a, b) => a.goal - b.goal)
+      .map((item) => {
+        const goal = approvedGoals[item.goal - 1]
+        const relatedAssessment = approvedAssessments.find(a => a.goalId === goal.id)
+        const components = item.components && createObjectiveComponents(item.components)
+        return {
+          id: objectiveId++,
+          goalId: goal.id,
+          bloomLevel: item.bloomLevel,
+          description: item.description,
+          assessmentAlignment: relatedAssessment ? relatedAssessment.description : 'Assessment alignment needed',
+          ...(components ? { components } : {}),
+          ...(completion.promptVersion ? { promptVersion: completion.promptVersion } : {})
         }
-      }
-    }
+      })
 
-    console.log('\n📊 OBJECTIVES PARSING SUMMARY:')
-    console.log('  Total objectives parsed:', objectivesList.length)
-    console.log('  Expected objectives (goals × 2-3):', approvedGoals.length * 2, '-', approvedGoals.length * 3)
-    console.log('  Objectives by goal:')
-    approvedGoals.forEach((goal, idx) => {
-      const count = objectivesList.filter(obj => obj.goalId === goal.id).length
-      console.log(`    Goal ${idx + 1}: ${count} objectives`)
-    })
-    console.log('\n📋 Final parsed learning objectives:', JSON.stringify(objectivesList, null, 2))
-    console.log('════════════════════════════════════════════════════════════\n')
+    // Goals a cut-off response never reached get the same fallbacks as a failed request
+    const unreachedGoals = completion.truncated && objectivesList.length > 0
+      ? approvedGoals.filter(goal => !objectivesList.some(objective => objective.goalId === goal.id))
+      : []
+    for (const goal of unreachedGoals) {
+      const relatedAssessment = approvedAssessments.find(a => a.goalId === goal.id)
+      objectivesList.push(...createEnhancedFallbackObjectives(goal, approvedGoals.indexOf(goal), relatedAssessment)
+        .map(objective => ({ ...objective, id: objectiveId++ })))
+    }
 
-    // If no objectives were parsed, try alternative parsing or create better fallbacks
+    // If no objectives were parsed, create fallbacks from the goal text
     if (objectivesList.length === 0) {
-      console.log('⚠️ No objectives parsed, creating enhanced fallback objectives')
+      console.warn('No objectives parsed, creating fallback objectives')
       const fallbackObjectives = approvedGoals.flatMap((goal, goalIndex) => {
         const relatedAssessment = approvedAssessments.find(a => a.goalId === goal.id)
-        const bloomLevels = ['Apply', 'Analyze', 'Evaluate']
+        const bloomLevels: BloomLevel[] = ['Apply', 'Analyze', 'Evaluate']
         const verbs = ['Demonstrate', 'Analyze', 'Evaluate']
         
         return bloomLevels.map((level, levelIndex) => ({
@@ -1047,9 +715,21 @@ Continue for all goals. Remember: NO REPEATED CONTENT - each objective must addr
     callbacks.setProgress(100)
 
     callbacks.setRefinedObjectives(objectivesList)
+    if (unreachedGoals.length > 0) callbacks.setError(TRUNCATED_RESPONSE_MESSAGE)
+    if (completion.cached) callbacks.onCachedResult?.()
     callbacks.setCurrentStep('review-objectives')
   } catch (error) {
+    if (isCancellationError(error)) {
+      callbacks.onCancelled?.()
+      return
+    }
+
     console.error('Error generating learning objectives:', error)
+    if (isRejectedInput(error)) {
+      callbacks.setError(error.userMessage)
+      return
+    }
+
     callbacks.setLoadingMessage('Error occurred - creating fallback objectives...')
     callbacks.setProgress(90)
     
@@ -1064,5 +744,188 @@ Continue for all goals. Remember: NO REPEATED CONTENT - each objective must addr
     callbacks.setIsRefining(false)
     callbacks.setLoadingMessage('')
     callbacks.setProgress(0)
+    callbacks.setPartialItems?.([])
   }
+}
+
+/**
+ * An item the user wants replaced, with the goal it belongs to
+ */
+export type RegenerationTarget =
+  | { kind: 'goal'; goal: Goal; originalGoal?: Goal }
+  | { kind: 'assessment'; goal: Goal; assessment?: Assessment }
+  | { kind: 'objective'; goal: Goal; objective: LearningObjective; objectiveTemplate?: string }
+
+/**
+ * The rest of the framework, sent as context so a replacement fits alongside it
+ */
+export interface FrameworkContext {
+  goals: Goal[]
+  assessments: Assessment[]
+  objectives: LearningObjective[]
+}
+
+/**
+ * A replacement candidate; assessments carry their strategies, objectives their Bloom level
+ */
+export interface ItemAlternative {
+  description: string
+  bloomLevel?: BloomLevel
+  strategies?: StrategyPayload[]
+  components?: ObjectiveComponents
+  // Carried onto the item the alternative replaces
+  promptVersion?: string
+}
+
+/**
+ * Converts a validated goal or assessment payload into an ItemAlternative
+ */
+function toItemAlternative(item: GoalAlternative | AssessmentAlternative, context: CourseContext): ItemAlternative {
+  if ('strategies' in item) {
+    return { description: serializeAssessmentStrategies(item.strategies), strategies: item.strategies }
+  }
+  return { description: removeSubjectPrefix(item.description, context.courseSubject) }
+}
+
+/**
+ * Records which prompt template produced an alternative
+ */
+const withPromptVersion = (alternative: ItemAlternative, completion: AICompletion): ItemAlternative =>
+  completion.promptVersion ? { ...alternative, promptVersion: completion.promptVersion } : alternative
+
+/**
+ * Converts a validated objective payload into an ItemAlternative, adding the behavior's verb
+ */
+function toObjectiveAlternative({ components, ...item }: ObjectiveAlternative): ItemAlternative {
+  const objectiveComponents = components && createObjectiveComponents(components)
+  return objectiveComponents ? { ...item, components: objectiveComponents } : item
+}
+
+function createUnusableResponseError(type: string, completion: AICompletion): AppError {
+  return createAppError(
+    'AI response did not match the expected schema',
+    { type, response: completion.text, promptVersion: completion.promptVersion },
+    {
+      category: ErrorCategory.DATA,
+      severity: ErrorSeverity.MEDIUM,
+      userMessage: 'We couldn\'t generate a usable replacement this time. Please try again.',
+      retryable: true
+    }
+  )
+}
+
+// Refers to goals by their position, which is how the prompt templates number them
+function toFrameworkSnapshot(framework: FrameworkContext): FrameworkSnapshot {
+  const goalNumber = (goalId: number) => framework.goals.findIndex(goal => goal.id === goalId) + 1
+  return {
+    goals: framework.goals.map(goal => goal.description),
+    assessments: framework.assessments
+      .map(assessment => ({ goal: goalNumber(assessment.goalId), description: assessment.description }))
+      .filter(assessment => assessment.goal > 0),
+    objectives: framework.objectives
+      .map(objective => ({ goal: goalNumber(objective.goalId), bloomLevel: objective.bloomLevel, description: objective.description }))
+      .filter(objective => objective.goal > 0)
+  }
+}
+
+/**
+ * Generates replacements for a single goal, assessment block or objective, keeping the rest of the framework as context.
+ * Throws an AppError when the AI call fails or returns nothing usable.
+ */
+export const generateItemAlternatives = async (
+  target: RegenerationTarget,
+  framework: FrameworkContext,
+  context: CourseContext,
+  count: number,
+  onUsage?: UsageListener
+): Promise<ItemAlternative[]> => {
+  const base = {
+    context,
+    framework: toFrameworkSnapshot(framework),
+    goal: framework.goals.findIndex(goal => goal.id === target.goal.id) + 1,
+    count
+  }
+  const request: PromptRequest = target.kind === 'goal'
+    ? { type: 'regenerate-goal', payload: { ...base, ...(target.originalGoal ? { originalWording: target.originalGoal.description } : {}) } }
+    : target.kind === 'assessment'
+      ? { type: 'regenerate-assessment', payload: base }
+      : {
+          type: 'regenerate-objective',
+          payload: {
+            ...base,
+            objective: { bloomLevel: target.objective.bloomLevel, description: target.objective.description },
+            ...(target.objectiveTemplate ? { objectiveTemplate: target.objectiveTemplate } : {})
+          }
+        }
+
+  const { type } = request
+  const completion = await retryOperation(() => callAIFunction(request, { onUsage }))
+  const aiResponse = completion.text
+  const goalCount = framework.goals.length
+
+  let alternatives: ItemAlternative[] = []
+  if (target.kind === 'goal') {
+    const parsed = parseStructuredResponse(aiResponse, goalAlternativesSchema, goalCount)
+    if (parsed.success) alternatives = parsed.data.alternatives.map(alt => toItemAlternative(alt, context))
+  } else if (target.kind === 'assessment') {
+    const parsed = parseStructuredResponse(aiResponse, assessmentAlternativesSchema, goalCount)
+    if (parsed.success) alternatives = parsed.data.alternatives.map(alt => toItemAlternative(alt, context))
+  } else {
+    const parsed = parseStructuredResponse(aiResponse, objectiveAlternativesSchema, goalCount)
+    if (parsed.success) alternatives = parsed.data.alternatives.map(toObjectiveAlternative)
+  }
+
+  if (alternatives.length === 0) {
+    throw createUnusableResponseError(type, completion)
+  }
+
+  return alternatives.slice(0, count).map(alternative => withPromptVersion(alternative, completion))
+}
+
+/**
+ * Revises a single item according to the user's feedback, e.g. "make this less technical".
+ * Throws an AppError when the AI call fails or returns nothing usable.
+ */
+export const reviseItemWithFeedback = async (
+  target: RegenerationTarget,
+  instruction: string,
+  context: CourseContext,
+  onUsage?: UsageListener
+): Promise<ItemAlternative> => {
+  // A goal is sent as `goal` itself, so only assessments and objectives need `current`
+  const current = target.kind === 'assessment'
+    ? target.assessment?.description ?? ''
+    : target.kind === 'objective' ? target.objective.description : ''
+  const request: PromptRequest = {
+    type: 'revise-item',
+    payload: {
+      context,
+      kind: target.kind,
+      goal: target.goal.description,
+      current,
+      ...(target.kind === 'objective' ? { bloomLevel: target.objective.bloomLevel } : {}),
+      feedback: instruction.trim()
+    }
+  }
+
+  const completion = await retryOperation(() => callAIFunction(request, { onUsage }))
+  const aiResponse = completion.text
+
+  let revised: ItemAlternative | null = null
+  if (target.kind === 'goal') {
+    const parsed = parseStructuredResponse(aiResponse, goalRevisionSchema, 1)
+    if (parsed.success) revised = toItemAlternative(parsed.data.revised, context)
+  } else if (target.kind === 'assessment') {
+    const parsed = parseStructuredResponse(aiResponse, assessmentRevisionSchema, 1)
+    if (parsed.success) revised = toItemAlternative(parsed.data.revised, context)
+  } else {
+    const parsed = parseStructuredResponse(aiResponse, objectiveRevisionSchema, 1)
+    if (parsed.success) revised = toObjectiveAlternative(parsed.data.revised)
+  }
+
+  if (!revised) {
+    throw createUnusableResponseError('revise-item', completion)
+  }
+
+  return withPromptVersion(revised, completion)
 }
\ No newline at end of file
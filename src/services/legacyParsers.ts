@@ -0,0 +1,133 @@
+// Free-text parsers for AI responses that don't match the structured JSON schemas.
+// They produce the same payload shapes as aiSchemas so callers map both paths identically.
+import type { AssessmentsResponse, ObjectivesResponse, RefinedGoalsResponse } from './aiSchemas'
+import { inferBloomLevel, normalizeBloomLevel } from './prompts'
+
+/**
+ * Parses "REFINED GOAL 1: ..." lines
+ */
+export function parseLegacyRefinedGoals(text: string): RefinedGoalsResponse {
+  const goals: RefinedGoalsResponse['goals'] = []
+
+  text.split('\n').forEach((rawLine) => {
+    const match = rawLine.trim().match(/^REFINED GOAL (\d+):\s*(.+)$/i)
+    if (match && match[2].trim()) {
+      goals.push({ goal: parseInt(match[1]), description: match[2].trim() })
+    }
+  })
+
+  return { goals }
+}
+
+/**
+ * Parses "ASSESSMENT FOR GOAL 1:" sections, falling back to numbered sections and then paragraphs.
+ * Each section becomes a single untitled strategy.
+ */
+export function parseLegacyAssessments(text: string, goalCount: number): AssessmentsResponse {
+  const sections = new Map<number, string>()
+  const lines = text.split('\n').filter(line => line.trim())
+
+  // Primary: explicit assessment headers, including markdown headers
+  let currentGoal = -1
+  let currentText = ''
+  const saveCurrent = () => {
+    if (currentGoal > 0 && currentText.trim()) {
+      sections.set(currentGoal, currentText.trim())
+    }
+  }
+
+  for (const rawLine of lines) {
+    const line = rawLine.trim()
+    const headerMatch = line.match(/^(?:#{1,3}\s*)?(?:ASSESSMENT\s+FOR\s+GOAL\s+(\d+):|GOAL\s+(\d+)\s+ASSESSMENT:|ASSESSMENTS?\s+FOR\s+GOAL\s+(\d+))\s*(.*)$/i)
+
+    if (headerMatch) {
+      const goal = parseInt(headerMatch[1] || headerMatch[2] || headerMatch[3])
+      if (goal >= 1 && goal <= goalCount) {
+        saveCurrent()
+        currentGoal = goal
+        currentText = (headerMatch[4] || '').trim()
+      }
+    } else if (currentGoal > 0) {
+      currentText += (currentText ? ' ' : '') + line
+    }
+  }
+  saveCurrent()
+
+  // Alternative: sections that start with "GOAL n" or "n."
+  if (sections.size < goalCount) {
+    sections.clear()
+
+    const goalSections = text.split(/(?=\b(?:GOAL\s+\d+|ASSESSMENT\s+FOR\s+GOAL\s+\d+|\d+\.)\b)/i)
+      .filter(section => section.trim().length > 20)
+
+    if (goalSections.length >= goalCount) {
+      goalSections.slice(0, goalCount).forEach((section, sectionIndex) => {
+        const goalNumMatch = section.match(/(?:GOAL\s+(\d+)|ASSESSMENT\s+FOR\s+GOAL\s+(\d+)|^(\d+)\.)/i)
+        const parsedGoal = goalNumMatch ? parseInt(goalNumMatch[1] || goalNumMatch[2] || goalNumMatch[3]) : NaN
+        const goal = parsedGoal >= 1 && parsedGoal <= goalCount ? parsedGoal : sectionIndex + 1
+
+        const cleanText = section
+          .replace(/^(?:GOAL\s+\d+|ASSESSMENT\s+FOR\s+GOAL\s+\d+|\d+\.)\s*:?\s*/i, '')
+          .trim()
+
+        if (cleanText.length > 15 && !sections.has(goal)) {
+          sections.set(goal, cleanText)
+        }
+      })
+    }
+  }
+
+  // Last resort: assign paragraphs to goals in order
+  if (sections.size < goalCount) {
+    const paragraphs = text.split(/\n\s*\n/).filter(p => p.trim().length > 20)
+    for (let goal = 1; goal <= goalCount && paragraphs.length > 0; goal++) {
+      if (!sections.has(goal)) {
+        sections.set(goal, paragraphs.shift()!.trim())
+      }
+    }
+  }
+
+  return {
+    assessments: [...sections.entries()].map(([goal, description]) => ({
+      goal,
+      strategies: [{ title: null, description }]
+    }))
+  }
+}
+
+/**
+ * Parses "OBJECTIVES FOR GOAL 1:" sections with "• Level: objective" bullets
+ */
+export function parseLegacyObjectives(text: string, goalCount: number): ObjectivesResponse {
+  const objectives: ObjectivesResponse['objectives'] = []
+  let currentGoal = -1
+
+  for (const rawLine of text.split('\n')) {
+    const line = rawLine.trim()
+    if (!line) continue
+
+    const headerMatch = line.match(/^#{0,3}\s*OBJECTIVES\s+FOR\s+GOAL\s+(\d+):/i)
+    if (headerMatch) {
+      currentGoal = parseInt(headerMatch[1])
+      continue
+    }
+
+    if (currentGoal < 1 || currentGoal > goalCount || !/^[•\-*]/.test(line)) continue
+
+    const objectiveText = line.replace(/^[•\-*]\s*/, '').trim()
+    const bloomMatch = objectiveText.match(/^([^:]+):\s*(.*)$/)
+    const statedLevel = bloomMatch ? normalizeBloomLevel(bloomMatch[1]) : null
+
+    if (bloomMatch && statedLevel) {
+      objectives.push({ goal: currentGoal, bloomLevel: statedLevel, description: bloomMatch[2].trim() })
+    } else {
+      // Without a "Level:" prefix, the objective's leading verb decides its level
+      const inferredLevel = inferBloomLevel(objectiveText)
+      if (inferredLevel) {
+        objectives.push({ goal: currentGoal, bloomLevel: inferredLevel, description: objectiveText })
+      }
+    }
+  }
+
+  return { objectives }
+}
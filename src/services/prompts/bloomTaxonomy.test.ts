@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest'
+import { BLOOM_LEVELS } from '../../types'
+import { BLOOM_TAXONOMY, classifyBloomVerb, findBloomVerb, inferBloomLevel, normalizeBloomLevel, toBaseVerb } from './bloomTaxonomy'
+
+describe('BLOOM_TAXONOMY', () => {
+  it('lists each verb under a single level', () => {
+    const verbs = BLOOM_LEVELS.flatMap(level => BLOOM_TAXONOMY[level].verbs)
+    expect(new Set(verbs).size).toBe(verbs.length)
+  })
+})
+
+describe('normalizeBloomLevel', () => {
+  it('reads levels however they are written', () => {
+    expect(normalizeBloomLevel('analyse')).toBe('Analyze')
+    expect(normalizeBloomLevel('Level 4: Analysis')).toBe('Analyze')
+    expect(normalizeBloomLevel(' EVALUATE ')).toBe('Evaluate')
+    expect(normalizeBloomLevel('Knowledge')).toBe('Remember')
+    expect(normalizeBloomLevel('Synthesis')).toBe('Create')
+  })
+
+  it('returns null for text that names no level', () => {
+    expect(normalizeBloomLevel('Mastery')).toBeNull()
+    expect(normalizeBloomLevel('')).toBeNull()
+  })
+})
+
+describe('toBaseVerb', () => {
+  it('strips verb endings and British spellings', () => {
+    expect(toBaseVerb('Analyses')).toBe('analyze')
+    expect(toBaseVerb('summarises')).toBe('summarize')
+    expect(toBaseVerb('Classifies')).toBe('classify')
+    expect(toBaseVerb('Juggles')).toBe('juggles')
+  })
+})
+
+describe('findBloomVerb and inferBloomLevel', () => {
+  it('reads the leading verb past "Students will be able to"', () => {
+    expect(findBloomVerb('Students will be able to break down a budget')).toBe('break down')
+    expect(inferBloomLevel('Learners will critique an essay')).toBe('Evaluate')
+    expect(classifyBloomVerb('Designs')).toBe('Create')
+  })
+
+  it('returns null when the objective does not start with a taxonomy verb', () => {
+    expect(findBloomVerb('Understand the water cycle')).toBeNull()
+    expect(inferBloomLevel('Appreciate modern art')).toBeNull()
+  })
+})
@@ -0,0 +1,119 @@
+// Revised Bloom's Taxonomy: the verbs that signal each level, and helpers for reading a level
+// from model output, imported files or an objective's leading verb. The levels themselves are
+// defined with the core types.
+import { BLOOM_LEVELS, type BloomLevel } from '../../types'
+
+export interface BloomLevelInfo {
+  description: string
+  // Most typical first. Each verb belongs to one level so a leading verb names a single level.
+  verbs: readonly string[]
+}
+
+export const BLOOM_TAXONOMY: Record<BloomLevel, BloomLevelInfo> = {
+  Remember: {
+    description: 'Recall facts, terms and basic concepts',
+    verbs: ['define', 'list', 'identify', 'recall', 'name', 'label', 'state', 'recognize', 'match', 'locate', 'memorize', 'repeat', 'reproduce']
+  },
+  Understand: {
+    description: 'Explain ideas or concepts in their own words',
+    verbs: ['explain', 'summarize', 'describe', 'classify', 'interpret', 'paraphrase', 'illustrate', 'discuss', 'restate', 'translate', 'report', 'exemplify']
+  },
+  Apply: {
+    description: 'Use information or a procedure in a new situation',
+    verbs: ['demonstrate', 'execute', 'implement', 'solve', 'use', 'operate', 'perform', 'apply', 'calculate', 'compute', 'configure', 'conduct', 'administer', 'employ', 'prepare', 'practice', 'show']
+  },
+  Analyze: {
+    description: 'Break material into parts and work out how they relate',
+    verbs: ['compare', 'contrast', 'differentiate', 'examine', 'categorize', 'break down', 'analyze', 'distinguish', 'organize', 'diagnose', 'investigate', 'deconstruct', 'troubleshoot', 'infer', 'attribute', 'correlate', 'outline']
+  },
+  Evaluate: {
+    description: 'Justify a decision or judgment against criteria',
+    verbs: ['critique', 'judge', 'justify', 'assess', 'defend', 'appraise', 'evaluate', 'argue', 'recommend', 'prioritize', 'rank', 'validate', 'verify', 'select', 'choose', 'support']
+  },
+  Create: {
+    description: 'Put elements together to produce something new or original',
+    verbs: ['design', 'develop', 'construct', 'formulate', 'generate', 'produce', 'create', 'compose', 'plan', 'propose', 'devise', 'build', 'invent', 'author', 'write', 'assemble', 'synthesize']
+  }
+}
+
+const VERB_LEVELS = new Map<string, BloomLevel>(
+  BLOOM_LEVELS.flatMap(level => BLOOM_TAXONOMY[level].verbs.map(verb => [verb, level] as const))
+)
+
+// Other ways levels get written: -ing forms, nouns, and the names from the original 1956
+// taxonomy (Knowledge, Comprehension, Synthesis)
+const LEVEL_ALIASES: Record<string, BloomLevel> = {
+  remembering: 'Remember',
+  knowledge: 'Remember',
+  recall: 'Remember',
+  understanding: 'Understand',
+  comprehension: 'Understand',
+  comprehend: 'Understand',
+  applying: 'Apply',
+  application: 'Apply',
+  analyse: 'Analyze',
+  analysing: 'Analyze',
+  analyzing: 'Analyze',
+  analysis: 'Analyze',
+  evaluating: 'Evaluate',
+  evaluation: 'Evaluate',
+  creating: 'Create',
+  creation: 'Create',
+  synthesis: 'Create',
+  synthesize: 'Create',
+  synthesise: 'Create'
+}
+
+// "Students will be able to", left in front of the verb by some models and most people
+const OBJECTIVE_LEAD_IN_PATTERN = /^((students|learners|participants)\s+will\s+)?(be\s+able\s+to\s+)?/i
+
+export const isBloomLevel = (value: unknown): value is BloomLevel =>
+  typeof value === 'string' && (BLOOM_LEVELS as readonly string[]).includes(value)
+
+/**
+ * Reads a level however it was written, e.g. "analyse", "Analysis", "Level 4: Analyze" or
+ * "Synthesis". Returns null when the text doesn't name a level.
+ */
+export function normalizeBloomLevel(value: string): BloomLevel | null {
+  const name = value.toLowerCase().replace(/[^a-z]+/g, ' ').trim().replace(/^level\s+/, '')
+  return BLOOM_LEVELS.find(level => level.toLowerCase() === name) ?? LEVEL_ALIASES[name] ?? null
+}
+
+/**
+ * The base form of a verb as written, e.g. "analyze" for "Analyses" or "summarize" for
+ * "summarises". Words that aren't taxonomy verbs are returned lower-cased.
+ */
+export function toBaseVerb(word: string): string {
+  const verb = word.toLowerCase().replace(/[^a-z-]/g, '')
+  const candidates = [verb, verb.replace(/ies$/, 'y'), verb.replace(/es$/, ''), verb.replace(/s$/, '')]
+    // British spellings such as "analyse" and "organise"
+    .flatMap(candidate => [candidate, candidate.replace(/ys(e)$/, 'yz$1').replace(/is(e)$/, 'iz$1')])
+  return candidates.find(candidate => VERB_LEVELS.has(candidate)) ?? verb
+}
+
+/**
+ * The level a verb belongs to, or null for verbs outside the taxonomy lists
+ */
+export const classifyBloomVerb = (verb: string): BloomLevel | null =>
+  VERB_LEVELS.get(verb.trim().toLowerCase()) ?? VERB_LEVELS.get(toBaseVerb(verb)) ?? null
+
+/**
+ * The taxonomy verb an objective starts with, in its base form, e.g. "break down" for
+ * "Students will be able to break down a budget". Returns null when it doesn't start with one.
+ */
+export function findBloomVerb(objective: string): string | null {
+  const words = objective.trim().replace(OBJECTIVE_LEAD_IN_PATTERN, '').split(/\s+/)
+  const phrase = words.slice(0, 2).map(toBaseVerb).join(' ')
+  if (VERB_LEVELS.has(phrase)) return phrase
+
+  const verb = toBaseVerb(words[0] ?? '')
+  return VERB_LEVELS.has(verb) ? verb : null
+}
+
+/**
+ * Infers an objective's level from its leading verb, e.g. Analyze for "Compare two budgets"
+ */
+export function inferBloomLevel(objective: string): BloomLevel | null {
+  const verb = findBloomVerb(objective)
+  return verb ? classifyBloomVerb(verb) : null
+}
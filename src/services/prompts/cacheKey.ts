@@ -0,0 +1,34 @@
+// Cache keys for AI responses, shared by the app's session cache and the Netlify Function
+import { getPromptVersion } from './templates'
+import type { PromptRequest, PromptType } from './types'
+
+// Operations whose result should depend only on their inputs. Alternatives and revisions
+// are asked for because the user wants something different, so they are never cached.
+const CACHEABLE_PROMPT_TYPES: readonly PromptType[] = ['refine-goals', 'generate-assessments', 'generate-objectives']
+
+export const isCacheablePromptType = (type: PromptType): boolean => CACHEABLE_PROMPT_TYPES.includes(type)
+
+// Trims and collapses whitespace and sorts object keys, so inputs that only differ in
+// spacing or field order share a key
+function normalize(value: unknown): unknown {
+  if (typeof value === 'string') return value.trim().replace(/\s+/g, ' ')
+  if (Array.isArray(value)) return value.map(normalize)
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, entry]) => entry !== undefined)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([key, entry]) => [key, normalize(entry)])
+    )
+  }
+  return value
+}
+
+/**
+ * Key for a request: template name and version plus the normalized payload, so a
+ * changed template never serves answers written for its older wording. Callers that don't
+ * build the prompt themselves pass the version reported by whoever did.
+ */
+export function createCacheKey(request: PromptRequest, promptVersion: string = getPromptVersion(request.type)): string {
+  return `${promptVersion}:${JSON.stringify(normalize(request.payload))}`
+}
@@ -0,0 +1,45 @@
+// Prompt templates, the structured payloads they are built from and the settings each operation
+// runs with. Shared by the app and the Netlify Function, so keep this folder free of browser-only
+// and Vite-only APIs.
+export type {
+  BuiltPrompt,
+  CourseContext,
+  FrameworkSnapshot,
+  GoalAssessmentSnapshot,
+  ObjectiveSnapshot,
+  PromptPayload,
+  PromptRequest,
+  PromptType
+} from './types'
+export { buildPrompt, getPromptVersion } from './templates'
+export { DEFAULT_MODEL, OPERATIONS, type OperationSettings } from './operations'
+export { createCacheKey, isCacheablePromptType } from './cacheKey'
+export { isPromptType, validatePromptRequest, type PromptRequestResult } from './validation'
+export {
+  BLOOM_TAXONOMY,
+  classifyBloomVerb,
+  findBloomVerb,
+  inferBloomLevel,
+  isBloomLevel,
+  normalizeBloomLevel,
+  toBaseVerb,
+  type BloomLevelInfo
+} from './bloomTaxonomy'
+export {
+  composeObjective,
+  describeTemplateForPrompt,
+  isTemplateComplete,
+  matchObjective,
+  parseObjectiveTemplate,
+  type TemplateParseResult,
+  type TemplatePart,
+  type TemplateSyntaxError,
+  type TemplateValues
+} from './objectiveTemplate'
+export {
+  USER_TEXT_LIMITS,
+  delimitUserText,
+  describeInstructionLikeContent,
+  findInstructionLikeContent,
+  sanitizeUserText
+} from './safety'
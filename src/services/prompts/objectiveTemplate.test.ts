@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest'
+import { composeObjective, describeTemplateForPrompt, matchObjective, parseObjectiveTemplate, type TemplatePart } from './objectiveTemplate'
+
+const parse = (template: string): TemplatePart[] => {
+  const result = parseObjectiveTemplate(template)
+  if (!result.success) throw new Error(result.errors[0].message)
+  return result.parts
+}
+
+const problemsIn = (template: string): string[] => {
+  const result = parseObjectiveTemplate(template)
+  return result.success ? [] : result.errors.map(error => error.message)
+}
+
+const abcd = parse('{opener:After|Given} {condition}, {audience} will {behavior}.')
+
+describe('parseObjectiveTemplate', () => {
+  it('splits a template into text, blanks, dropdowns and line breaks', () => {
+    expect(parse('{Given|After} {condition},\\n{audience} will')).toEqual([
+      { kind: 'choice', name: 'choice1', choices: ['Given', 'After'] },
+      { kind: 'text', text: ' ' },
+      { kind: 'blank', name: 'condition' },
+      { kind: 'text', text: ',' },
+      { kind: 'break' },
+      { kind: 'blank', name: 'audience' },
+      { kind: 'text', text: ' will' }
+    ])
+  })
+
+  it('reports every problem with its position', () => {
+    expect(problemsIn('{audience} will {behavior {degree}')).toEqual(['"{" is never closed with "}" (at character 17)'])
+    expect(problemsIn('{level:} and {} }')).toEqual([
+      '{level:} looks like a dropdown but has only one choice; separate choices with "|" (at character 1)',
+      '"{}" is empty; put a name inside, like {audience} (at character 14)',
+      '"}" has no matching "{" (at character 17)'
+    ])
+  })
+
+  it('rejects a name used twice and a template without a text blank', () => {
+    expect(problemsIn('{audience} and {Audience}')).toEqual(['"Audience" is used twice; each blank needs its own name (at character 16)'])
+    expect(problemsIn('Students will {list|explain}')).toEqual(['A template needs at least one blank to fill in, like {behavior}'])
+  })
+})
+
+describe('composeObjective', () => {
+  it('fills blanks, defaults dropdowns to their first choice and marks empty blanks', () => {
+    expect(composeObjective(abcd, { condition: 'a dataset', audience: 'students' }))
+      .toBe('After a dataset, students will ______.')
+  })
+})
+
+describe('matchObjective', () => {
+  it('reads values back from an objective written with the template', () => {
+    expect(matchObjective(abcd, 'given a dataset, nursing students will compute a mean.')).toEqual({
+      opener: 'Given',
+      condition: 'a dataset',
+      audience: 'nursing students',
+      behavior: 'compute a mean'
+    })
+  })
+
+  it('returns null for objectives that do not follow it or could split many ways', () => {
+    expect(matchObjective(abcd, 'Students will compute a mean.')).toBeNull()
+    expect(matchObjective(parse('{behavior} {degree}'), 'compute a mean accurately')).toBeNull()
+  })
+})
+
+describe('describeTemplateForPrompt', () => {
+  it('shows blanks in brackets and dropdowns as options', () => {
+    expect(describeTemplateForPrompt(abcd)).toBe('[one of: After / Given] [condition], [audience] will [behavior].')
+  })
+})
@@ -0,0 +1,220 @@
+// Objective templates: a sentence with blanks that the builder renders as inputs and the
+// objective prompts ask the model to complete. The grammar, e.g.
+// "{opener:After|At|Given} {condition}, {audience} will {behavior} {degree}.":
+//   {name}           a text blank; the name is shown as the hint under it
+//   {a|b|c}          a dropdown of choices
+//   {label:a|b|c}    a dropdown with a name, shown as its hint
+//   \n               a line break (a typed backslash-n or a real newline)
+// Everything else is plain text.
+import { USER_TEXT_LIMITS } from './safety'
+
+export type TemplatePart =
+  | { kind: 'text'; text: string }
+  | { kind: 'break' }
+  | { kind: 'blank'; name: string }
+  | { kind: 'choice'; name: string; choices: string[] }
+
+export interface TemplateSyntaxError {
+  message: string
+  // 0-based position in the template the problem starts at
+  index: number
+}
+
+export type TemplateParseResult =
+  | { success: true; parts: TemplatePart[] }
+  | { success: false; errors: TemplateSyntaxError[] }
+
+// Values keyed by blank or dropdown name
+export type TemplateValues = Record<string, string>
+
+// Names become hints under each blank and keys in the builder's values
+const NAME_PATTERN = /^[A-Za-z][A-Za-z0-9 _-]{0,29}$/
+
+const describePosition = (index: number): string => `at character ${index + 1}`
+
+/**
+ * Parses a template into plain text, line breaks, text blanks and dropdowns, reporting every
+ * problem found rather than stopping at the first
+ */
+export function parseObjectiveTemplate(template: string): TemplateParseResult {
+  const errors: TemplateSyntaxError[] = []
+  const parts: TemplatePart[] = []
+  const names = new Set<string>()
+  let unnamedChoices = 0
+  let text = ''
+
+  const fail = (message: string, index: number) => errors.push({ message: `${message} (${describePosition(index)})`, index })
+
+  const flushText = () => {
+    if (text) parts.push({ kind: 'text', text })
+    text = ''
+  }
+
+  const addName = (name: string, index: number) => {
+    if (names.has(name.toLowerCase())) fail(`"${name}" is used twice; each blank needs its own name`, index)
+    names.add(name.toLowerCase())
+  }
+
+  if (template.length > USER_TEXT_LIMITS.objectiveTemplate) {
+    errors.push({ message: `Templates can be at most ${USER_TEXT_LIMITS.objectiveTemplate} characters`, index: USER_TEXT_LIMITS.objectiveTemplate })
+  }
+
+  let index = 0
+  while (index < template.length) {
+    const char = template[index]
+
+    if (char === '\n' || template.startsWith('\\n', index)) {
+      flushText()
+      parts.push({ kind: 'break' })
+      index += char === '\n' ? 1 : 2
+      continue
+    }
+
+    if (char === '}') {
+      fail('"}" has no matching "{"', index)
+      index++
+      continue
+    }
+
+    if (char !== '{') {
+      text += char
+      index++
+      continue
+    }
+
+    // A placeholder runs to the next "}", and can't contain another "{" or a line break
+    const start = index
+    const end = template.indexOf('}', start + 1)
+    const nested = template.slice(start + 1, end === -1 ? undefined : end).search(/[{\n]/)
+    if (end === -1 || nested !== -1) {
+      fail('"{" is never closed with "}"', start)
+      index = nested !== -1 ? start + 1 + nested : template.length
+      continue
+    }
+
+    flushText()
+    index = end + 1
+    const inner = template.slice(start + 1, end).trim()
+
+    if (!inner) {
+      fail('"{}" is empty; put a name inside, like {audience}', start)
+      continue
+    }
+
+    if (!inner.includes('|')) {
+      if (inner.includes(':')) {
+        fail(`{${inner}} looks like a dropdown but has only one choice; separate choices with "|"`, start)
+      } else if (!NAME_PATTERN.test(inner)) {
+        fail(`{${inner}} isn't a valid name; use up to 30 letters, numbers, spaces, "-" or "_", starting with a letter`, start)
+      } else {
+        addName(inner, start)
+        parts.push({ kind: 'blank', name: inner })
+      }
+      continue
+    }
+
+    const colon = inner.indexOf(':')
+    const label = colon > -1 ? inner.slice(0, colon).trim() : ''
+    const choices = (colon > -1 ? inner.slice(colon + 1) : inner).split('|').map(choice => choice.trim())
+
+    if (colon > -1 && !NAME_PATTERN.test(label)) {
+      fail(`"${label}" isn't a valid dropdown name; use up to 30 letters, numbers, spaces, "-" or "_", starting with a letter`, start)
+      continue
+    }
+    if (choices.some(choice => !choice)) {
+      fail(`{${inner}} has an empty choice; remove the extra "|"`, start)
+      continue
+    }
+
+    const name = label || `choice${++unnamedChoices}`
+    addName(name, start)
+    parts.push({ kind: 'choice', name, choices })
+  }
+  flushText()
+
+  if (errors.length === 0 && !parts.some(part => part.kind === 'blank')) {
+    errors.push({ message: 'A template needs at least one blank to fill in, like {behavior}', index: 0 })
+  }
+
+  return errors.length > 0 ? { success: false, errors } : { success: true, parts }
+}
+
+/**
+ * Fills the template with the given values; empty blanks are shown as a line to write on
+ */
+export function composeObjective(parts: TemplatePart[], values: TemplateValues): string {
+  const sentence = parts.map(part => {
+    if (part.kind === 'text') return part.text
+    if (part.kind === 'break') return '\n'
+    if (part.kind === 'choice') return values[part.name] ?? part.choices[0]
+    return values[part.name]?.trim() || '______'
+  }).join('')
+
+  // A blank left empty at the end of a clause shouldn't leave a gap before the punctuation
+  return sentence
+    .replace(/[ \t]+/g, ' ')
+    .replace(/ ?\n ?/g, '\n')
+    .replace(/ ([.,;])/g, '$1')
+    .trim()
+}
+
+/**
+ * Whether every text blank has been filled in
+ */
+export function isTemplateComplete(parts: TemplatePart[], values: TemplateValues): boolean {
+  return parts.every(part => part.kind !== 'blank' || Boolean(values[part.name]?.trim()))
+}
+
+const escapePattern = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+/**
+ * Reads the values back out of an objective written with this template, or returns null when
+ * the objective doesn't follow it. Two text blanks with only spaces between them, like
+ * "{behavior} {degree}", can split many ways, so such templates never match.
+ */
+export function matchObjective(parts: TemplatePart[], objective: string): TemplateValues | null {
+  const isAmbiguous = parts.some((part, index) => {
+    if (part.kind !== 'blank') return false
+    const next = parts[index + 1]
+    const afterNext = parts[index + 2]
+    return next?.kind === 'blank' || (next?.kind === 'text' && !next.text.trim() && afterNext?.kind === 'blank')
+  })
+  if (isAmbiguous) return null
+
+  const names: string[] = []
+  const pattern = parts.map((part, index) => {
+    if (part.kind === 'break') return '\\s*'
+    if (part.kind === 'text') {
+      // The objective is trimmed, so spacing at either end of the template can't be required
+      const text = index === 0 ? part.text.trimStart() : index === parts.length - 1 ? part.text.trimEnd() : part.text
+      return escapePattern(text).replace(/\s+/g, '\\s+')
+    }
+    names.push(part.name)
+    return part.kind === 'choice' ? `(${part.choices.map(escapePattern).join('|')})` : '(.+?)'
+  }).join('')
+
+  const match = objective.trim().match(new RegExp(`^${pattern}$`, 'is'))
+  if (!match) return null
+
+  const values: TemplateValues = {}
+  names.forEach((name, index) => {
+    values[name] = match[index + 1].trim()
+  })
+
+  // Choices are kept in the template's own capitalization so the dropdown shows them selected
+  parts.forEach(part => {
+    if (part.kind !== 'choice') return
+    values[part.name] = part.choices.find(choice => choice.toLowerCase() === values[part.name].toLowerCase()) ?? part.choices[0]
+  })
+  return values
+}
+
+/**
+ * The template as the model sees it: blanks in [brackets] and dropdowns as a list of options
+ */
+export const describeTemplateForPrompt = (parts: TemplatePart[]): string => parts.map(part => {
+  if (part.kind === 'text') return part.text
+  if (part.kind === 'break') return ' '
+  if (part.kind === 'choice') return `[one of: ${part.choices.join(' / ')}]`
+  return `[${part.name}]`
+}).join('').replace(/\s+/g, ' ').trim()
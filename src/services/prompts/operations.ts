@@ -0,0 +1,21 @@
+// Generation settings for each AI operation. The Netlify Function and the providers that
+// call a model straight from the browser read the same table, so every mode behaves alike.
+import type { PromptType } from './types'
+
+export interface OperationSettings {
+  maxTokens: number
+  temperature?: number
+}
+
+export const DEFAULT_MODEL = 'claude-3-7-sonnet-20250219'
+
+// Bulk generation gets room for five or more goals; single-item requests need far less
+export const OPERATIONS: Record<PromptType, OperationSettings> = {
+  'refine-goals': { maxTokens: 2000, temperature: 0.7 },
+  'generate-assessments': { maxTokens: 4000, temperature: 0.7 },
+  'generate-objectives': { maxTokens: 4000, temperature: 0.7 },
+  'regenerate-goal': { maxTokens: 1000, temperature: 0.9 },
+  'regenerate-assessment': { maxTokens: 2000, temperature: 0.9 },
+  'regenerate-objective': { maxTokens: 1000, temperature: 0.9 },
+  'revise-item': { maxTokens: 1500, temperature: 0.3 }
+}
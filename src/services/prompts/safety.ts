@@ -0,0 +1,78 @@
+// Screening for user-entered text before it is placed in a prompt. The app checks form input
+// with the same rules the Netlify Function applies to every payload, so the user hears about a
+// problem while typing rather than from a rejected request.
+
+// Longest accepted text for the fields the user types directly. Goals and assessments can be
+// AI-written by the time they are sent back, so they share the general payload limit instead.
+export const USER_TEXT_LIMITS = {
+  courseSubject: 100,
+  targetAudience: 200,
+  instructionDuration: 100,
+  goal: 300,
+  feedback: 500,
+  objectiveTemplate: 300
+} as const
+
+// Tags that mark user text in the prompt templates; user text must not be able to close them
+export const USER_INPUT_OPEN = '<user_input>'
+export const USER_INPUT_CLOSE = '</user_input>'
+
+// Stripped silently: they carry no meaning in course content but can change how a prompt reads
+const isStrippedControlChar = (char: string): boolean => {
+  // Control characters other than tab and newline
+  const code = char.charCodeAt(0)
+  return (code < 0x20 && char !== '\t' && char !== '\n') || code === 0x7F
+}
+
+const STRIPPED_PATTERNS: RegExp[] = [
+  // Zero-width and bidirectional override characters, which can hide text from the user
+  /[\u200B-\u200F\u202A-\u202E\u2060-\u2064\uFEFF]/g,
+  // Chat template tokens such as <|im_start|>
+  /<\|[\w-]*\|>/g,
+  // Prompt delimiters and role tags, e.g. </user_input> or <system>
+  /<\/?\s*(user_input|system|assistant|user|human|instructions?)\b[^>]*>/gi,
+  // Role markers at the start of a line, e.g. "System:" or "Assistant:"
+  /^[ \t]*(system|assistant|human)[ \t]*:/gim
+]
+
+// Phrases that address the model rather than describe a course; input containing one is rejected.
+// Kept narrow so ordinary course wording ("ignore irrelevant data") still passes.
+const INSTRUCTION_PATTERNS: RegExp[] = [
+  /\b(ignore|disregard|forget|override)\s+(all\s+|any\s+)?(of\s+)?(the\s+|your\s+|my\s+)?(previous|prior|above|earlier|preceding|system|original)\b[^.\n]{0,20}\b(instructions?|prompts?|directions|rules|messages?)\b/i,
+  /\b(ignore|disregard)\s+(all|any|your)\s+(instructions|prompts|rules)\b/i,
+  /\b(reveal|print|show|repeat|output|leak)\b[^.\n]{0,30}\b(system|hidden|original|initial)\s+(prompt|instructions?|message)\b/i,
+  /\byou are (now|no longer) (a|an)\b/i,
+  /\b(new|updated|real) instructions?\s*:/i,
+  /\b(pretend|act) (to be|as if you were|as an? (ai|assistant|model|chatbot))\b/i
+]
+
+/**
+ * Removes characters and markup that could restructure a prompt, leaving the wording intact
+ */
+export function sanitizeUserText(text: string): string {
+  const printable = Array.from(text).filter(char => !isStrippedControlChar(char)).join('')
+  return STRIPPED_PATTERNS.reduce((result, pattern) => result.replace(pattern, ''), printable)
+}
+
+/**
+ * Returns the first phrase that reads as an instruction to the AI, or null when there is none
+ */
+export function findInstructionLikeContent(text: string): string | null {
+  const sanitized = sanitizeUserText(text)
+  for (const pattern of INSTRUCTION_PATTERNS) {
+    const match = sanitized.match(pattern)
+    if (match) return match[0]
+  }
+  return null
+}
+
+/**
+ * Message shown when input is rejected; `field` is how the user knows it, e.g. "Course subject"
+ */
+export const describeInstructionLikeContent = (field: string, phrase: string): string =>
+  `${field} contains text that reads like an instruction to the AI ("${phrase}"), so it wasn't sent. Please rephrase it and try again.`
+
+/**
+ * Wraps user text in the delimiter tags the prompt templates tell the model to treat as data
+ */
+export const delimitUserText = (text: string): string => `${USER_INPUT_OPEN}${sanitizeUserText(text)}${USER_INPUT_CLOSE}`
@@ -0,0 +1,100 @@
+// Structured request payloads that prompts are built from. They are plain JSON so the
+// browser can post them to the Netlify Function, which builds the prompt on the server.
+import type { BloomLevel } from '../../types'
+
+export interface CourseContext {
+  courseType: 'course' | 'workshop'
+  courseSubject: string
+  targetAudience: string
+  instructionDuration: string
+}
+
+// Assessments and objectives refer to goals by their 1-based position in the goal list
+export interface GoalAssessmentSnapshot {
+  goal: number
+  description: string
+}
+
+export interface ObjectiveSnapshot {
+  goal: number
+  bloomLevel: BloomLevel
+  description: string
+}
+
+/**
+ * The current framework, in goal order, sent as context when a single item is replaced
+ */
+export interface FrameworkSnapshot {
+  goals: string[]
+  assessments: GoalAssessmentSnapshot[]
+  objectives: ObjectiveSnapshot[]
+}
+
+export interface RefineGoalsPayload {
+  context: CourseContext
+  goals: string[]
+}
+
+export interface GenerateAssessmentsPayload {
+  context: CourseContext
+  goals: string[]
+}
+
+export interface GenerateObjectivesPayload {
+  context: CourseContext
+  goals: string[]
+  assessments: GoalAssessmentSnapshot[]
+  // The institution's objective template, when objectives should be written with one
+  objectiveTemplate?: string
+}
+
+export interface RegeneratePayload {
+  context: CourseContext
+  framework: FrameworkSnapshot
+  // The goal the replaced item belongs to
+  goal: number
+  // Number of alternatives to return
+  count: number
+}
+
+export interface RegenerateGoalPayload extends RegeneratePayload {
+  // The instructor's wording before refinement, when it differs
+  originalWording?: string
+}
+
+export interface RegenerateObjectivePayload extends RegeneratePayload {
+  objective: Omit<ObjectiveSnapshot, 'goal'>
+  objectiveTemplate?: string
+}
+
+export interface ReviseItemPayload {
+  context: CourseContext
+  kind: 'goal' | 'assessment' | 'objective'
+  // The goal the item belongs to; for a goal, the item itself
+  goal: string
+  // Current text of an assessment or objective; empty for an assessment with no strategies yet
+  current: string
+  bloomLevel?: BloomLevel
+  feedback: string
+}
+
+export type PromptRequest =
+  | { type: 'refine-goals'; payload: RefineGoalsPayload }
+  | { type: 'generate-assessments'; payload: GenerateAssessmentsPayload }
+  | { type: 'generate-objectives'; payload: GenerateObjectivesPayload }
+  | { type: 'regenerate-goal'; payload: RegenerateGoalPayload }
+  | { type: 'regenerate-assessment'; payload: RegeneratePayload }
+  | { type: 'regenerate-objective'; payload: RegenerateObjectivePayload }
+  | { type: 'revise-item'; payload: ReviseItemPayload }
+
+export type PromptType = PromptRequest['type']
+
+export type PromptPayload<T extends PromptType> = Extract<PromptRequest, { type: T }>['payload']
+
+export interface BuiltPrompt {
+  prompt: string
+  // Sent as the system prompt, for templates that have one
+  system?: string
+  // Template name and version, e.g. "refine-goals@1", recorded with each result
+  version: string
+}
@@ -0,0 +1,263 @@
+// Checks request payloads before a prompt is built from them. The Netlify Function
+// runs this on every request, so nothing but these fields ever reaches the model.
+import { BLOOM_LEVELS, type BloomLevel } from '../../types'
+import { normalizeBloomLevel } from './bloomTaxonomy'
+import { parseObjectiveTemplate } from './objectiveTemplate'
+import { USER_TEXT_LIMITS, describeInstructionLikeContent, findInstructionLikeContent, sanitizeUserText } from './safety'
+import type { CourseContext, FrameworkSnapshot, GoalAssessmentSnapshot, ObjectiveSnapshot, PromptRequest, PromptType } from './types'
+
+const MAX_TEXT_LENGTH = 2000
+const MAX_GOALS = 20
+const MAX_OBJECTIVES = 100
+const MAX_ALTERNATIVES = 5
+
+// `userMessage` is set when text was rejected as an instruction to the AI, naming the field to fix
+export type PromptRequestResult =
+  | { success: true; request: PromptRequest }
+  | { success: false; issues: string[]; userMessage?: string }
+
+type JsonRecord = Record<string, unknown>
+
+// Problems found so far, plus the first field rejected for instruction-like content
+interface IssueLog {
+  issues: string[]
+  instructionLike: { path: string; phrase: string } | null
+}
+
+// How the user knows each field, for the rejection message
+function describeField(path: string): string {
+  if (path === 'payload.context.courseSubject') return 'The course subject'
+  if (path === 'payload.context.targetAudience') return 'The target audience'
+  if (path === 'payload.context.instructionDuration') return 'The duration'
+  if (path === 'payload.feedback') return 'Your feedback'
+  if (path === 'payload.objectiveTemplate') return 'Your objective template'
+  if (/goals\[\d+\]$|\.goal$|originalWording$/.test(path)) return 'One of your goals'
+  return 'Some of your framework text'
+}
+
+function isRecord(value: unknown): value is JsonRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function readRecord(value: unknown, path: string, log: IssueLog): JsonRecord {
+  if (isRecord(value)) return value
+  log.issues.push(`${path} must be an object`)
+  return {}
+}
+
+// Text is sanitized before use, and rejected if it reads like an instruction to the model
+function readText(value: unknown, path: string, log: IssueLog, { optional = false, maxLength = MAX_TEXT_LENGTH } = {}): string {
+  if (optional && value === undefined) return ''
+  if (typeof value !== 'string' || (!optional && !value.trim())) {
+    log.issues.push(`${path} must be a non-empty string`)
+    return ''
+  }
+  if (value.length > maxLength) {
+    log.issues.push(`${path} must be at most ${maxLength} characters`)
+    return ''
+  }
+
+  const phrase = findInstructionLikeContent(value)
+  if (phrase) {
+    log.issues.push(`${path} contains instruction-like text ("${phrase}")`)
+    log.instructionLike ??= { path, phrase }
+    return ''
+  }
+  return sanitizeUserText(value)
+}
+
+// Accepts a level however it's spelled ("analysis", "Analyse") and passes on its standard name
+function readBloomLevel(value: unknown, path: string, log: IssueLog): BloomLevel {
+  const level = typeof value === 'string' ? normalizeBloomLevel(value) : null
+  if (level) return level
+  log.issues.push(`${path} must be one of: ${BLOOM_LEVELS.join(', ')}`)
+  return BLOOM_LEVELS[0]
+}
+
+function readInteger(value: unknown, path: string, min: number, max: number, log: IssueLog): number {
+  if (typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max) return value
+  log.issues.push(`${path} must be a whole number from ${min} to ${max}`)
+  return min
+}
+
+function readArray(value: unknown, path: string, maxLength: number, log: IssueLog): unknown[] {
+  if (!Array.isArray(value)) {
+    log.issues.push(`${path} must be an array`)
+    return []
+  }
+  if (value.length > maxLength) {
+    log.issues.push(`${path} must have at most ${maxLength} items`)
+    return []
+  }
+  return value
+}
+
+function readContext(value: unknown, log: IssueLog): CourseContext {
+  const context = readRecord(value, 'payload.context', log)
+  if (context.courseType !== 'course' && context.courseType !== 'workshop') {
+    log.issues.push('payload.context.courseType must be "course" or "workshop"')
+  }
+  return {
+    courseType: context.courseType === 'workshop' ? 'workshop' : 'course',
+    courseSubject: readText(context.courseSubject, 'payload.context.courseSubject', log, { maxLength: USER_TEXT_LIMITS.courseSubject }),
+    targetAudience: readText(context.targetAudience, 'payload.context.targetAudience', log, { maxLength: USER_TEXT_LIMITS.targetAudience }),
+    instructionDuration: readText(context.instructionDuration, 'payload.context.instructionDuration', log, { maxLength: USER_TEXT_LIMITS.instructionDuration })
+  }
+}
+
+function readGoals(value: unknown, path: string, log: IssueLog): string[] {
+  const goals = readArray(value, path, MAX_GOALS, log).map((goal, index) => readText(goal, `${path}[${index}]`, log))
+  if (Array.isArray(value) && goals.length === 0) log.issues.push(`${path} must not be empty`)
+  return goals
+}
+
+function readAssessments(value: unknown, path: string, goalCount: number, log: IssueLog): GoalAssessmentSnapshot[] {
+  return readArray(value, path, MAX_GOALS, log).map((item, index) => {
+    const record = readRecord(item, `${path}[${index}]`, log)
+    return {
+      goal: readInteger(record.goal, `${path}[${index}].goal`, 1, goalCount, log),
+      description: readText(record.description, `${path}[${index}].description`, log, { optional: true })
+    }
+  })
+}
+
+function readObjective(value: unknown, path: string, log: IssueLog): Omit<ObjectiveSnapshot, 'goal'> {
+  const record = readRecord(value, path, log)
+  return {
+    bloomLevel: readBloomLevel(record.bloomLevel, `${path}.bloomLevel`, log),
+    description: readText(record.description, `${path}.description`, log, { optional: true })
+  }
+}
+
+function readFramework(value: unknown, log: IssueLog): FrameworkSnapshot {
+  const framework = readRecord(value, 'payload.framework', log)
+  const goals = readGoals(framework.goals, 'payload.framework.goals', log)
+  return {
+    goals,
+    assessments: readAssessments(framework.assessments, 'payload.framework.assessments', goals.length, log),
+    objectives: readArray(framework.objectives, 'payload.framework.objectives', MAX_OBJECTIVES, log).map((item, index) => {
+      const path = `payload.framework.objectives[${index}]`
+      const record = readRecord(item, path, log)
+      return { goal: readInteger(record.goal, `${path}.goal`, 1, goals.length, log), ...readObjective(record, path, log) }
+    })
+  }
+}
+
+// Optional on the objective requests; it must parse, since the prompt describes its blanks
+function readObjectiveTemplate(payload: JsonRecord, log: IssueLog): { objectiveTemplate?: string } {
+  if (payload.objectiveTemplate === undefined) return {}
+
+  const objectiveTemplate = readText(payload.objectiveTemplate, 'payload.objectiveTemplate', log, { maxLength: USER_TEXT_LIMITS.objectiveTemplate })
+  const parsed = parseObjectiveTemplate(objectiveTemplate)
+  if (objectiveTemplate && !parsed.success) {
+    log.issues.push(`payload.objectiveTemplate is not a valid template: ${parsed.errors[0].message}`)
+  }
+  return { objectiveTemplate }
+}
+
+// Fields shared by the three regenerate requests
+function readRegeneration(payload: JsonRecord, log: IssueLog) {
+  const framework = readFramework(payload.framework, log)
+  return {
+    context: readContext(payload.context, log),
+    framework,
+    goal: readInteger(payload.goal, 'payload.goal', 1, Math.max(framework.goals.length, 1), log),
+    count: readInteger(payload.count, 'payload.count', 1, MAX_ALTERNATIVES, log)
+  }
+}
+
+function readRequest(type: PromptType, payload: JsonRecord, log: IssueLog): PromptRequest {
+  switch (type) {
+    case 'refine-goals':
+    case 'generate-assessments':
+      return { type, payload: { context: readContext(payload.context, log), goals: readGoals(payload.goals, 'payload.goals', log) } }
+
+    case 'generate-objectives': {
+      const goals = readGoals(payload.goals, 'payload.goals', log)
+      return {
+        type,
+        payload: {
+          context: readContext(payload.context, log),
+          goals,
+          assessments: readAssessments(payload.assessments, 'payload.assessments', goals.length, log),
+          ...readObjectiveTemplate(payload, log)
+        }
+      }
+    }
+
+    case 'regenerate-goal':
+      return {
+        type,
+        payload: {
+          ...readRegeneration(payload, log),
+          ...(payload.originalWording !== undefined
+            ? { originalWording: readText(payload.originalWording, 'payload.originalWording', log) }
+            : {})
+        }
+      }
+
+    case 'regenerate-assessment':
+      return { type, payload: readRegeneration(payload, log) }
+
+    case 'regenerate-objective':
+      return {
+        type,
+        payload: {
+          ...readRegeneration(payload, log),
+          objective: readObjective(payload.objective, 'payload.objective', log),
+          ...readObjectiveTemplate(payload, log)
+        }
+      }
+
+    case 'revise-item': {
+      const kind = payload.kind
+      if (kind !== 'goal' && kind !== 'assessment' && kind !== 'objective') {
+        log.issues.push('payload.kind must be "goal", "assessment" or "objective"')
+      }
+      return {
+        type,
+        payload: {
+          context: readContext(payload.context, log),
+          kind: kind === 'assessment' || kind === 'objective' ? kind : 'goal',
+          goal: readText(payload.goal, 'payload.goal', log),
+          current: readText(payload.current, 'payload.current', log, { optional: kind !== 'objective' }),
+          ...(kind === 'objective' ? { bloomLevel: readBloomLevel(payload.bloomLevel, 'payload.bloomLevel', log) } : {}),
+          feedback: readText(payload.feedback, 'payload.feedback', log, { maxLength: USER_TEXT_LIMITS.feedback })
+        }
+      }
+    }
+  }
+}
+
+const PROMPT_TYPES: readonly PromptType[] = [
+  'refine-goals',
+  'generate-assessments',
+  'generate-objectives',
+  'regenerate-goal',
+  'regenerate-assessment',
+  'regenerate-objective',
+  'revise-item'
+]
+
+export const isPromptType = (value: unknown): value is PromptType =>
+  typeof value === 'string' && (PROMPT_TYPES as readonly string[]).includes(value)
+
+/**
+ * Validates an untrusted request body and returns a typed request containing only the known fields
+ */
+export function validatePromptRequest(type: unknown, payload: unknown): PromptRequestResult {
+  if (!isPromptType(type)) {
+    return { success: false, issues: [`unsupported request type: ${String(type)}`] }
+  }
+
+  const log: IssueLog = { issues: [], instructionLike: null }
+  const request = readRequest(type, readRecord(payload, 'payload', log), log)
+  if (log.issues.length === 0) return { success: true, request }
+
+  const { issues, instructionLike } = log
+  return {
+    success: false,
+    issues,
+    ...(instructionLike ? { userMessage: describeInstructionLikeContent(describeField(instructionLike.path), instructionLike.phrase) } : {})
+  }
+}
@@ -0,0 +1,119 @@
+// Calls the Anthropic Messages API straight from the browser with the user's own key
+import { readServerSentEvents } from './serverSentEvents'
+import { createInvalidPayloadError, createInvalidResponseError, createMissingApiKeyError, createResponseError, createStreamInterruptedError, readRetryAfter } from './errors'
+import { buildPrompt, DEFAULT_MODEL, OPERATIONS, validatePromptRequest } from '../prompts'
+import type { AICompletion, AIProvider, StreamListener } from './types'
+
+const ANTHROPIC_API_URL = 'https://api.anthropic.com/v1/messages'
+
+// Error types from the Messages API mapped to the HTTP status they are returned with
+const ERROR_TYPE_STATUS: Record<string, number> = {
+  authentication_error: 401,
+  permission_error: 403,
+  rate_limit_error: 429,
+  overloaded_error: 529
+}
+
+export interface AnthropicProviderOptions {
+  // A function is read on every request, so a key entered later is picked up
+  apiKey: string | (() => string | null)
+  model?: string
+  // Replaces the per-operation output limit for every request
+  maxTokens?: number
+}
+
+async function readStreamedMessage(body: ReadableStream<Uint8Array>, type: string, onText: StreamListener): Promise<AICompletion> {
+  let text = ''
+  let stopReason: string | null = null
+  let model: string | undefined
+  // Input tokens arrive with `message_start`, the output count with the final `message_delta`
+  const usage = { inputTokens: 0, outputTokens: 0 }
+
+  for await (const { event, data } of readServerSentEvents(body)) {
+    const payload = JSON.parse(data)
+    if (event === 'message_start') {
+      model = payload.message?.model
+      usage.inputTokens = payload.message?.usage?.input_tokens ?? 0
+    } else if (event === 'content_block_delta' && payload.delta?.type === 'text_delta') {
+      text += payload.delta.text
+      onText(text)
+    } else if (event === 'message_delta') {
+      stopReason = payload.delta?.stop_reason ?? stopReason
+      usage.outputTokens = payload.usage?.output_tokens ?? usage.outputTokens
+    } else if (event === 'message_stop') {
+      return { text, truncated: stopReason === 'max_tokens', model, usage }
+    } else if (event === 'error') {
+      const status = ERROR_TYPE_STATUS[payload.error?.type] ?? 500
+      throw createResponseError(status, payload.error?.type ?? 'Stream error', { error: payload.error?.message }, type)
+    }
+  }
+
+  throw createStreamInterruptedError(type, text.length)
+}
+
+/**
+ * Provider for static hosting, where there is no server to hold the API key
+ */
+export function createAnthropicProvider({ apiKey, model = DEFAULT_MODEL, maxTokens }: AnthropicProviderOptions): AIProvider {
+  return {
+    id: 'anthropic',
+    label: 'Anthropic API (your key)',
+    complete: async (request) => {
+      const { type, onText, signal } = request
+      const key = typeof apiKey === 'function' ? apiKey() : apiKey
+      if (!key) {
+        throw createMissingApiKeyError(type)
+      }
+
+      // With no server in between, the payload is screened here the way the Netlify Function would
+      const validation = validatePromptRequest(type, request.payload)
+      if (!validation.success) {
+        throw createInvalidPayloadError(type, validation.issues, validation.userMessage)
+      }
+      const { prompt, system, version } = buildPrompt(validation.request)
+      const operation = OPERATIONS[type]
+
+      const response = await fetch(ANTHROPIC_API_URL, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-api-key': key,
+          'anthropic-version': '2023-06-01',
+          'anthropic-dangerous-direct-browser-access': 'true'
+        },
+        body: JSON.stringify({
+          model,
+          max_tokens: maxTokens ?? operation.maxTokens,
+          ...(operation.temperature !== undefined ? { temperature: operation.temperature } : {}),
+          ...(system ? { system } : {}),
+          messages: [{ role: 'user', content: prompt }],
+          ...(onText ? { stream: true } : {})
+        }),
+        signal
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw createResponseError(response.status, response.statusText, { error: errorData.error?.message, retryAfterMs: readRetryAfter(response) }, type)
+      }
+
+      if (onText && response.body) {
+        return { ...await readStreamedMessage(response.body, type, onText), promptVersion: version }
+      }
+
+      const data = await response.json()
+      const text = data.content?.[0]?.type === 'text' ? data.content[0].text : ''
+      if (!text) {
+        throw createInvalidResponseError(type, data)
+      }
+
+      return {
+        text,
+        truncated: data.stop_reason === 'max_tokens',
+        promptVersion: version,
+        model: data.model,
+        usage: data.usage ? { inputTokens: data.usage.input_tokens ?? 0, outputTokens: data.usage.output_tokens ?? 0 } : undefined
+      }
+    }
+  }
+}
@@ -0,0 +1,151 @@
+// AppErrors shared by the AI providers
+import { createAppError, ErrorCategory, ErrorSeverity, type AppError } from '../../utils/errorHandling'
+
+/**
+ * Reads a Retry-After header, given either in seconds or as an HTTP date, as milliseconds
+ */
+export function readRetryAfter(response: Response): number | undefined {
+  const value = response.headers.get('Retry-After')
+  if (!value) return undefined
+
+  const seconds = Number(value)
+  if (Number.isFinite(seconds)) return Math.max(seconds, 0) * 1000
+
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? undefined : Math.max(date - Date.now(), 0)
+}
+
+/**
+ * How long the server asked us to wait before sending a rate-limited request again
+ */
+export function getRetryAfterMs(error: AppError): number | undefined {
+  const retryAfterMs = error.context?.retryAfterMs
+  return typeof retryAfterMs === 'number' ? retryAfterMs : undefined
+}
+
+// Maps an unsuccessful HTTP response from an AI endpoint to an AppError
+export function createResponseError(
+  status: number,
+  statusText: string,
+  errorData: { error?: string; retryAfterMs?: number; userMessage?: string },
+  type: string
+): AppError {
+  if (status === 401) {
+    return createAppError(
+      'Authentication failed',
+      { status, type },
+      {
+        category: ErrorCategory.PERMISSION,
+        severity: ErrorSeverity.HIGH,
+        userMessage: 'API authentication failed. Please check that your API key is correctly configured.',
+        retryable: false
+      }
+    )
+  } else if (status === 403) {
+    return createAppError(
+      'Access forbidden',
+      { status, type },
+      {
+        category: ErrorCategory.PERMISSION,
+        severity: ErrorSeverity.HIGH,
+        userMessage: 'API access denied. Please check your API key permissions and billing status.',
+        retryable: false
+      }
+    )
+  } else if (status >= 500) {
+    return createAppError(
+      'Server error',
+      { status, type },
+      {
+        category: ErrorCategory.API,
+        severity: ErrorSeverity.HIGH,
+        userMessage: 'Our AI service is experiencing issues. Please try again in a few minutes.',
+        retryable: true
+      }
+    )
+  } else if (status === 400) {
+    // The request payload was rejected, so sending it again won't help
+    return createAppError(
+      errorData.error || 'Invalid request',
+      { status, type },
+      {
+        category: ErrorCategory.VALIDATION,
+        severity: ErrorSeverity.MEDIUM,
+        // Set when input was rejected as an instruction to the AI, naming the field to fix
+        userMessage: errorData.userMessage || 'Some of your course details couldn\'t be sent to the AI service. Check for very long or empty entries and try again.',
+        retryable: false
+      }
+    )
+  } else if (status === 429) {
+    const { retryAfterMs } = errorData
+    return createAppError(
+      'Rate limit exceeded',
+      { status, type, ...(retryAfterMs !== undefined ? { retryAfterMs } : {}) },
+      {
+        category: ErrorCategory.API,
+        severity: ErrorSeverity.MEDIUM,
+        userMessage: retryAfterMs !== undefined && retryAfterMs > 0
+          ? `Too many requests. Please wait about ${Math.ceil(retryAfterMs / 1000)} seconds before trying again.`
+          : 'Too many requests. Please wait a moment before trying again.',
+        retryable: true
+      }
+    )
+  }
+
+  return createAppError(
+    errorData.error || `HTTP ${status}: ${statusText}`,
+    { status, type },
+    {
+      category: ErrorCategory.API,
+      severity: ErrorSeverity.MEDIUM,
+      userMessage: 'We couldn\'t process your AI request right now. Please try again.',
+      retryable: true
+    }
+  )
+}
+
+export function createInvalidResponseError(type: string, responseData: unknown): AppError {
+  return createAppError(
+    'Invalid AI response format',
+    { type, responseData },
+    {
+      category: ErrorCategory.DATA,
+      severity: ErrorSeverity.MEDIUM,
+      userMessage: 'Received an invalid response from the AI service. Please try again.',
+      retryable: true
+    }
+  )
+}
+
+export function createStreamInterruptedError(type: string, receivedLength: number): AppError {
+  return createAppError(
+    'AI response stream ended early',
+    { type, receivedLength },
+    {
+      category: ErrorCategory.NETWORK,
+      severity: ErrorSeverity.MEDIUM,
+      userMessage: 'The connection to the AI service was interrupted. Please try again.',
+      retryable: true
+    }
+  )
+}
+
+export function createMissingApiKeyError(type: string): AppError {
+  return createAppError(
+    'No API key configured',
+    { type },
+    {
+      category: ErrorCategory.PERMISSION,
+      severity: ErrorSeverity.HIGH,
+      userMessage: 'Add your Anthropic API key in AI Settings to use the AI features.',
+      retryable: false
+    }
+  )
+}
+
+/**
+ * Rejects a request payload the same way the Netlify Function does, for providers that build prompts in the browser
+ */
+export function createInvalidPayloadError(type: string, issues: string[], userMessage?: string): AppError {
+  return createResponseError(400, 'Bad Request', { error: `Invalid request payload: ${issues.join('; ')}`, userMessage }, type)
+}
@@ -0,0 +1,60 @@
+// AI provider selection. The default comes from VITE_AI_PROVIDER; the app can swap it at runtime.
+import { loadApiKey } from '../../utils/apiKeyStorage'
+import { createAnthropicProvider } from './anthropicProvider'
+import { createNetlifyProvider } from './netlifyProvider'
+import { createMockProvider } from './mockProvider'
+import { createOpenAICompatibleProvider } from './openAICompatibleProvider'
+import type { AIProvider } from './types'
+
+export type { AICompletion, AIProvider, AIProviderId, AIRequest, StreamListener } from './types'
+export { createNetlifyProvider } from './netlifyProvider'
+export { createAnthropicProvider, type AnthropicProviderOptions } from './anthropicProvider'
+export { createOpenAICompatibleProvider, type OpenAICompatibleProviderOptions } from './openAICompatibleProvider'
+export { createMockProvider, type MockProviderOptions } from './mockProvider'
+export { getRetryAfterMs } from './errors'
+
+/**
+ * Static mode is for hosts without the Netlify Function, such as an LMS page. The browser
+ * calls the Anthropic API directly with a key the user enters in AI Settings.
+ */
+export const isStaticMode = import.meta.env.MODE === 'static' || import.meta.env.VITE_AI_PROVIDER === 'anthropic'
+
+let activeProvider: AIProvider | null = null
+
+function createProviderFromEnv(): AIProvider {
+  const env = import.meta.env
+
+  if (isStaticMode) {
+    return createAnthropicProvider({ apiKey: loadApiKey })
+  }
+
+  switch (env.VITE_AI_PROVIDER) {
+    case 'mock':
+      return createMockProvider()
+    case 'openai-compatible':
+      return createOpenAICompatibleProvider({
+        baseUrl: env.VITE_OPENAI_COMPATIBLE_URL || 'http://localhost:11434/v1',
+        model: env.VITE_OPENAI_COMPATIBLE_MODEL || 'llama3.1',
+        apiKey: env.VITE_OPENAI_COMPATIBLE_API_KEY
+      })
+    default:
+      return createNetlifyProvider()
+  }
+}
+
+/**
+ * Returns the provider AI requests are sent to
+ */
+export function getAIProvider(): AIProvider {
+  if (!activeProvider) {
+    activeProvider = createProviderFromEnv()
+  }
+  return activeProvider
+}
+
+/**
+ * Replaces the active provider, or restores the configured default when given null
+ */
+export function setAIProvider(provider: AIProvider | null): void {
+  activeProvider = provider
+}
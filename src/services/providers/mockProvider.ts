@@ -0,0 +1,194 @@
+// Deterministic offline provider: builds canned JSON responses from the request payload so
+// the whole workflow can be demoed and developed without an API key
+import { buildPrompt, validatePromptRequest, type PromptRequest } from '../prompts'
+import { createInvalidPayloadError } from './errors'
+import type { AIProvider, StreamListener } from './types'
+
+const CHUNK_SIZE = 24
+// Rough English average, so the usage panel has plausible numbers to show offline
+const CHARS_PER_TOKEN = 4
+
+export interface MockProviderOptions {
+  // Pause before the response and between streamed chunks, to make loading states visible
+  latencyMs?: number
+  chunkDelayMs?: number
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    signal?.throwIfAborted()
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(signal?.reason)
+    }
+    // Streaming sleeps once per chunk, so drop the listener rather than pile them up on the signal
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+// Turns "Students will be able to design a circuit, using ..." into "design a circuit"
+function toOutcome(text: string): string {
+  const core = text
+    .replace(/^\[[^\]]+\]\s*/, '')
+    .replace(/^(students|learners|participants) will (be able to |demonstrate (the ability to )?)?/i, '')
+    .split(',')[0]
+    .replace(/[.\s]+$/, '')
+    .trim()
+  return core ? core.charAt(0).toLowerCase() + core.slice(1) : 'apply what they have learned'
+}
+
+const goalVariants = [
+  (outcome: string, subject: string) => `Learners will demonstrate the ability to ${outcome} in realistic ${subject} contexts`,
+  (outcome: string) => `Students will be able to ${outcome} independently and explain the choices they make`,
+  (outcome: string, subject: string) => `Participants will ${outcome} using appropriate ${subject} tools and practices`
+]
+
+const strategyVariants = [
+  (outcome: string, subject: string) => [
+    { title: 'Practice Check-In', description: `Consider a short formative activity where learners ${outcome}, with peer feedback before moving on.` },
+    { title: 'Applied Project', description: `Options might include a small ${subject} project that shows learners can ${outcome}, reviewed against a simple rubric.` }
+  ],
+  (outcome: string) => [
+    { title: 'Worked Example Review', description: `Learners could annotate a worked example and explain how it shows the ability to ${outcome}.` },
+    { title: null, description: `A brief reflection at the end of the session could ask learners where they would ${outcome} next.` }
+  ],
+  (outcome: string, subject: string) => [
+    { title: 'Scenario Challenge', description: `Consider a realistic ${subject} scenario in which learners must ${outcome} and justify their approach.` },
+    { title: 'Peer Critique', description: `Learners might swap work and give structured feedback on how well each attempt meets the goal.` }
+  ]
+]
+
+// Components quote the description, as the prompts ask; the audience is never stated in these
+const objectiveComponents = (behavior: string, condition: string | null, degree: string | null) =>
+  ({ audience: null, behavior, condition, degree })
+
+const objectiveVariants = [
+  (outcome: string, subject: string) => ({
+    bloomLevel: 'Apply',
+    description: `Use ${subject} techniques to ${outcome} in a guided exercise`,
+    components: objectiveComponents(`Use ${subject} techniques to ${outcome}`, 'in a guided exercise', null)
+  }),
+  (outcome: string) => ({
+    bloomLevel: 'Analyze',
+    description: `Compare two approaches to ${outcome} and explain which better fits a given scenario`,
+    components: objectiveComponents(`Compare two approaches to ${outcome} and explain which better fits a given scenario`, null, null)
+  }),
+  (outcome: string) => ({
+    bloomLevel: 'Evaluate',
+    description: `Judge the quality of a peer's attempt to ${outcome} against agreed criteria`,
+    components: objectiveComponents(`Judge the quality of a peer's attempt to ${outcome}`, null, 'against agreed criteria')
+  })
+]
+
+function buildResponse(request: PromptRequest): unknown {
+  const subject = request.payload.context.courseSubject
+
+  switch (request.type) {
+    case 'refine-goals':
+      return {
+        goals: request.payload.goals.map((goal, index) => ({
+          goal: index + 1,
+          description: `Students will be able to ${toOutcome(goal)}, applying it to realistic ${subject} tasks such as guided practice or a short project`
+        }))
+      }
+
+    case 'generate-assessments':
+      return {
+        assessments: request.payload.goals.map((goal, index) => ({
+          goal: index + 1,
+          strategies: strategyVariants[0](toOutcome(goal), subject)
+        }))
+      }
+
+    case 'generate-objectives':
+      return {
+        objectives: request.payload.goals.flatMap((goal, index) =>
+          objectiveVariants.slice(0, 2).map(variant => ({ goal: index + 1, ...variant(toOutcome(goal), subject) }))
+        )
+      }
+
+    case 'regenerate-goal':
+    case 'regenerate-assessment':
+    case 'regenerate-objective': {
+      const { framework, goal, count } = request.payload
+      const outcome = toOutcome(request.type === 'regenerate-objective'
+        ? request.payload.objective.description
+        : framework.goals[goal - 1])
+      const alternatives = Array.from({ length: count }, (_, index) => {
+        if (request.type === 'regenerate-goal') return { description: goalVariants[index % goalVariants.length](outcome, subject) }
+        if (request.type === 'regenerate-assessment') return { strategies: strategyVariants[(index + 1) % strategyVariants.length](outcome, subject) }
+        return objectiveVariants[(index + 1) % objectiveVariants.length](outcome, subject)
+      })
+      return { alternatives }
+    }
+
+    case 'revise-item': {
+      const { kind, goal, current, bloomLevel, feedback } = request.payload
+      const trimmedFeedback = feedback.trim().replace(/[.\s]+$/, '')
+      const note = trimmedFeedback ? `, with attention to: ${trimmedFeedback.charAt(0).toLowerCase() + trimmedFeedback.slice(1)}` : ''
+
+      if (kind === 'goal') {
+        return { revised: { description: `${goal.trim().replace(/[.\s]+$/, '')}${note}` } }
+      }
+      if (kind === 'objective') {
+        return { revised: { bloomLevel: bloomLevel ?? 'Apply', description: `${current.trim().replace(/[.\s]+$/, '')}${note}` } }
+      }
+      return {
+        revised: {
+          strategies: strategyVariants[0](toOutcome(goal), subject).map(strategy => ({
+            ...strategy,
+            description: `${strategy.description.replace(/[.\s]+$/, '')}${note}.`
+          }))
+        }
+      }
+    }
+  }
+}
+
+async function emitInChunks(text: string, onText: StreamListener, chunkDelayMs: number, signal?: AbortSignal): Promise<void> {
+  for (let end = CHUNK_SIZE; end < text.length + CHUNK_SIZE; end += CHUNK_SIZE) {
+    await sleep(chunkDelayMs, signal)
+    onText(text.slice(0, end))
+  }
+}
+
+/**
+ * Provider that needs no network or key; the same request always gets the same response
+ */
+export function createMockProvider({ latencyMs = 600, chunkDelayMs = 40 }: MockProviderOptions = {}): AIProvider {
+  return {
+    id: 'mock',
+    label: 'Offline demo (canned responses)',
+    complete: async (request) => {
+      const { type, onText, signal } = request
+      // Checked the same way as the Netlify Function, so payload bugs show up offline too
+      const validation = validatePromptRequest(type, request.payload)
+      if (!validation.success) {
+        throw createInvalidPayloadError(type, validation.issues, validation.userMessage)
+      }
+
+      // Answer the normalized request, as a real provider would build its prompt from it
+      const text = JSON.stringify(buildResponse(validation.request), null, 2)
+      await sleep(latencyMs, signal)
+      if (onText) {
+        await emitInChunks(text, onText, chunkDelayMs, signal)
+      }
+      // The system prompt is part of what a real model would be billed for
+      const { prompt, system = '', version } = buildPrompt(validation.request)
+      return {
+        text,
+        truncated: false,
+        promptVersion: version,
+        model: 'mock',
+        usage: {
+          inputTokens: Math.ceil((system.length + prompt.length) / CHARS_PER_TOKEN),
+          outputTokens: Math.ceil(text.length / CHARS_PER_TOKEN)
+        }
+      }
+    }
+  }
+}
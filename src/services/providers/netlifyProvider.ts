@@ -0,0 +1,83 @@
+// Calls the app's own Netlify Function, which keeps the API key and the prompt templates on the server
+import { readServerSentEvents } from './serverSentEvents'
+import { createInvalidResponseError, createResponseError, createStreamInterruptedError, readRetryAfter } from './errors'
+import type { AICompletion, AIProvider, StreamListener } from './types'
+import type { TokenUsage } from '../../types'
+
+const FUNCTION_URL = '/.netlify/functions/ai-request'
+
+// Identifies this tab to the function's per-session rate limit
+const SESSION_ID = globalThis.crypto?.randomUUID?.() ?? `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`
+
+// Older deployments only send `response`, and never report truncation or usage
+function readCompletion(
+  payload: { response?: string, truncated?: boolean, stopReason?: string, promptVersion?: string, cached?: boolean, model?: string, usage?: TokenUsage },
+  type: string
+): AICompletion {
+  if (!payload.response) throw createInvalidResponseError(type, payload)
+  return {
+    text: payload.response,
+    truncated: payload.truncated ?? payload.stopReason === 'max_tokens',
+    promptVersion: payload.promptVersion,
+    cached: payload.cached === true,
+    model: payload.model,
+    usage: payload.usage
+  }
+}
+
+// Reads a streamed completion, reporting the accumulated text after every chunk
+async function readStreamedResponse(body: ReadableStream<Uint8Array>, type: string, onText: StreamListener): Promise<AICompletion> {
+  let text = ''
+
+  for await (const { event, data } of readServerSentEvents(body)) {
+    const payload = JSON.parse(data)
+    if (event === 'delta') {
+      text += payload.text ?? ''
+      onText(text)
+    } else if (event === 'done') {
+      return readCompletion(payload, type)
+    } else if (event === 'error') {
+      throw createResponseError(payload.statusCode ?? 500, payload.error ?? 'Stream error', payload, type)
+    }
+  }
+
+  throw createStreamInterruptedError(type, text.length)
+}
+
+/**
+ * Provider for the deployed app. Streams when asked to; older deployments that
+ * answer with plain JSON are still accepted.
+ */
+export function createNetlifyProvider(): AIProvider {
+  return {
+    id: 'netlify',
+    label: 'Netlify Function',
+    complete: async ({ type, payload, onText, signal, bypassCache }) => {
+      const response = await fetch(FUNCTION_URL, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Session-Id': SESSION_ID
+        },
+        body: JSON.stringify({
+          type,
+          payload,
+          ...(onText ? { stream: true } : {}),
+          ...(bypassCache ? { regenerate: true } : {})
+        }),
+        signal
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: 'Unknown server error' }))
+        throw createResponseError(response.status, response.statusText, { ...errorData, retryAfterMs: readRetryAfter(response) }, type)
+      }
+
+      if (onText && response.body && response.headers.get('Content-Type')?.includes('text/event-stream')) {
+        return readStreamedResponse(response.body, type, onText)
+      }
+
+      return readCompletion(await response.json(), type)
+    }
+  }
+}
@@ -0,0 +1,114 @@
+// Calls any server that implements the OpenAI chat completions API, e.g. Ollama, LM Studio or vLLM
+import { readServerSentEvents } from './serverSentEvents'
+import { createInvalidPayloadError, createInvalidResponseError, createResponseError, createStreamInterruptedError, readRetryAfter } from './errors'
+import { buildPrompt, OPERATIONS, validatePromptRequest } from '../prompts'
+import type { AICompletion, AIProvider, StreamListener } from './types'
+import type { TokenUsage } from '../../types'
+
+export interface OpenAICompatibleProviderOptions {
+  // API root, e.g. http://localhost:11434/v1
+  baseUrl: string
+  model: string
+  // Local servers usually don't need one
+  apiKey?: string
+  // Replaces the per-operation output limit for every request
+  maxTokens?: number
+}
+
+// Servers that don't count tokens leave `usage` out, so the completion has none either
+function readUsage(usage: { prompt_tokens?: number, completion_tokens?: number } | null | undefined): TokenUsage | undefined {
+  return usage ? { inputTokens: usage.prompt_tokens ?? 0, outputTokens: usage.completion_tokens ?? 0 } : undefined
+}
+
+async function readStreamedCompletion(body: ReadableStream<Uint8Array>, type: string, onText: StreamListener): Promise<AICompletion> {
+  let text = ''
+  let finishReason: string | null = null
+  let model: string | undefined
+  let usage: TokenUsage | undefined
+
+  for await (const { data } of readServerSentEvents(body)) {
+    if (data === '[DONE]') return { text, truncated: finishReason === 'length', model, usage }
+
+    const payload = JSON.parse(data)
+    if (payload.error) {
+      throw createResponseError(500, 'Stream error', { error: payload.error.message }, type)
+    }
+
+    model = payload.model ?? model
+    // Sent in a final chunk with no choices, when `stream_options.include_usage` is honoured
+    usage = readUsage(payload.usage) ?? usage
+    finishReason = payload.choices?.[0]?.finish_reason ?? finishReason
+    const delta = payload.choices?.[0]?.delta?.content
+    if (delta) {
+      text += delta
+      onText(text)
+    }
+  }
+
+  // Some servers close the stream without sending [DONE]
+  if (text) return { text, truncated: finishReason === 'length', model, usage }
+  throw createStreamInterruptedError(type, text.length)
+}
+
+/**
+ * Provider for a locally hosted model
+ */
+export function createOpenAICompatibleProvider({ baseUrl, model, apiKey, maxTokens }: OpenAICompatibleProviderOptions): AIProvider {
+  return {
+    id: 'openai-compatible',
+    label: `OpenAI-compatible (${model})`,
+    complete: async (request) => {
+      const { type, onText, signal } = request
+      // With no server in between, the payload is screened here the way the Netlify Function would
+      const validation = validatePromptRequest(type, request.payload)
+      if (!validation.success) {
+        throw createInvalidPayloadError(type, validation.issues, validation.userMessage)
+      }
+      const { prompt, system, version } = buildPrompt(validation.request)
+      const operation = OPERATIONS[type]
+      const messages = [
+        ...(system ? [{ role: 'system', content: system }] : []),
+        { role: 'user', content: prompt }
+      ]
+
+      const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {})
+        },
+        body: JSON.stringify({
+          model,
+          max_tokens: maxTokens ?? operation.maxTokens,
+          ...(operation.temperature !== undefined ? { temperature: operation.temperature } : {}),
+          messages,
+          ...(onText ? { stream: true, stream_options: { include_usage: true } } : {})
+        }),
+        signal
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw createResponseError(response.status, response.statusText, { error: errorData.error?.message, retryAfterMs: readRetryAfter(response) }, type)
+      }
+
+      if (onText && response.body && response.headers.get('Content-Type')?.includes('text/event-stream')) {
+        return { ...await readStreamedCompletion(response.body, type, onText), promptVersion: version }
+      }
+
+      const data = await response.json()
+      const text = data.choices?.[0]?.message?.content
+      if (!text) {
+        throw createInvalidResponseError(type, data)
+      }
+
+      return {
+        text,
+        truncated: data.choices[0].finish_reason === 'length',
+        promptVersion: version,
+        model: data.model ?? model,
+        usage: readUsage(data.usage)
+      }
+    }
+  }
+}
@@ -0,0 +1,51 @@
+// Minimal reader for the server-sent events the AI function streams back
+
+export interface ServerSentEvent {
+  event: string
+  data: string
+}
+
+function parseEvent(block: string): ServerSentEvent | null {
+  let event = 'message'
+  const data: string[] = []
+
+  for (const line of block.split('\n')) {
+    if (line.startsWith('event:')) {
+      event = line.slice(6).trim()
+    } else if (line.startsWith('data:')) {
+      data.push(line.slice(5).replace(/^ /, ''))
+    }
+  }
+
+  return data.length > 0 ? { event, data: data.join('\n') } : null
+}
+
+/**
+ * Yields each event from a `text/event-stream` response body as it arrives
+ */
+export async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n')
+      const blocks = buffer.split('\n\n')
+      buffer = blocks.pop() ?? ''
+
+      for (const block of blocks) {
+        const parsed = parseEvent(block)
+        if (parsed) yield parsed
+      }
+    }
+
+    const last = parseEvent(buffer + decoder.decode())
+    if (last) yield last
+  } finally {
+    reader.releaseLock()
+  }
+}
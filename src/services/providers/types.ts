@@ -0,0 +1,43 @@
+// Shared contract for the services that turn a request into AI-generated text
+import type { PromptRequest } from '../prompts'
+import type { TokenUsage } from '../../types'
+
+/**
+ * Receives the full text generated so far each time a streamed chunk arrives
+ */
+export type StreamListener = (partialText: string) => void
+
+// A structured request (operation name plus payload); providers either send it to a server that
+// builds the prompt or build it themselves with `buildPrompt`
+export type AIRequest = PromptRequest & {
+  // Asks for a streamed response when the provider supports it
+  onText?: StreamListener
+  signal?: AbortSignal
+  // Skips any server-side response cache
+  bypassCache?: boolean
+}
+
+export interface AICompletion {
+  text: string
+  // True when the model stopped at its output token limit, so the text is probably cut off
+  truncated: boolean
+  // Prompt template that produced the text, e.g. "refine-goals@1"
+  promptVersion?: string
+  // True when an earlier response to an identical request was returned instead of a new one
+  cached?: boolean
+  // Model that answered and the tokens it was billed for, when the provider reports them
+  model?: string
+  usage?: TokenUsage
+}
+
+export type AIProviderId = 'netlify' | 'anthropic' | 'openai-compatible' | 'mock'
+
+/**
+ * A source of AI completions. `complete` resolves with the full response text and
+ * whether it was truncated, and rejects with an AppError when the request fails.
+ */
+export interface AIProvider {
+  id: AIProviderId
+  label: string
+  complete: (request: AIRequest) => Promise<AICompletion>
+}
@@ -0,0 +1,68 @@
+// Session cache for AI responses, so re-running a step with unchanged inputs returns the
+// earlier answer instead of paying for an identical completion. Cleared when the tab closes.
+//
+// The Netlify Function builds prompts from its own templates, which may be newer than this
+// bundle's, so entries are keyed on the template version each response reports and lookups
+// use the version the latest response of that type came back with.
+import { createCacheKey, type PromptRequest, type PromptType } from './prompts'
+import type { AICompletion } from './providers'
+
+const CACHE_STORAGE_KEY = 'rvtlo2:ai-cache'
+const MAX_ENTRIES = 20
+
+interface CacheEntry {
+  type: PromptType
+  key: string
+  completion: AICompletion
+  storedAt: string
+}
+
+// Also held in memory so caching still works when storage is blocked (e.g. LMS iframes)
+let entries: CacheEntry[] | null = null
+
+function loadEntries(): CacheEntry[] {
+  if (entries) return entries
+
+  try {
+    const stored: unknown = JSON.parse(sessionStorage.getItem(CACHE_STORAGE_KEY) ?? '[]')
+    entries = Array.isArray(stored) ? stored : []
+  } catch (error) {
+    console.warn('Unable to read AI response cache:', error)
+    entries = []
+  }
+  return entries
+}
+
+function saveEntries(next: CacheEntry[]): void {
+  entries = next
+
+  try {
+    sessionStorage.setItem(CACHE_STORAGE_KEY, JSON.stringify(next))
+  } catch (error) {
+    console.warn('Unable to save AI response cache:', error)
+  }
+}
+
+/**
+ * Returns the response stored for a request, if any
+ */
+export function readCachedResponse(request: PromptRequest): AICompletion | null {
+  const stored = loadEntries()
+  const promptVersion = [...stored].reverse().find(entry => entry.type === request.type)?.completion.promptVersion
+  if (!promptVersion) return null
+
+  const key = createCacheKey(request, promptVersion)
+  return stored.find(entry => entry.key === key)?.completion ?? null
+}
+
+/**
+ * Stores a response, replacing any earlier one for the same key and dropping the oldest beyond
+ * the limit. Responses that don't say which template produced them are not cached.
+ */
+export function writeCachedResponse(request: PromptRequest, completion: AICompletion): void {
+  if (!completion.promptVersion) return
+
+  const key = createCacheKey(request, completion.promptVersion)
+  const entry: CacheEntry = { type: request.type, key, completion: { ...completion, cached: false }, storedAt: new Date().toISOString() }
+  saveEntries([...loadEntries().filter(existing => existing.key !== key), entry].slice(-MAX_ENTRIES))
+}
@@ -1,8 +1,16 @@
+// Revised Bloom's Taxonomy levels, in order from lower- to higher-order thinking
+export const BLOOM_LEVELS = ['Remember', 'Understand', 'Apply', 'Analyze', 'Evaluate', 'Create'] as const
+
+export type BloomLevel = typeof BLOOM_LEVELS[number]
+
 // Core data interfaces
 export interface Goal {
   id: number
   description: string
   isRefined?: boolean
+  // Prompt template that last rewrote it, e.g. "refine-goals@1" or "revise-item@1";
+  // absent for goals the user wrote
+  promptVersion?: string
 }
 
 export interface Assessment {
@@ -10,14 +18,34 @@ export interface Assessment {
   goalId: number
   description: string
   isRefined?: boolean
+  // Prompt template that suggested the strategies, e.g. "generate-assessments@1" or
+  // "regenerate-assessment@1"; absent when the user wrote them
+  promptVersion?: string
+}
+
+// The ABCD parts of an objective (Audience, Behavior, Condition, Degree), each in the
+// objective's own wording. Any part the objective doesn't state is left out.
+export interface ObjectiveComponents {
+  audience?: string
+  // The observable action, e.g. "label all fifty states"
+  behavior?: string
+  // The behavior's action verb on its own, lower-cased, e.g. "label"
+  verb?: string
+  condition?: string
+  // The measurable criterion, e.g. "with 90% accuracy"
+  degree?: string
 }
 
 export interface LearningObjective {
   id: number
   goalId: number
-  bloomLevel: string
+  bloomLevel: BloomLevel
   description: string
   assessmentAlignment: string
+  components?: ObjectiveComponents
+  // Prompt template that wrote it, e.g. "generate-objectives@1" or "regenerate-objective@1";
+  // absent for objectives the user added
+  promptVersion?: string
 }
 
 // Application flow types - Streamlined 6-step workflow
@@ -29,6 +57,16 @@ export type Step =
   | 'review-objectives' 
   | 'complete'
 
+// Define the step order for the streamlined workflow (6 steps)
+export const STEP_ORDER: Step[] = [
+  'intro',
+  'goals', 
+  'review-goals',
+  'assessments',
+  'review-objectives',
+  'complete'
+]
+
 export type CourseType = 'course' | 'workshop'
 
 export type StepStatus = 'completed' | 'active' | 'upcoming'
@@ -65,6 +103,7 @@ export interface AppState {
   approvedAssessments: Assessment[]
   refinedObjectives: LearningObjective[]
   approvedObjectives: LearningObjective[]
+  aiUsage: AIUsageEntry[]
   isRefining: boolean
   loadingMessage: string
   progress: number
@@ -74,6 +113,18 @@ export interface AppState {
 }
 
 // AI Service types
+export interface TokenUsage {
+  inputTokens: number
+  outputTokens: number
+}
+
+// Running token totals for one operation and model, kept with each framework
+export interface AIUsageEntry extends TokenUsage {
+  operation: string
+  model: string
+  requests: number
+}
+
 export interface AIPromptContext {
   courseType: CourseType
   courseSubject: string
@@ -0,0 +1,124 @@
+import type { AIUsageEntry, TokenUsage } from '../types'
+
+/**
+ * Price of one model in US dollars per million tokens
+ */
+export interface TokenPrice {
+  input: number
+  output: number
+}
+
+// Keyed by model name prefix, so dated releases such as claude-3-7-sonnet-20250219 match.
+// List prices at the time of writing; deployments with other rates set VITE_AI_TOKEN_PRICES.
+export const DEFAULT_TOKEN_PRICES: Record<string, TokenPrice> = {
+  'claude-opus-4': { input: 15, output: 75 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+  'claude-3-7-sonnet': { input: 3, output: 15 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'claude-3-haiku': { input: 0.25, output: 1.25 },
+  'mock': { input: 0, output: 0 }
+}
+
+const OPERATION_LABELS: Record<string, string> = {
+  'refine-goals': 'Refine goals',
+  'generate-assessments': 'Assessment strategies',
+  'generate-objectives': 'Learning objectives',
+  'regenerate-goal': 'Regenerate goal',
+  'regenerate-assessment': 'Regenerate assessment',
+  'regenerate-objective': 'Regenerate objective',
+  'revise-item': 'Revise with feedback'
+}
+
+function isTokenPrice(value: unknown): value is TokenPrice {
+  if (!value || typeof value !== 'object') return false
+  const price = value as Record<string, unknown>
+  return typeof price.input === 'number' && price.input >= 0 && typeof price.output === 'number' && price.output >= 0
+}
+
+/**
+ * Reads the price table: the defaults plus any entries from VITE_AI_TOKEN_PRICES, a JSON object
+ * such as {"claude-sonnet-4": {"input": 3, "output": 15}}. Malformed entries are ignored.
+ */
+export function readTokenPrices(): Record<string, TokenPrice> {
+  const configured = import.meta.env.VITE_AI_TOKEN_PRICES
+  if (!configured) return DEFAULT_TOKEN_PRICES
+
+  try {
+    const parsed: unknown = JSON.parse(configured)
+    if (!parsed || typeof parsed !== 'object') throw new Error('expected a JSON object')
+    const overrides = Object.entries(parsed).filter((entry): entry is [string, TokenPrice] => isTokenPrice(entry[1]))
+    return { ...DEFAULT_TOKEN_PRICES, ...Object.fromEntries(overrides) }
+  } catch (error) {
+    console.warn('Ignoring invalid VITE_AI_TOKEN_PRICES:', error)
+    return DEFAULT_TOKEN_PRICES
+  }
+}
+
+/**
+ * Finds the price for a model, preferring the longest matching prefix
+ */
+export function findTokenPrice(model: string, prices: Record<string, TokenPrice>): TokenPrice | null {
+  const match = Object.keys(prices)
+    .filter(prefix => model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0]
+  return match ? prices[match] : null
+}
+
+/**
+ * Estimated cost in US dollars, or null when the model has no known price
+ */
+export function estimateCost(usage: TokenUsage & { model: string }, prices: Record<string, TokenPrice>): number | null {
+  const price = findTokenPrice(usage.model, prices)
+  if (!price) return null
+  return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000
+}
+
+/**
+ * Adds one request's tokens to the running totals for its operation and model
+ */
+export function addUsage(entries: AIUsageEntry[], operation: string, model: string, usage: TokenUsage): AIUsageEntry[] {
+  const existing = entries.find(entry => entry.operation === operation && entry.model === model)
+  if (!existing) {
+    return [...entries, { operation, model, requests: 1, ...usage }]
+  }
+
+  return entries.map(entry => entry === existing
+    ? {
+        ...entry,
+        requests: entry.requests + 1,
+        inputTokens: entry.inputTokens + usage.inputTokens,
+        outputTokens: entry.outputTokens + usage.outputTokens
+      }
+    : entry)
+}
+
+/**
+ * Structural check for usage read back from storage
+ */
+export function isAIUsageEntry(value: unknown): value is AIUsageEntry {
+  if (!value || typeof value !== 'object') return false
+  const entry = value as Record<string, unknown>
+  return (
+    typeof entry.operation === 'string' &&
+    typeof entry.model === 'string' &&
+    ['requests', 'inputTokens', 'outputTokens'].every(field => typeof entry[field] === 'number')
+  )
+}
+
+export function getOperationLabel(operation: string): string {
+  return OPERATION_LABELS[operation] ?? operation
+}
+
+export function formatTokens(count: number): string {
+  return count.toLocaleString('en-US')
+}
+
+/**
+ * Formats a cost in dollars, keeping sub-cent amounts visible
+ */
+export function formatCost(cost: number | null): string {
+  if (cost === null) return '—'
+  if (cost > 0 && cost < 0.01) return '< $0.01'
+  return `$${cost.toFixed(2)}`
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest'
+import type { BloomLevel, Goal, LearningObjective } from '../types'
+import { buildAlignmentMatrix } from './alignment'
+import { formatAlignmentMatrixAsCsv } from './exportFramework'
+
+const goals: Goal[] = [
+  { id: 1, description: 'Interpret statistical results' },
+  { id: 2, description: '=HYPERLINK("http://example.com")' }
+]
+
+// Levels are passed as written in older saved frameworks, which the matrix still has to place
+const objective = (id: number, goalId: number, bloomLevel: string, description: string): LearningObjective => ({
+  id,
+  goalId,
+  bloomLevel: bloomLevel as BloomLevel,
+  description,
+  assessmentAlignment: ''
+})
+
+const objectives = [
+  objective(1, 1, 'Analyze', 'Compare two studies'),
+  objective(2, 1, 'apply', 'Calculate a p-value'),
+  objective(3, 1, 'Synthesis', 'Design a study'),
+  objective(5, 1, 'Mastery', 'Teach the method to a peer'),
+  objective(4, 2, 'Remember', 'List the test statistics')
+]
+
+const matrix = buildAlignmentMatrix({
+  approvedGoals: goals,
+  approvedAssessments: [{ id: 1, goalId: 1, description: 'Written report, "with a rubric"' }],
+  approvedObjectives: objectives
+})
+
+describe('buildAlignmentMatrix', () => {
+  it('places objectives under their level and labels them by goal', () => {
+    const [row] = matrix.rows
+    const labels = (level: string) => row.cells.find(cell => cell.level === level)?.objectives.map(item => item.label)
+
+    expect(labels('Analyze')).toEqual(['1.1'])
+    expect(labels('Apply')).toEqual(['1.2'])
+    expect(labels('Create')).toEqual(['1.3'])
+    expect(row.unclassified.map(item => item.label)).toEqual(['1.4'])
+    expect(row.missingLevels).toEqual(['Remember', 'Understand', 'Evaluate'])
+  })
+})
+
+describe('formatAlignmentMatrixAsCsv', () => {
+  const lines = formatAlignmentMatrixAsCsv(matrix).split('\r\n')
+
+  it('adds an Other Levels column only when needed', () => {
+    expect(lines[0]).toBe('Goal #,Goal,Remember,Understand,Apply,Analyze,Evaluate,Create,Other Levels,Assessment Strategies,Levels Without Objectives')
+  })
+
+  it('quotes cells with commas and quotes', () => {
+    expect(lines[1]).toContain('"Written report, ""with a rubric"""')
+  })
+
+  it('keeps cells that look like formulas from running', () => {
+    expect(lines[2].split(',')[1]).toBe('"\'=HYPERLINK(""http://example.com"")"')
+  })
+})
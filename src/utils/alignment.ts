@@ -0,0 +1,68 @@
+import { normalizeBloomLevel } from '../services/prompts'
+import { BLOOM_LEVELS, type BloomLevel, type Goal, type LearningObjective } from '../types'
+import { resolveStrategies, type ExportData, type StrategyItem } from './exportFramework'
+
+export interface AlignedObjective {
+  // Display label such as "2.1" (goal number, objective number within the goal)
+  label: string
+  objective: LearningObjective
+}
+
+export interface AlignmentCell {
+  level: BloomLevel
+  objectives: AlignedObjective[]
+}
+
+export interface AlignmentRow {
+  goal: Goal
+  goalNumber: number
+  cells: AlignmentCell[]
+  // Objectives whose Bloom level didn't match any known level, e.g. from a session saved
+  // before levels were checked
+  unclassified: AlignedObjective[]
+  strategies: StrategyItem[]
+  missingLevels: BloomLevel[]
+}
+
+export interface AlignmentMatrix {
+  levels: BloomLevel[]
+  rows: AlignmentRow[]
+}
+
+/**
+ * Build the goal × Bloom level alignment matrix for the approved framework
+ */
+export function buildAlignmentMatrix(
+  data: Pick<ExportData, 'approvedGoals' | 'approvedAssessments' | 'approvedObjectives' | 'parseAssessment'>
+): AlignmentMatrix {
+  const levels = [...BLOOM_LEVELS]
+
+  const rows = data.approvedGoals.map((goal, goalIndex): AlignmentRow => {
+    const goalObjectives = data.approvedObjectives
+      .filter(obj => obj.goalId === goal.id)
+      .map((objective, objIndex): AlignedObjective => ({
+        label: `${goalIndex + 1}.${objIndex + 1}`,
+        objective
+      }))
+
+    const cells = levels.map((level): AlignmentCell => ({
+      level,
+      objectives: goalObjectives.filter(item => normalizeBloomLevel(item.objective.bloomLevel) === level)
+    }))
+
+    const unclassified = goalObjectives.filter(item => !normalizeBloomLevel(item.objective.bloomLevel))
+
+    const assessment = data.approvedAssessments.find(a => a.goalId === goal.id)
+
+    return {
+      goal,
+      goalNumber: goalIndex + 1,
+      cells,
+      unclassified,
+      strategies: assessment ? resolveStrategies(assessment, data.parseAssessment) : [],
+      missingLevels: cells.filter(cell => cell.objectives.length === 0).map(cell => cell.level)
+    }
+  })
+
+  return { levels, rows }
+}
@@ -0,0 +1,64 @@
+// Storage for the API key used in static mode. The key stays in this tab unless the
+// user asks to remember it, in which case it is kept in localStorage on this device.
+
+const API_KEY_STORAGE_KEY = 'rvtlo2:anthropic-api-key'
+
+// Also held in memory so the key keeps working when storage is blocked (e.g. LMS iframes)
+let currentApiKey: string | null = null
+
+/**
+ * Reads the saved API key, preferring the one entered on this page
+ */
+export function loadApiKey(): string | null {
+  if (currentApiKey) return currentApiKey
+
+  try {
+    return sessionStorage.getItem(API_KEY_STORAGE_KEY) || localStorage.getItem(API_KEY_STORAGE_KEY) || null
+  } catch (error) {
+    console.warn('Unable to read API key:', error)
+    return null
+  }
+}
+
+/**
+ * Whether the saved API key is kept on this device between visits
+ */
+export function isApiKeyRemembered(): boolean {
+  try {
+    return localStorage.getItem(API_KEY_STORAGE_KEY) !== null
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Saves the API key for this tab, or on this device when `remember` is set.
+ * Returns false if it could only be kept until the page is closed.
+ */
+export function saveApiKey(apiKey: string, remember: boolean): boolean {
+  clearApiKey()
+  currentApiKey = apiKey.trim()
+
+  try {
+    const storage = remember ? localStorage : sessionStorage
+    storage.setItem(API_KEY_STORAGE_KEY, currentApiKey)
+    return true
+  } catch (error) {
+    console.warn('Unable to save API key:', error)
+    return false
+  }
+}
+
+/**
+ * Removes the API key from memory and from tab and device storage
+ */
+export function clearApiKey(): void {
+  currentApiKey = null
+
+  try {
+    sessionStorage.removeItem(API_KEY_STORAGE_KEY)
+    localStorage.removeItem(API_KEY_STORAGE_KEY)
+  } catch (error) {
+    console.warn('Unable to clear API key:', error)
+  }
+}
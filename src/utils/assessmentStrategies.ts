@@ -0,0 +1,174 @@
+import type { StrategyItem } from './exportFramework'
+
+// A strategy in the serialized "**Title**: description" form
+const TITLED_STRATEGY_PATTERN = /^\*\*([^*]+?)\*\*:\s*([\s\S]+)$/
+
+/**
+ * Serialize strategies into an assessment description: "**Title**: description" paragraphs
+ * separated by blank lines. This is the format parseAssessmentText reads back first.
+ */
+export function serializeAssessmentStrategies(strategies: { title?: string | null; description: string }[]): string {
+  return strategies
+    .filter(strategy => strategy.description.trim())
+    .map(strategy => {
+      const title = strategy.title?.trim()
+      const description = strategy.description.trim().replace(/\n\s*\n/g, '\n')
+      return title ? `**${title}**: ${description}` : description
+    })
+    .join('\n\n')
+}
+
+/**
+ * Parse assessment text and detect titles vs descriptions
+ */
+export function parseAssessmentText(description: string): StrategyItem[] {
+  if (!description || description.trim().length === 0) {
+    return []
+  }
+
+  let strategies: StrategyItem[] = []
+
+  // Method 0: Serialized strategies, one paragraph each (e.g. "**Title**: Description\n\nUntitled strategy")
+  const paragraphs = description.split(/\n\s*\n/).map(item => item.trim()).filter(Boolean)
+  if (paragraphs.length > 1 || TITLED_STRATEGY_PATTERN.test(paragraphs[0])) {
+    return paragraphs.map(paragraph => {
+      const titleMatch = paragraph.match(TITLED_STRATEGY_PATTERN)
+      return titleMatch
+        ? { title: titleMatch[1].trim(), description: titleMatch[2].trim() }
+        : { description: paragraph, isFullText: true }
+    })
+  }
+
+  // Method 1: Look for markdown titles followed by content (e.g., "**Title**: Description")
+  const markdownTitlePattern = /\*\s*\*\*([^*]+?)\*\*:\s*(.+?)(?=\*\s*\*\*[^*]+?\*\*:|$)/gs
+  const markdownMatches = Array.from(description.matchAll(markdownTitlePattern))
+
+  if (markdownMatches.length > 0) {
+    strategies = markdownMatches.map(match => ({
+      title: match[1].trim(),
+      description: match[2].trim()
+    }))
+  }
+
+  // Method 2: Look for simple title-colon-description pattern (e.g., "Title: Description")
+  if (strategies.length === 0) {
+    const titleColonPattern = /([^:]+?):\s*(.+?)(?=\n[^:]+?:|$)/gs
+    const titleColonMatches = Array.from(description.matchAll(titleColonPattern))
+
+    if (titleColonMatches.length > 0) {
+      strategies = titleColonMatches.map(match => ({
+        title: match[1].trim().replace(/\.$/, '').replace(/^\*+\s*|\*+$/g, ''), // Remove asterisks and periods
+        description: match[2].trim()
+      }))
+    }
+  }
+
+  // Method 3: Split on asterisk-separated strategies pattern
+  if (strategies.length === 0) {
+    // Look for patterns like "* **Title**: Description"
+    const asteriskStrategyPattern = /\*\s*\*\*([^*]+?)\*\*:\s*([^*]+?)(?=\*\s*\*\*|$)/gs
+    const asteriskStrategyMatches = Array.from(description.matchAll(asteriskStrategyPattern))
+
+    if (asteriskStrategyMatches.length > 0) {
+      strategies = asteriskStrategyMatches.map(match => ({
+        title: match[1].trim(),
+        description: match[2].trim()
+      }))
+    } else {
+      // Fallback: simple asterisk splitting
+      const asteriskParts = description
+        .split(/\s*\*\s*/)
+        .map(item => item.trim())
+        .filter(item => item.length > 10)
+
+      if (asteriskParts.length > 1) {
+        strategies = asteriskParts.map(part => {
+          // Check if this part has a title pattern
+          const titleMatch = part.match(/^\*\*([^*]+?)\*\*:\s*(.+)/)
+          if (titleMatch) {
+            return {
+              title: titleMatch[1].trim(),
+              description: titleMatch[2].trim()
+            }
+          }
+          return {
+            description: part.replace(/^\*+\s*/, ''), // Remove leading asterisks
+            isFullText: true
+          }
+        })
+      }
+    }
+  }
+
+  // Method 4: Split on numbered lists (1., 2., etc.)
+  if (strategies.length === 0) {
+    const numberedParts = description
+      .split(/\d+\.\s*/)
+      .map(item => item.trim())
+      .filter(item => item.length > 10)
+
+    if (numberedParts.length > 1) {
+      strategies = numberedParts.map(part => ({
+        description: part,
+        isFullText: true
+      }))
+    }
+  }
+
+  // Method 5: Split on bullet points (including • in middle of text)
+  if (strategies.length === 0) {
+    const bulletParts = description
+      .split(/\s*[•]\s*/)
+      .map(item => item.trim())
+      .filter(item => item.length > 15)
+
+    if (bulletParts.length > 1) {
+      strategies = bulletParts.map(part => ({
+        description: part,
+        isFullText: true
+      }))
+    }
+  }
+
+  // Method 6: Split on assessment action patterns (Consider, Students, Create, etc.)
+  if (strategies.length === 0) {
+    const actionParts = description
+      .split(/\.\s+(?=(?:Consider|Students|Create|Implement|Develop|A formative|Portfolio)\b)/)
+      .map(item => item.trim())
+      .filter(item => item.length > 20)
+      .map(item => item.endsWith('.') ? item : item + '.')
+
+    if (actionParts.length > 1) {
+      strategies = actionParts.map(part => ({
+        description: part,
+        isFullText: true
+      }))
+    }
+  }
+
+  // Method 7: Split on periods followed by capital letters (general sentence boundaries)
+  if (strategies.length === 0) {
+    const sentenceParts = description
+      .split(/\.\s+(?=[A-Z])/)
+      .map(item => item.trim())
+      .filter(item => item.length > 30)
+      .map(item => item.endsWith('.') ? item : item + '.')
+
+    if (sentenceParts.length > 1 && sentenceParts.length <= 5) { // Avoid too many tiny fragments
+      strategies = sentenceParts.map(part => ({
+        description: part,
+        isFullText: true
+      }))
+    }
+  }
+
+  // Fallback: Return the full description as a single strategy
+  if (strategies.length === 0) {
+    strategies = [{
+      description: description,
+      isFullText: true
+    }]
+  }
+
+  return strategies
+}
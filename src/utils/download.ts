@@ -0,0 +1,34 @@
+/**
+ * Browser file download helpers for framework exports
+ */
+
+/**
+ * Builds a filesystem-friendly export filename from the course subject
+ */
+export function createExportFilename(courseSubject: string, extension: string, suffix: string = 'backward-design'): string {
+  const slug = courseSubject
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .substring(0, 60)
+
+  return `${slug || 'framework'}-${suffix}.${extension}`
+}
+
+/**
+ * Triggers a download of the given blob using a temporary object URL
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.style.display = 'none'
+
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+
+  // Give the browser a moment to start the download before releasing the URL
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
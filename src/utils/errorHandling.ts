@@ -23,6 +23,7 @@ export const ErrorCategory = {
   DATA: 'data',
   PERMISSION: 'permission',
   TIMEOUT: 'timeout',
+  CANCELLED: 'cancelled',
   UNKNOWN: 'unknown'
 } as const
 
@@ -90,6 +91,11 @@ export function classifyError(error: Error | string): { category: ErrorCategory;
   const errorMessage = typeof error === 'string' ? error : error.message
   const lowerMessage = errorMessage.toLowerCase()
 
+  // Requests aborted by the user are not failures
+  if (typeof error !== 'string' && error.name === 'AbortError') {
+    return { category: ErrorCategory.CANCELLED, severity: ErrorSeverity.LOW }
+  }
+
   // Network related errors
   if (lowerMessage.includes('network') || lowerMessage.includes('fetch') || lowerMessage.includes('connection')) {
     return { category: ErrorCategory.NETWORK, severity: ErrorSeverity.MEDIUM }
@@ -162,11 +168,22 @@ export function generateUserMessage(category: ErrorCategory, severity: ErrorSeve
     case ErrorCategory.UI:
       return 'A display error occurred. Refreshing the page may help.'
     
+    case ErrorCategory.CANCELLED:
+      return 'The request was cancelled.'
+    
     default:
       return 'An unexpected error occurred. Please try again or refresh the page.'
   }
 }
 
+/**
+ * Check whether a value is already a standardized AppError
+ */
+export function isAppError(value: unknown): value is AppError {
+  return !!value && typeof value === 'object' &&
+    'id' in value && 'userMessage' in value && 'category' in value && 'retryable' in value
+}
+
 /**
  * Create a standardized AppError from various error types
  */
@@ -217,6 +234,29 @@ export function createReactError(
   })
 }
 
+/**
+ * Create error for an operation the user cancelled
+ */
+export function createCancellationError(context?: Record<string, unknown>): AppError {
+  return createAppError('Request cancelled', context, {
+    category: ErrorCategory.CANCELLED,
+    severity: ErrorSeverity.LOW,
+    userMessage: 'The request was cancelled.',
+    recoverable: true,
+    retryable: false
+  })
+}
+
+/**
+ * Check whether an error means the user cancelled the operation
+ */
+export function isCancellationError(error: unknown): boolean {
+  if (error && typeof error === 'object' && 'category' in error) {
+    return (error as AppError).category === ErrorCategory.CANCELLED
+  }
+  return error instanceof Error && error.name === 'AbortError'
+}
+
 /**
  * Error handling for async operations with automatic logging
  */
@@ -229,7 +269,10 @@ export async function handleAsyncError<T>(
     const data = await operation()
     return { success: true, data }
   } catch (error) {
-    const appError = createAppError(error as Error, context)
+    // Keep the classification of errors that are already AppErrors
+    const appError = isAppError(error)
+      ? { ...error, context: { ...context, ...error.context } }
+      : createAppError(error as Error, context)
     logger.logError(appError)
     return { success: false, error: appError }
   }
@@ -247,7 +290,10 @@ export function handleSyncError<T>(
     const data = operation()
     return { success: true, data }
   } catch (error) {
-    const appError = createAppError(error as Error, context)
+    // Keep the classification of errors that are already AppErrors
+    const appError = isAppError(error)
+      ? { ...error, context: { ...context, ...error.context } }
+      : createAppError(error as Error, context)
     logger.logError(appError)
     return { success: false, error: appError }
   }
@@ -310,6 +356,10 @@ export function getRecoverySuggestions(error: AppError): string[] {
       suggestions.push('Try using a different browser')
       break
     
+    case ErrorCategory.CANCELLED:
+      suggestions.push('Start the action again when you\'re ready')
+      break
+    
     default:
       suggestions.push('Refresh the page')
       suggestions.push('Try again in a few minutes')
@@ -351,6 +401,9 @@ export function formatErrorForUser(error: AppError): {
 export default {
   createAppError,
   createReactError,
+  createCancellationError,
+  isCancellationError,
+  isAppError,
   handleAsyncError,
   handleSyncError,
   isRetryableError,
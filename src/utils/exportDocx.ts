@@ -0,0 +1,98 @@
+import { Document, HeadingLevel, Packer, Paragraph, TextRun } from 'docx'
+import { describeObjectiveComponents, groupObjectivesByGoal, resolveStrategies, type ExportData } from './exportFramework'
+
+/**
+ * Build the backward design framework as a Word document, entirely in the browser.
+ * This module pulls in the docx library, so load it with a dynamic import.
+ */
+export async function formatFrameworkAsDocx(data: ExportData): Promise<Blob> {
+  const {
+    courseType,
+    courseSubject,
+    originalGoals,
+    approvedGoals,
+    approvedAssessments,
+    approvedObjectives,
+    parseAssessment
+  } = data
+
+  const labeled = (label: string, value: string) => new Paragraph({
+    children: [
+      new TextRun({ text: `${label}: `, bold: true }),
+      new TextRun(value)
+    ]
+  })
+
+  const children: Paragraph[] = [
+    new Paragraph({ text: 'Backward Design Framework', heading: HeadingLevel.TITLE }),
+    labeled('Type', courseType),
+    labeled('Subject', courseSubject),
+    labeled('Created', new Date().toLocaleDateString())
+  ]
+
+  // Original Goals
+  if (originalGoals && originalGoals.length > 0) {
+    children.push(new Paragraph({ text: 'Original Goals', heading: HeadingLevel.HEADING_1 }))
+    originalGoals.forEach((goal, index) => {
+      children.push(new Paragraph({ text: `${index + 1}. ${goal}` }))
+    })
+  }
+
+  // Refined Goals
+  children.push(new Paragraph({ text: 'Refined Learning Goals', heading: HeadingLevel.HEADING_1 }))
+  approvedGoals.forEach((goal, index) => {
+    children.push(new Paragraph({ text: `${index + 1}. ${goal.description}` }))
+  })
+
+  // Assessment Strategies
+  children.push(new Paragraph({ text: 'Assessment Strategies', heading: HeadingLevel.HEADING_1 }))
+  approvedAssessments.forEach((assessment, index) => {
+    const relatedGoal = approvedGoals.find(g => g.id === assessment.goalId)
+    children.push(new Paragraph({ text: `Assessment ${index + 1}`, heading: HeadingLevel.HEADING_2 }))
+    children.push(labeled('Related Goal', relatedGoal?.description || 'N/A'))
+
+    resolveStrategies(assessment, parseAssessment).forEach((strategy) => {
+      const runs = strategy.title
+        ? [new TextRun({ text: `${strategy.title}: `, bold: true }), new TextRun(strategy.description)]
+        : [new TextRun(strategy.description)]
+      children.push(new Paragraph({ children: runs, bullet: { level: 0 } }))
+    })
+  })
+
+  // Learning Objectives, grouped by goal
+  children.push(new Paragraph({ text: 'Learning Objectives', heading: HeadingLevel.HEADING_1 }))
+  groupObjectivesByGoal(approvedObjectives).forEach((objectives, goalId) => {
+    const goal = approvedGoals.find(g => g.id === goalId)
+    if (!goal) return
+
+    children.push(new Paragraph({ text: goal.description, heading: HeadingLevel.HEADING_2 }))
+    objectives.forEach((obj) => {
+      children.push(new Paragraph({
+        children: [
+          new TextRun({ text: `[${obj.bloomLevel}] `, bold: true }),
+          new TextRun(obj.description)
+        ],
+        bullet: { level: 0 }
+      }))
+      const components = describeObjectiveComponents(obj)
+      if (components) {
+        children.push(new Paragraph({
+          children: [new TextRun({ text: components, italics: true })],
+          bullet: { level: 1 }
+        }))
+      }
+    })
+  })
+
+  children.push(new Paragraph({
+    children: [new TextRun({ text: 'Generated by Backward Design Framework Builder', italics: true })]
+  }))
+
+  const doc = new Document({
+    creator: 'Backward Design Framework Builder',
+    title: `Backward Design Framework: ${courseSubject}`,
+    sections: [{ children }]
+  })
+
+  return Packer.toBlob(doc)
+}
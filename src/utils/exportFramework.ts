@@ -1,4 +1,6 @@
 import type { Goal, Assessment, LearningObjective } from '../types'
+import type { AlignmentMatrix } from './alignment'
+import { hasMeasurableCriterion } from './objectiveComponents'
 
 export interface StrategyItem {
   title?: string
@@ -9,6 +11,8 @@ export interface StrategyItem {
 export interface ExportData {
   courseType: string
   courseSubject: string
+  targetAudience?: string
+  instructionDuration?: string
   originalGoals: string[]
   approvedGoals: Goal[]
   approvedAssessments: Assessment[]
@@ -16,6 +20,46 @@ export interface ExportData {
   parseAssessment?: (description: string) => StrategyItem[]
 }
 
+/**
+ * Split an assessment into strategies, falling back to the full description
+ */
+export function resolveStrategies(
+  assessment: Assessment,
+  parseAssessment?: (description: string) => StrategyItem[]
+): StrategyItem[] {
+  const strategies = parseAssessment ? parseAssessment(assessment.description) : []
+  return strategies.length > 0 ? strategies : [{ description: assessment.description, isFullText: true }]
+}
+
+/**
+ * Group objectives by goal ID, preserving their original order
+ */
+export function groupObjectivesByGoal(objectives: LearningObjective[]): Map<number, LearningObjective[]> {
+  const objectivesByGoal = new Map<number, LearningObjective[]>()
+  objectives.forEach(obj => {
+    if (!objectivesByGoal.has(obj.goalId)) {
+      objectivesByGoal.set(obj.goalId, [])
+    }
+    objectivesByGoal.get(obj.goalId)!.push(obj)
+  })
+  return objectivesByGoal
+}
+
+/**
+ * One-line summary of an objective's stored ABCD parts, or null when none were recorded
+ */
+export function describeObjectiveComponents(objective: LearningObjective): string | null {
+  const { components } = objective
+  if (!components) return null
+
+  return [
+    components.audience && `Audience: ${components.audience}`,
+    components.verb && `Verb: ${components.verb}`,
+    components.condition && `Condition: ${components.condition}`,
+    `Criterion: ${components.degree || 'not stated'}`
+  ].filter(Boolean).join(' · ')
+}
+
 /**
  * Format the backward design framework as clean Markdown
  */
@@ -88,13 +132,7 @@ export function formatFrameworkAsMarkdown(data: ExportData): string {
   markdown += `## Learning Objectives\n\n`
   
   // Group objectives by goal
-  const objectivesByGoal = new Map<number, LearningObjective[]>()
-  approvedObjectives.forEach(obj => {
-    if (!objectivesByGoal.has(obj.goalId)) {
-      objectivesByGoal.set(obj.goalId, [])
-    }
-    objectivesByGoal.get(obj.goalId)!.push(obj)
-  })
+  const objectivesByGoal = groupObjectivesByGoal(approvedObjectives)
 
   objectivesByGoal.forEach((objectives, goalId) => {
     const goal = approvedGoals.find(g => g.id === goalId)
@@ -102,6 +140,8 @@ export function formatFrameworkAsMarkdown(data: ExportData): string {
       markdown += `### ${goal.description}\n\n`
       objectives.forEach((obj) => {
         markdown += `- **[${obj.bloomLevel}]** ${obj.description}\n`
+        const components = describeObjectiveComponents(obj)
+        if (components) markdown += `  - *${components}*\n`
       })
       markdown += `\n`
     }
@@ -112,3 +152,226 @@ export function formatFrameworkAsMarkdown(data: ExportData): string {
 
   return markdown
 }
+
+/**
+ * Escape text for safe interpolation into HTML
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+const PRINT_STYLES = `
+  @page { margin: 2cm; }
+  body {
+    font-family: Georgia, 'Times New Roman', serif;
+    color: #222;
+    line-height: 1.5;
+    max-width: 800px;
+    margin: 0 auto;
+    padding: 1.5rem;
+  }
+  h1 { color: #CC0033; margin-bottom: 0.25rem; }
+  h2 {
+    color: #007FAC;
+    border-bottom: 2px solid #7DBFD6;
+    padding-bottom: 0.25rem;
+    margin-top: 2rem;
+    page-break-after: avoid;
+  }
+  h3 { margin-bottom: 0.25rem; page-break-after: avoid; }
+  .cover {
+    border: 2px solid #CC0033;
+    border-radius: 8px;
+    padding: 1rem 1.5rem;
+    margin-bottom: 1.5rem;
+  }
+  .cover dl { display: grid; grid-template-columns: max-content 1fr; gap: 0.25rem 1rem; margin: 0.75rem 0 0 0; }
+  .cover dt { font-weight: bold; }
+  .cover dd { margin: 0; }
+  .assessment, tr { page-break-inside: avoid; }
+  .related-goal { font-style: italic; color: #555; }
+  table { width: 100%; border-collapse: collapse; font-size: 0.95rem; }
+  th, td { border: 1px solid #bbb; padding: 0.4rem 0.6rem; text-align: left; vertical-align: top; }
+  th { background: #DEF0F9; }
+  thead { display: table-header-group; }
+  .bloom { white-space: nowrap; font-weight: bold; }
+  .components { display: block; margin-top: 0.2rem; font-size: 0.85rem; color: #555; }
+  footer { margin-top: 2rem; font-size: 0.85rem; color: #777; font-style: italic; }
+`
+
+/**
+ * Format the backward design framework as a standalone, print-styled HTML page
+ */
+export function formatFrameworkAsHtml(data: ExportData): string {
+  const {
+    courseType,
+    courseSubject,
+    targetAudience,
+    instructionDuration,
+    originalGoals,
+    approvedGoals,
+    approvedAssessments,
+    approvedObjectives,
+    parseAssessment
+  } = data
+
+  const coverRows: [string, string | undefined][] = [
+    ['Type', courseType],
+    ['Subject', courseSubject],
+    ['Audience', targetAudience],
+    ['Duration', instructionDuration],
+    ['Created', new Date().toLocaleDateString()]
+  ]
+
+  let body = `<section class="cover">\n`
+  body += `<h1>Backward Design Framework</h1>\n<dl>\n`
+  coverRows
+    .filter(([, value]) => value && value.trim())
+    .forEach(([label, value]) => {
+      body += `<dt>${label}</dt><dd>${escapeHtml(value!)}</dd>\n`
+    })
+  body += `</dl>\n</section>\n`
+
+  // Original Goals
+  if (originalGoals && originalGoals.length > 0) {
+    body += `<h2>Original Goals</h2>\n<ol>\n`
+    originalGoals.forEach(goal => {
+      body += `<li>${escapeHtml(goal)}</li>\n`
+    })
+    body += `</ol>\n`
+  }
+
+  // Refined Goals
+  body += `<h2>Refined Learning Goals</h2>\n<ol>\n`
+  approvedGoals.forEach(goal => {
+    body += `<li>${escapeHtml(goal.description)}</li>\n`
+  })
+  body += `</ol>\n`
+
+  // Assessment Strategies
+  body += `<h2>Assessment Strategies</h2>\n`
+  approvedAssessments.forEach((assessment, index) => {
+    const relatedGoal = approvedGoals.find(g => g.id === assessment.goalId)
+    body += `<section class="assessment">\n<h3>Assessment ${index + 1}</h3>\n`
+    body += `<p class="related-goal">Related goal: ${escapeHtml(relatedGoal?.description || 'N/A')}</p>\n<ul>\n`
+    resolveStrategies(assessment, parseAssessment).forEach(strategy => {
+      const title = strategy.title ? `<strong>${escapeHtml(strategy.title)}:</strong> ` : ''
+      body += `<li>${title}${escapeHtml(strategy.description)}</li>\n`
+    })
+    body += `</ul>\n</section>\n`
+  })
+
+  // Learning Objectives table
+  body += `<h2>Learning Objectives</h2>\n`
+  body += `<table>\n<thead><tr><th>Goal</th><th>Bloom Level</th><th>Objective</th></tr></thead>\n<tbody>\n`
+  groupObjectivesByGoal(approvedObjectives).forEach((objectives, goalId) => {
+    const goalIndex = approvedGoals.findIndex(g => g.id === goalId)
+    if (goalIndex === -1) return
+
+    objectives.forEach((obj, objIndex) => {
+      body += `<tr>`
+      if (objIndex === 0) {
+        body += `<td rowspan="${objectives.length}">${goalIndex + 1}. ${escapeHtml(approvedGoals[goalIndex].description)}</td>`
+      }
+      const components = describeObjectiveComponents(obj)
+      body += `<td class="bloom">${escapeHtml(obj.bloomLevel)}</td><td>${escapeHtml(obj.description)}`
+      body += `${components ? `<span class="components">${escapeHtml(components)}</span>` : ''}</td></tr>\n`
+    })
+  })
+  body += `</tbody>\n</table>\n`
+
+  body += `<footer>Generated by Backward Design Framework Builder</footer>\n`
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<title>Backward Design Framework: ${escapeHtml(courseSubject)}</title>
+<style>${PRINT_STYLES}</style>
+</head>
+<body>
+${body}</body>
+</html>
+`
+}
+
+/**
+ * Quote a value for CSV output (RFC 4180). Text starting with =, +, - or @ gets a leading
+ * apostrophe so spreadsheets show it as text instead of running it as a formula.
+ */
+function escapeCsv(value: string): string {
+  const text = /^[=+\-@]/.test(value) ? `'${value}` : value
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Format the goal × Bloom level alignment matrix as CSV for spreadsheets
+ */
+export function formatAlignmentMatrixAsCsv(matrix: AlignmentMatrix): string {
+  const hasUnclassified = matrix.rows.some(row => row.unclassified.length > 0)
+
+  const header = [
+    'Goal #',
+    'Goal',
+    ...matrix.levels,
+    ...(hasUnclassified ? ['Other Levels'] : []),
+    'Assessment Strategies',
+    'Levels Without Objectives'
+  ]
+
+  const rows = matrix.rows.map(row => [
+    String(row.goalNumber),
+    row.goal.description,
+    ...row.cells.map(cell => cell.objectives
+      .map(item => `${item.label} ${item.objective.description}`)
+      .join('\n')),
+    ...(hasUnclassified
+      ? [row.unclassified.map(item => `${item.label} [${item.objective.bloomLevel}] ${item.objective.description}`).join('\n')]
+      : []),
+    row.strategies.map(strategy => strategy.title || strategy.description).join('\n'),
+    row.missingLevels.join('; ')
+  ])
+
+  return [header, ...rows]
+    .map(columns => columns.map(escapeCsv).join(','))
+    .join('\r\n') + '\r\n'
+}
+
+/**
+ * Format every objective with its ABCD parts as CSV, one row per objective, so it can be
+ * filtered in a spreadsheet, e.g. for objectives without a measurable criterion
+ */
+export function formatObjectivesAsCsv(data: ExportData): string {
+  const header = ['Goal #', 'Goal', 'Bloom Level', 'Objective', 'Audience', 'Behavior', 'Action Verb', 'Condition', 'Criterion', 'Has Criterion']
+
+  const rows: string[][] = []
+  groupObjectivesByGoal(data.approvedObjectives).forEach((objectives, goalId) => {
+    const goalIndex = data.approvedGoals.findIndex(g => g.id === goalId)
+    if (goalIndex === -1) return
+
+    objectives.forEach(obj => {
+      const components = obj.components ?? {}
+      rows.push([
+        String(goalIndex + 1),
+        data.approvedGoals[goalIndex].description,
+        obj.bloomLevel,
+        obj.description,
+        components.audience ?? '',
+        components.behavior ?? '',
+        components.verb ?? '',
+        components.condition ?? '',
+        components.degree ?? '',
+        hasMeasurableCriterion(obj) ? 'Yes' : 'No'
+      ])
+    })
+  })
+
+  return [header, ...rows]
+    .map(columns => columns.map(escapeCsv).join(','))
+    .join('\r\n') + '\r\n'
+}
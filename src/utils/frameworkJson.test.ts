@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest'
+import { createFrameworkDocument, getImportProblems, parseFrameworkDocument, serializeFrameworkDocument } from './frameworkJson'
+import { createEmptyPersistedState, type PersistedState } from './persistence'
+
+const goal = { id: 1, description: 'Interpret a confidence interval', isRefined: true }
+
+const state: PersistedState = {
+  ...createEmptyPersistedState(),
+  currentStep: 'complete',
+  courseType: 'course',
+  courseSubject: 'Statistics',
+  targetAudience: 'First-year undergraduates',
+  instructionDuration: '12 weeks',
+  isSubjectConfirmed: true,
+  isSetupComplete: true,
+  goals: [{ id: 1, description: 'confidence intervals' }],
+  refinedGoals: [goal],
+  approvedGoals: [goal],
+  refinedAssessments: [{ id: 2, goalId: 1, description: 'Written report' }],
+  approvedAssessments: [{ id: 2, goalId: 1, description: 'Written report' }],
+  refinedObjectives: [],
+  approvedObjectives: [{ id: 3, goalId: 1, bloomLevel: 'Analyze', description: 'Compare two intervals', assessmentAlignment: 'Written report' }]
+}
+
+const exported = () => JSON.parse(serializeFrameworkDocument(createFrameworkDocument(state, 'STAT 101')))
+
+const problemsFor = (document: unknown) => {
+  const result = parseFrameworkDocument(JSON.stringify(document))
+  return result.success ? [] : getImportProblems(result.error)
+}
+
+describe('parseFrameworkDocument', () => {
+  it('restores an exported framework at its last step', () => {
+    const result = parseFrameworkDocument(JSON.stringify(exported()))
+    expect(result.success && result.data).toEqual({ ...state, refinedObjectives: state.approvedObjectives })
+  })
+
+  it('rejects text that is not JSON', () => {
+    const result = parseFrameworkDocument('{ not json')
+    expect(result.success).toBe(false)
+    expect(!result.success && getImportProblems(result.error)).toEqual([{ path: '(file)', message: 'could not be parsed as JSON' }])
+  })
+
+  it('reports a list the file is missing', () => {
+    expect(problemsFor({ ...exported(), approvedGoals: undefined })).toContainEqual({ path: 'approvedGoals', message: 'is missing' })
+  })
+
+  it('reports each broken entry by its path', () => {
+    const document = exported()
+    document.objectives[0].goalId = 9
+    document.assessments[0].description = ''
+
+    expect(problemsFor(document)).toEqual([
+      { path: 'assessments[0].description', message: 'must not be empty' },
+      { path: 'objectives[0].goalId', message: 'refers to goal 9, which is not in approvedGoals' }
+    ])
+  })
+
+  it('rejects files from a newer version', () => {
+    expect(problemsFor({ ...exported(), version: 99 })).toContainEqual({ path: 'version', message: '99 is newer than this app supports (1)' })
+  })
+})
@@ -0,0 +1,305 @@
+import { normalizeBloomLevel } from '../services/prompts'
+import { BLOOM_LEVELS, type Assessment, type BloomLevel, type CourseType, type Goal, type LearningObjective, type Step } from '../types'
+import { createAppError, ErrorCategory, ErrorSeverity, type AppError } from './errorHandling'
+import { readObjectiveComponents } from './objectiveComponents'
+import { extractPersistedState, type PersistedState } from './persistence'
+
+// Identifies our documents and their schema version; bump the version on breaking changes
+export const FRAMEWORK_DOCUMENT_SCHEMA = 'rvtlo2/framework'
+export const FRAMEWORK_DOCUMENT_VERSION = 1
+
+/**
+ * Machine-readable, versioned representation of a complete framework
+ */
+export interface FrameworkDocument {
+  schema: typeof FRAMEWORK_DOCUMENT_SCHEMA
+  version: number
+  metadata: {
+    exportedAt: string
+    generator: string
+    name?: string
+  }
+  setup: {
+    courseType: CourseType | null
+    courseSubject: string
+    targetAudience: string
+    instructionDuration: string
+  }
+  originalGoals: Goal[]
+  approvedGoals: Goal[]
+  assessments: Assessment[]
+  objectives: LearningObjective[]
+}
+
+/**
+ * A single problem found while validating an imported document
+ */
+export interface FieldProblem {
+  path: string
+  message: string
+}
+
+export type FrameworkImportResult =
+  | { success: true; data: PersistedState }
+  | { success: false; error: AppError }
+
+/**
+ * Build a framework document from the current state
+ */
+export function createFrameworkDocument(state: PersistedState, name?: string): FrameworkDocument {
+  return {
+    schema: FRAMEWORK_DOCUMENT_SCHEMA,
+    version: FRAMEWORK_DOCUMENT_VERSION,
+    metadata: {
+      exportedAt: new Date().toISOString(),
+      generator: 'Backward Design Framework Builder',
+      ...(name ? { name } : {})
+    },
+    setup: {
+      courseType: state.courseType,
+      courseSubject: state.courseSubject,
+      targetAudience: state.targetAudience,
+      instructionDuration: state.instructionDuration
+    },
+    originalGoals: state.goals,
+    approvedGoals: state.approvedGoals,
+    assessments: state.approvedAssessments,
+    objectives: state.approvedObjectives
+  }
+}
+
+/**
+ * Serialize a framework document as pretty-printed JSON
+ */
+export function serializeFrameworkDocument(document: FrameworkDocument): string {
+  return JSON.stringify(document, null, 2)
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+function readString(
+  record: Record<string, unknown>,
+  key: string,
+  path: string,
+  problems: FieldProblem[],
+  { required = true }: { required?: boolean } = {}
+): string {
+  const value = record[key]
+  if (value === undefined && !required) return ''
+  if (typeof value !== 'string') {
+    problems.push({ path: `${path}.${key}`, message: 'must be text' })
+    return ''
+  }
+  if (required && !value.trim()) {
+    problems.push({ path: `${path}.${key}`, message: 'must not be empty' })
+  }
+  return value
+}
+
+function readNumber(record: Record<string, unknown>, key: string, path: string, problems: FieldProblem[]): number {
+  const value = record[key]
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    problems.push({ path: `${path}.${key}`, message: 'must be a number' })
+    return NaN
+  }
+  return value
+}
+
+function readArray<T>(
+  record: Record<string, unknown>,
+  key: string,
+  problems: FieldProblem[],
+  readItem: (item: Record<string, unknown>, path: string) => T
+): T[] {
+  const value = record[key]
+  // Every export writes all four lists, so a missing one means the file is truncated or damaged
+  if (!Array.isArray(value)) {
+    problems.push({ path: key, message: value === undefined ? 'is missing' : 'must be a list' })
+    return []
+  }
+
+  return value.flatMap((item, index) => {
+    const path = `${key}[${index}]`
+    if (!isRecord(item)) {
+      problems.push({ path, message: 'must be an object' })
+      return []
+    }
+    return [readItem(item, path)]
+  })
+}
+
+// Levels written another way in older files or by hand ("Analysis", "Synthesis") are read as
+// their standard name
+function readBloomLevel(record: Record<string, unknown>, path: string, problems: FieldProblem[]): BloomLevel {
+  const value = readString(record, 'bloomLevel', path, problems)
+  const level = normalizeBloomLevel(value)
+  if (value.trim() && !level) {
+    problems.push({ path: `${path}.bloomLevel`, message: `must be one of ${BLOOM_LEVELS.join(', ')}` })
+  }
+  return level ?? BLOOM_LEVELS[0]
+}
+
+// The prompt template an item came from is kept when present; files from before it was recorded
+// simply don't have one
+const readPromptVersion = (item: Record<string, unknown>): { promptVersion?: string } =>
+  typeof item.promptVersion === 'string' && item.promptVersion ? { promptVersion: item.promptVersion } : {}
+
+function readGoal(item: Record<string, unknown>, path: string, problems: FieldProblem[]): Goal {
+  return {
+    id: readNumber(item, 'id', path, problems),
+    description: readString(item, 'description', path, problems),
+    ...(typeof item.isRefined === 'boolean' ? { isRefined: item.isRefined } : {}),
+    ...readPromptVersion(item)
+  }
+}
+
+/**
+ * Pick the furthest wizard step the imported content supports
+ */
+function resolveStep(state: Omit<PersistedState, 'currentStep'>): Step {
+  if (state.approvedObjectives.length > 0) return 'complete'
+  if (state.refinedAssessments.length > 0) return 'assessments'
+  if (state.refinedGoals.length > 0) return 'review-goals'
+  if (state.isSetupComplete && state.goals.length > 0) return 'goals'
+  return 'intro'
+}
+
+function createImportError(message: string, problems: FieldProblem[]): AppError {
+  return createAppError(
+    message,
+    { fieldErrors: problems, userInput: true },
+    {
+      category: ErrorCategory.VALIDATION,
+      severity: ErrorSeverity.LOW,
+      userMessage: message,
+      recoverable: true,
+      retryable: false
+    }
+  )
+}
+
+/**
+ * Validate a JSON framework document and convert it into restorable state.
+ * Problems are reported per field in the AppError context (`fieldErrors`).
+ */
+export function parseFrameworkDocument(text: string): FrameworkImportResult {
+  let raw: unknown
+  try {
+    raw = JSON.parse(text)
+  } catch {
+    return {
+      success: false,
+      error: createImportError('This file is not valid JSON.', [{ path: '(file)', message: 'could not be parsed as JSON' }])
+    }
+  }
+
+  if (!isRecord(raw)) {
+    return {
+      success: false,
+      error: createImportError('This file is not a framework export.', [{ path: '(document)', message: 'must be a JSON object' }])
+    }
+  }
+
+  const problems: FieldProblem[] = []
+
+  if (raw.schema !== FRAMEWORK_DOCUMENT_SCHEMA) {
+    problems.push({ path: 'schema', message: `must be "${FRAMEWORK_DOCUMENT_SCHEMA}"` })
+  }
+  if (typeof raw.version !== 'number') {
+    problems.push({ path: 'version', message: 'must be a number' })
+  } else if (raw.version > FRAMEWORK_DOCUMENT_VERSION) {
+    problems.push({ path: 'version', message: `${raw.version} is newer than this app supports (${FRAMEWORK_DOCUMENT_VERSION})` })
+  }
+
+  // Setup context
+  const setup = isRecord(raw.setup) ? raw.setup : {}
+  if (!isRecord(raw.setup)) {
+    problems.push({ path: 'setup', message: 'must be an object' })
+  }
+  const courseType = setup.courseType ?? null
+  if (courseType !== null && courseType !== 'course' && courseType !== 'workshop') {
+    problems.push({ path: 'setup.courseType', message: 'must be "course", "workshop" or null' })
+  }
+  const courseSubject = readString(setup, 'courseSubject', 'setup', problems, { required: false })
+  const targetAudience = readString(setup, 'targetAudience', 'setup', problems, { required: false })
+  const instructionDuration = readString(setup, 'instructionDuration', 'setup', problems, { required: false })
+
+  // Goals, assessments and objectives
+  const originalGoals = readArray(raw, 'originalGoals', problems, (item, path) => readGoal(item, path, problems))
+  const approvedGoals = readArray(raw, 'approvedGoals', problems, (item, path) => readGoal(item, path, problems))
+  const goalIds = new Set(approvedGoals.map(goal => goal.id))
+
+  const readGoalReference = (item: Record<string, unknown>, path: string): number => {
+    const goalId = readNumber(item, 'goalId', path, problems)
+    if (!Number.isNaN(goalId) && !goalIds.has(goalId)) {
+      problems.push({ path: `${path}.goalId`, message: `refers to goal ${goalId}, which is not in approvedGoals` })
+    }
+    return goalId
+  }
+
+  const assessments = readArray(raw, 'assessments', problems, (item, path): Assessment => ({
+    id: readNumber(item, 'id', path, problems),
+    goalId: readGoalReference(item, path),
+    description: readString(item, 'description', path, problems),
+    ...(typeof item.isRefined === 'boolean' ? { isRefined: item.isRefined } : {}),
+    ...readPromptVersion(item)
+  }))
+
+  const objectives = readArray(raw, 'objectives', problems, (item, path): LearningObjective => {
+    if (item.components !== undefined && !isRecord(item.components)) {
+      problems.push({ path: `${path}.components`, message: 'must be an object' })
+    }
+    const components = readObjectiveComponents(item.components)
+    return {
+      id: readNumber(item, 'id', path, problems),
+      goalId: readGoalReference(item, path),
+      bloomLevel: readBloomLevel(item, path, problems),
+      description: readString(item, 'description', path, problems),
+      assessmentAlignment: readString(item, 'assessmentAlignment', path, problems, { required: false }),
+      ...(components ? { components } : {}),
+      ...readPromptVersion(item)
+    }
+  })
+
+  if (problems.length > 0) {
+    const count = problems.length === 1 ? '1 problem' : `${problems.length} problems`
+    return {
+      success: false,
+      error: createImportError(`This framework file can't be imported: ${count} found.`, problems)
+    }
+  }
+
+  const restored: Omit<PersistedState, 'currentStep'> = {
+    courseType: courseType as CourseType | null,
+    courseSubject,
+    targetAudience,
+    instructionDuration,
+    isSubjectConfirmed: courseType !== null && courseSubject.trim().length > 0,
+    isSetupComplete: courseType !== null && courseSubject.trim().length > 0 && targetAudience.trim().length > 0 && instructionDuration.trim().length > 0,
+    goals: originalGoals,
+    currentGoal: '',
+    refinedGoals: approvedGoals,
+    approvedGoals,
+    refinedAssessments: assessments,
+    approvedAssessments: assessments,
+    refinedObjectives: objectives,
+    approvedObjectives: objectives,
+    // Usage belongs to the copy it was spent on; an imported framework starts with none
+    aiUsage: []
+  }
+
+  return {
+    success: true,
+    data: extractPersistedState({ ...restored, currentStep: resolveStep(restored) })
+  }
+}
+
+/**
+ * Extract the field-level problems attached to an import error
+ */
+export function getImportProblems(error: AppError): FieldProblem[] {
+  const fieldErrors = error.context?.fieldErrors
+  return Array.isArray(fieldErrors) ? fieldErrors as FieldProblem[] : []
+}
@@ -1,14 +1,5 @@
-import type { Step, Goal, Assessment, LearningObjective } from '../types'
-
-// Define the step order for the streamlined workflow (6 steps)
-export const STEP_ORDER: Step[] = [
-  'intro',
-  'goals', 
-  'review-goals',
-  'assessments',
-  'review-objectives',
-  'complete'
-]
+import { STEP_ORDER, type Step, type Goal, type Assessment, type LearningObjective, type AIUsageEntry } from '../types'
+import { clearSessionSnapshot } from './persistence'
 
 // Interface for the application state needed for navigation decisions
 export interface NavigationState {
@@ -42,6 +33,8 @@ export interface NavigationActions {
   setApprovedAssessments: (assessments: Assessment[]) => void
   setRefinedObjectives: (objectives: LearningObjective[]) => void
   setApprovedObjectives: (objectives: LearningObjective[]) => void
+  setAIUsage: (usage: AIUsageEntry[]) => void
+  setActiveFrameworkId: (id: string | null) => void
 }
 
 /**
@@ -96,9 +89,11 @@ export function navigateToStep(
 }
 
 /**
- * Resets the entire application state to initial values
+ * Resets the entire application state to initial values and forgets the saved session.
+ * The open library framework is detached (not deleted) so it isn't overwritten.
  */
 export function resetApplication(actions: NavigationActions): void {
+  clearSessionSnapshot()
   actions.setCurrentStep('intro')
   actions.setCourseType(null)
   actions.setCourseSubject('')
@@ -114,6 +109,8 @@ export function resetApplication(actions: NavigationActions): void {
   actions.setApprovedAssessments([])
   actions.setRefinedObjectives([])
   actions.setApprovedObjectives([])
+  actions.setAIUsage([])
+  actions.setActiveFrameworkId(null)
 }
 
 /**
@@ -0,0 +1,82 @@
+// ABCD objective builder (Audience, Behavior, Condition, Degree): the default sentence template
+// the builder's blanks come from, and helpers to pre-fill a template from an existing objective
+import { matchObjective, parseObjectiveTemplate, type TemplatePart, type TemplateValues } from '../services/prompts'
+
+// The builder's default template; see services/prompts/objectiveTemplate for the grammar
+export const ABCD_TEMPLATE = '{opener:After|At|Given|Upon|Without} {condition}, {audience} will {behavior} {degree}.'
+
+// Shown as a tooltip on each blank; keys match the placeholder names in the template, so
+// custom templates that reuse these names get the same guidance
+export const ABCD_GUIDANCE: Record<string, string> = {
+  condition: 'The circumstances of the demonstration: what learners will have, be denied, or the setting/timing. e.g. "a map", "the end of the semester"',
+  audience: 'Who the learners are. e.g. "students", "new hires"',
+  behavior: 'An observable, measurable action. e.g. "label all fifty states" — avoid "understand" or "know"',
+  degree: 'How well they must perform. e.g. "with 90% accuracy", "within five minutes"'
+}
+
+/**
+ * Parses a template for the builder. Saved templates are checked when they are stored, so the
+ * ABCD template is only a safety net here.
+ */
+export function getTemplateParts(template: string): TemplatePart[] {
+  const parsed = parseObjectiveTemplate(template)
+  if (parsed.success) return parsed.parts
+
+  const fallback = parseObjectiveTemplate(ABCD_TEMPLATE)
+  return fallback.success ? fallback.parts : []
+}
+
+// Keeps acronyms such as "ESL teachers" intact
+const lowerFirst = (text: string): string =>
+  /^[A-Z][a-z]/.test(text) ? text.charAt(0).toLowerCase() + text.slice(1) : text
+
+const CONDITION_PATTERN = /^(after|at|given|upon|without)\s+([^,]+),\s*/i
+const AUDIENCE_LEAD_IN_PATTERN = /^(students|learners|participants)\s+will\s+(be able to\s+)?/i
+const DEGREE_PATTERN = /\s+((with(in)?|to)\s+(at least\s+)?\d+\s*%[^,.]*|within\s+[^,.]+|with\s+(no|fewer than|at most|at least)\s+[^,.]+|without\s+(errors?|assistance|help)[^,.]*|(accurately|correctly|independently))\s*\.?$/i
+
+/**
+ * Pre-fills the ABCD blanks from an existing objective. The AI usually writes only the behavior,
+ * so a condition or degree is taken out of the text when it follows the usual phrasing and is
+ * otherwise left for the user to add.
+ */
+export function prefillAbcdValues(description: string, targetAudience: string): TemplateValues {
+  let behavior = description.trim().replace(/\.$/, '')
+  const values: TemplateValues = { audience: lowerFirst(targetAudience.trim()), condition: '', degree: '' }
+
+  const condition = behavior.match(CONDITION_PATTERN)
+  if (condition) {
+    const opener = condition[1].charAt(0).toUpperCase() + condition[1].slice(1).toLowerCase()
+    values.opener = opener
+    values.condition = condition[2].trim()
+    behavior = behavior.slice(condition[0].length)
+  }
+
+  behavior = behavior.replace(AUDIENCE_LEAD_IN_PATTERN, '')
+
+  const degree = behavior.match(DEGREE_PATTERN)
+  if (degree && degree.index) {
+    values.degree = degree[1].trim()
+    behavior = behavior.slice(0, degree.index)
+  }
+
+  values.behavior = lowerFirst(behavior.trim())
+  return values
+}
+
+/**
+ * Pre-fills a template's blanks from an existing objective: read straight back when the objective
+ * was written with this template, otherwise guessed with the ABCD rules above
+ */
+export function prefillTemplateValues(parts: TemplatePart[], description: string, targetAudience: string): TemplateValues {
+  const matched = description.trim() ? matchObjective(parts, description) : null
+  if (matched) return matched
+
+  const values = prefillAbcdValues(description, targetAudience)
+  // A guessed opener the template doesn't offer would leave its dropdown without a selection
+  parts.forEach(part => {
+    if (part.kind === 'choice' && values[part.name] && !part.choices.includes(values[part.name])) {
+      delete values[part.name]
+    }
+  })
+  return values
+}
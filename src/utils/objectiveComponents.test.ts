@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest'
+import { createObjectiveComponents, findActionVerb, readObjectiveComponents } from './objectiveComponents'
+
+describe('findActionVerb', () => {
+  it('skips lead-in wording before the action', () => {
+    expect(findActionVerb('Label all fifty states')).toBe('label')
+    expect(findActionVerb('be able to accurately identify, in order, the planets')).toBe('identify')
+  })
+})
+
+describe('createObjectiveComponents', () => {
+  it('keeps the known parts, adds the verb and joins the opener to the condition', () => {
+    expect(createObjectiveComponents({
+      audience: ' Students ',
+      behavior: 'Label all fifty states',
+      condition: 'a blank map',
+      opener: 'Given',
+      degree: null
+    })).toEqual({ audience: 'Students', behavior: 'Label all fifty states', verb: 'label', condition: 'given a blank map' })
+  })
+
+  it('returns undefined when no part is known', () => {
+    expect(createObjectiveComponents({ audience: ' ', degree: null, opener: 'After' })).toBeUndefined()
+  })
+})
+
+describe('readObjectiveComponents', () => {
+  it('drops malformed parts and prefers an explicit verb', () => {
+    expect(readObjectiveComponents({ behavior: 'Sketch a cell', degree: 90, verb: ' Draw ' }))
+      .toEqual({ behavior: 'Sketch a cell', verb: 'draw' })
+  })
+
+  it('ignores values that are not objects', () => {
+    expect(readObjectiveComponents(['audience'])).toBeUndefined()
+    expect(readObjectiveComponents('Students')).toBeUndefined()
+  })
+})
@@ -0,0 +1,79 @@
+// Structured ABCD parts stored on each learning objective, so exports can answer questions
+// like "which objectives lack a measurable criterion" without re-reading the sentence
+import type { LearningObjective, ObjectiveComponents } from '../types'
+import { prefillAbcdValues } from './objectiveBuilder'
+
+type ComponentKey = 'audience' | 'behavior' | 'condition' | 'degree'
+
+// Parts as they arrive from the AI or the builder; blank or missing parts are dropped.
+// The builder keeps a condition's opening word ("Given", "After") in its own dropdown.
+export type ComponentValues = Partial<Record<ComponentKey | 'opener', string | null | undefined>>
+
+const COMPONENT_KEYS: ComponentKey[] = ['audience', 'behavior', 'condition', 'degree']
+
+// Wording before the action itself, e.g. "be able to identify" or "accurately label"
+const BEHAVIOR_LEAD_IN_PATTERN = /^((be able to|demonstrate the ability to|successfully|accurately|correctly|independently)\s+)+/i
+
+/**
+ * The behavior from its action verb on, e.g. "identify" for "be able to identify"
+ */
+export const stripBehaviorLeadIn = (behavior: string): string => behavior.trim().replace(BEHAVIOR_LEAD_IN_PATTERN, '')
+
+/**
+ * The action verb a behavior starts with, lower-cased, e.g. "label" for "Label all fifty states"
+ */
+export function findActionVerb(behavior: string): string {
+  const [verb = ''] = stripBehaviorLeadIn(behavior).split(/\s+/)
+  return verb.replace(/[^A-Za-z-]/g, '').toLowerCase()
+}
+
+/**
+ * Builds the stored components from whatever parts are known, adding the behavior's verb.
+ * Returns undefined when no part is known.
+ */
+export function createObjectiveComponents(values: ComponentValues): ObjectiveComponents | undefined {
+  const components: ObjectiveComponents = {}
+  COMPONENT_KEYS.forEach(key => {
+    const value = values[key]?.trim()
+    if (value) components[key] = value
+  })
+
+  const opener = values.opener?.trim()
+  if (opener && components.condition) {
+    components.condition = `${opener.charAt(0).toLowerCase()}${opener.slice(1)} ${components.condition}`
+  }
+
+  const verb = components.behavior ? findActionVerb(components.behavior) : ''
+  if (verb) components.verb = verb
+
+  return Object.keys(components).length > 0 ? components : undefined
+}
+
+/**
+ * Works out the components of an objective typed as a plain sentence, using the same rules
+ * the ABCD builder pre-fills its blanks with
+ */
+export const deriveObjectiveComponents = (description: string, targetAudience: string): ObjectiveComponents | undefined =>
+  createObjectiveComponents(prefillAbcdValues(description, targetAudience))
+
+/**
+ * Whether the objective states how well learners must perform
+ */
+export const hasMeasurableCriterion = (objective: LearningObjective): boolean => Boolean(objective.components?.degree)
+
+/**
+ * Reads components from untrusted JSON, keeping only well-formed parts
+ */
+export function readObjectiveComponents(value: unknown): ObjectiveComponents | undefined {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return undefined
+  const record = value as Record<string, unknown>
+
+  const components = createObjectiveComponents(Object.fromEntries(
+    COMPONENT_KEYS.map(key => [key, typeof record[key] === 'string' ? record[key] : undefined])
+  ))
+  // A verb given explicitly wins over the one found in the behavior
+  if (components && typeof record.verb === 'string' && record.verb.trim()) {
+    components.verb = record.verb.trim().toLowerCase()
+  }
+  return components
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest'
+import type { BloomLevel, LearningObjective } from '../types'
+import { lintObjectives, replaceActionVerb } from './objectiveLinter'
+
+let nextId = 1
+
+const objective = (bloomLevel: BloomLevel, description: string, goalId = 1): LearningObjective => ({
+  id: nextId++,
+  goalId,
+  bloomLevel,
+  description,
+  assessmentAlignment: 'Lab report'
+})
+
+const kindsFor = (objectives: LearningObjective[]) =>
+  objectives.map(item => (lintObjectives(objectives).get(item.id) ?? []).map(issue => issue.kind))
+
+describe('lintObjectives', () => {
+  it('leaves out objectives with a measurable verb, a condition and a criterion', () => {
+    const objectives = [objective('Apply', 'Given a data set, calculate the mean with 90% accuracy')]
+    expect(lintObjectives(objectives).size).toBe(0)
+  })
+
+  it('flags verbs that cannot be observed and suggests ones for the level', () => {
+    const [issue] = [...lintObjectives([objective('Analyze', 'Develop an understanding of cell division')]).values()][0]
+    expect(issue).toMatchObject({ kind: 'unmeasurable-verb', phrase: 'develop an understanding of' })
+    expect(issue.suggestions).toEqual(['compare', 'contrast', 'differentiate', 'examine'])
+  })
+
+  it('flags a verb from another level, read from its British spelling', () => {
+    const issues = lintObjectives([objective('Remember', 'Analyse survey results using a spreadsheet correctly')])
+    expect([...issues.values()][0][0].message).toBe('"Analyze" is usually an Analyze verb, not Remember. Change the verb or the level.')
+  })
+
+  it('flags the second use of a verb within a goal and a compound behavior', () => {
+    expect(kindsFor([
+      objective('Remember', 'Given a map, label the rivers correctly'),
+      objective('Remember', 'Given a map, label the cities and explain their growth correctly'),
+      objective('Remember', 'Given a map, label the mountains correctly', 2)
+    ])).toEqual([[], ['duplicate-verb', 'compound-behavior'], []])
+  })
+
+  it('does not treat "compare and contrast" or a noun after "and" as two behaviors', () => {
+    expect(kindsFor([
+      objective('Analyze', 'Given two poems, compare and contrast their imagery accurately'),
+      objective('Analyze', 'Given lab results, analyze results and test data accurately')
+    ])).toEqual([[], []])
+  })
+
+  it('notes a missing condition and criterion', () => {
+    expect(kindsFor([objective('Create', 'Design a survey')])).toEqual([['missing-condition', 'missing-criterion']])
+  })
+})
+
+describe('replaceActionVerb', () => {
+  it('swaps the first use of a phrase and keeps its capital letter', () => {
+    expect(replaceActionVerb('Understand and understand again', 'understand', 'explain')).toBe('Explain and understand again')
+    expect(replaceActionVerb('Students will develop  an understanding of it', 'develop an understanding of', 'describe'))
+      .toBe('Students will describe it')
+  })
+
+  it('returns null when the phrase is not in the text', () => {
+    expect(replaceActionVerb('Label the map', 'identify', 'name')).toBeNull()
+  })
+})
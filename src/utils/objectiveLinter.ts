@@ -0,0 +1,188 @@
+// Checks objectives for the problems the objectives prompt asks the AI to avoid: verbs that
+// can't be observed, verbs that don't fit the chosen Bloom's level, the same verb twice in a
+// goal, a missing condition or criterion, and several behaviors packed into one objective.
+import { BLOOM_TAXONOMY, classifyBloomVerb, findBloomVerb, normalizeBloomLevel, toBaseVerb } from '../services/prompts'
+import type { BloomLevel, LearningObjective } from '../types'
+import { deriveObjectiveComponents, findActionVerb, hasMeasurableCriterion, stripBehaviorLeadIn } from './objectiveComponents'
+
+export type ObjectiveIssueKind =
+  | 'unmeasurable-verb'
+  | 'level-mismatch'
+  | 'duplicate-verb'
+  | 'compound-behavior'
+  | 'missing-condition'
+  | 'missing-criterion'
+
+export interface ObjectiveIssue {
+  kind: ObjectiveIssueKind
+  // Warnings are likely to weaken assessment; notes point out parts worth adding
+  severity: 'warning' | 'note'
+  message: string
+  // The verb or phrase the suggestions would replace, as written in the objective
+  phrase?: string
+  suggestions?: string[]
+}
+
+// Verbs for inner states nobody can watch a learner do. "Develop an understanding of" starts
+// with a Create verb, so these are matched as phrases before the verb is looked up.
+const UNMEASURABLE_PATTERN = /^(understand|know|appreciate|learn(\s+about)?|grasp|comprehend|realize|internalize|believe|(be|become)\s+(aware|familiar|exposed|acquainted)(\s+(of|with|to))?|(gain|develop|have)\s+(an?\s+|a\s+better\s+|a\s+deeper\s+)?(understanding|knowledge|awareness|appreciation|familiarity)(\s+of)?)\b/i
+
+// Verbs that are as often nouns ("analyze results and test data"), so a second one after "and"
+// isn't taken as a second behavior
+const NOUN_LIKE_VERBS = new Set(['test', 'plan', 'use', 'name', 'state', 'match', 'support', 'report', 'show', 'list', 'design', 'outline', 'label', 'rank', 'practice', 'build', 'select'])
+
+// Pairs taught as a single skill
+const SINGLE_SKILL_PAIRS = [/^compare\s+and\s+contrast\b/i]
+
+// Wording that usually sets the circumstances ("given a case study", "when documenting setup")
+const CONDITION_HINT_PATTERN = /\b(given|using|with(out)?\s+(the\s+)?(aid|help|use|access)\b|with\s+access\s+to|when|while|during|after|upon|in\s+(a|an)\s+(\w+\s+)?(setting|scenario|simulation|lab|laboratory|exercise|environment|case study|role-play))\b/i
+
+// Wording that usually sets how well ("with 90% accuracy", "within 10 minutes", "correctly")
+const CRITERION_HINT_PATTERN = /(\d+\s*(%|percent)|\b(within\s+\d+|with\s+(no|fewer than|at most|at least)\b|without\s+(errors?|assistance|help)|accurately|correctly|at\s+least\s+\w+|according\s+to|that\s+meets?|meeting\s+(the\s+)?\w+\s+(standards?|criteria|rubric)|scoring)\b)/i
+
+const SUGGESTION_COUNT = 4
+
+const isBloomVerb = (verb: string): boolean => classifyBloomVerb(verb) !== null
+
+const suggestVerbs = (level: BloomLevel | null, exclude: Set<string>): string[] =>
+  BLOOM_TAXONOMY[level ?? 'Understand'].verbs.filter(verb => !exclude.has(verb)).slice(0, SUGGESTION_COUNT)
+
+const withArticle = (word: string): string => `${/^[AEIOU]/i.test(word) ? 'an' : 'a'} ${word}`
+
+const quote = (text: string): string => `"${text.charAt(0).toUpperCase()}${text.slice(1)}"`
+
+interface ObjectiveBehavior {
+  // The behavior from its verb on
+  behavior: string
+  // The verb as written, and its base form
+  written: string
+  verb: string
+}
+
+function readBehavior(objective: LearningObjective): ObjectiveBehavior {
+  const components = objective.components ?? deriveObjectiveComponents(objective.description, '')
+  const behavior = stripBehaviorLeadIn(components?.behavior ?? objective.description)
+  // Taxonomy verbs can be two words, like "break down"
+  const verb = findBloomVerb(behavior) ?? toBaseVerb(components?.verb ?? findActionVerb(behavior))
+  const written = behavior.split(/\s+/).slice(0, verb.split(' ').length).join(' ')
+  return { behavior, written: written.replace(/[^A-Za-z\s-]/g, ''), verb }
+}
+
+/**
+ * Verbs that start a second behavior joined on with "and", "or", "then" or a semicolon
+ */
+function findExtraBehaviors(behavior: string): string[] {
+  if (SINGLE_SKILL_PAIRS.some(pattern => pattern.test(behavior))) return []
+
+  return behavior
+    .split(/\s*;\s*|,?\s+(?:and(?:\s+then)?|or|then|as\s+well\s+as)\s+/i)
+    .slice(1)
+    .map(clause => {
+      const [word = ''] = clause.trim().split(/\s+/)
+      return UNMEASURABLE_PATTERN.test(clause.trim()) ? word.toLowerCase() : findBloomVerb(clause) ?? toBaseVerb(word)
+    })
+    .filter(verb => (isBloomVerb(verb) && !NOUN_LIKE_VERBS.has(verb)) || UNMEASURABLE_PATTERN.test(verb))
+}
+
+function lintObjective(objective: LearningObjective, goalVerbs: Set<string>, isRepeat: boolean): ObjectiveIssue[] {
+  const issues: ObjectiveIssue[] = []
+  const { behavior, written, verb } = readBehavior(objective)
+  const level = normalizeBloomLevel(objective.bloomLevel)
+  const verbLevel = classifyBloomVerb(verb)
+
+  const unmeasurable = behavior.match(UNMEASURABLE_PATTERN)
+  if (unmeasurable) {
+    issues.push({
+      kind: 'unmeasurable-verb',
+      severity: 'warning',
+      message: `${quote(unmeasurable[0].toLowerCase())} can't be observed or measured. Use a verb for something learners can show.`,
+      phrase: unmeasurable[0],
+      suggestions: suggestVerbs(level, goalVerbs)
+    })
+  } else if (level && verbLevel && verbLevel !== level) {
+    issues.push({
+      kind: 'level-mismatch',
+      severity: 'warning',
+      message: `${quote(verb)} is usually ${withArticle(verbLevel)} verb, not ${level}. Change the verb or the level.`,
+      phrase: written,
+      suggestions: suggestVerbs(level, goalVerbs)
+    })
+  }
+
+  if (isRepeat && !unmeasurable) {
+    issues.push({
+      kind: 'duplicate-verb',
+      severity: 'warning',
+      message: `Another objective for this goal also uses ${quote(verb)}. A different verb for each makes each one assess something new.`,
+      phrase: written,
+      suggestions: suggestVerbs(level ?? verbLevel, goalVerbs)
+    })
+  }
+
+  const extraBehaviors = findExtraBehaviors(behavior)
+  if (extraBehaviors.length > 0) {
+    const verbs = [unmeasurable?.[0].toLowerCase() ?? verb, ...extraBehaviors].map(quote).join(', ')
+    issues.push({
+      kind: 'compound-behavior',
+      severity: 'warning',
+      message: `Combines more than one behavior (${verbs}). Split it into separate objectives so each can be assessed on its own.`
+    })
+  }
+
+  if (!objective.components?.condition && !CONDITION_HINT_PATTERN.test(objective.description)) {
+    issues.push({
+      kind: 'missing-condition',
+      severity: 'note',
+      message: 'No condition: say under what circumstances learners will do this, e.g. "given a case study".'
+    })
+  }
+
+  if (!hasMeasurableCriterion(objective) && !CRITERION_HINT_PATTERN.test(objective.description)) {
+    issues.push({
+      kind: 'missing-criterion',
+      severity: 'note',
+      message: 'No criterion: say how well learners must do this, e.g. "with 90% accuracy".'
+    })
+  }
+
+  return issues
+}
+
+/**
+ * Lints each objective against the others for its goal, keyed by objective ID. Objectives
+ * with nothing to report are left out.
+ */
+export function lintObjectives(objectives: LearningObjective[]): Map<number, ObjectiveIssue[]> {
+  const results = new Map<number, ObjectiveIssue[]>()
+  const goalIds = [...new Set(objectives.map(objective => objective.goalId))]
+
+  goalIds.forEach(goalId => {
+    const goalObjectives = objectives.filter(objective => objective.goalId === goalId)
+    const verbs = goalObjectives.map(objective => readBehavior(objective).verb)
+    const goalVerbs = new Set(verbs.filter(Boolean))
+
+    goalObjectives.forEach((objective, index) => {
+      const verb = verbs[index]
+      // Only the later objectives are flagged, so the first one keeps the verb
+      const isRepeat = Boolean(verb) && verbs.indexOf(verb) < index
+      const issues = lintObjective(objective, goalVerbs, isRepeat)
+      if (issues.length > 0) results.set(objective.id, issues)
+    })
+  })
+
+  return results
+}
+
+/**
+ * Swaps the first use of a verb or phrase for a suggested verb, keeping a capital letter at the
+ * start. Returns null when the text doesn't contain it.
+ */
+export function replaceActionVerb(text: string, phrase: string, replacement: string): string | null {
+  const escaped = phrase.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+')
+  const match = escaped ? text.match(new RegExp(`\\b${escaped}\\b`, 'i')) : null
+  if (!match || match.index === undefined) return null
+
+  const isCapitalized = /^[A-Z]/.test(match[0])
+  const word = isCapitalized ? `${replacement.charAt(0).toUpperCase()}${replacement.slice(1)}` : replacement
+  return `${text.slice(0, match.index)}${word}${text.slice(match.index + match[0].length)}`
+}
@@ -0,0 +1,129 @@
+// Objective templates an institution saves on this device. The one in use drives the ABCD
+// builder's blanks and, when it isn't the built-in template, how the AI words objectives.
+import { parseObjectiveTemplate } from '../services/prompts'
+import { ABCD_TEMPLATE } from './objectiveBuilder'
+
+const TEMPLATES_STORAGE_KEY = 'rvtlo2:objective-templates'
+
+export interface ObjectiveTemplate {
+  id: string
+  name: string
+  template: string
+}
+
+interface TemplateStorage {
+  templates: ObjectiveTemplate[]
+  // ID of the template in use; the built-in template when unset
+  activeId: string | null
+}
+
+export const BUILT_IN_OBJECTIVE_TEMPLATE: ObjectiveTemplate = {
+  id: 'abcd',
+  name: 'ABCD (Audience, Behavior, Condition, Degree)',
+  template: ABCD_TEMPLATE
+}
+
+export const isBuiltInTemplate = (template: ObjectiveTemplate): boolean => template.id === BUILT_IN_OBJECTIVE_TEMPLATE.id
+
+/**
+ * Generate unique template ID
+ */
+function generateTemplateId(): string {
+  return `tpl_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`
+}
+
+function isObjectiveTemplate(value: unknown): value is ObjectiveTemplate {
+  if (!value || typeof value !== 'object') return false
+  const template = value as Record<string, unknown>
+
+  return (
+    typeof template.id === 'string' &&
+    typeof template.name === 'string' &&
+    typeof template.template === 'string' &&
+    parseObjectiveTemplate(template.template).success
+  )
+}
+
+/**
+ * Reads saved templates, skipping any with a broken shape or a template that no longer parses
+ */
+function readStorage(): TemplateStorage {
+  try {
+    const raw = localStorage.getItem(TEMPLATES_STORAGE_KEY)
+    if (!raw) return { templates: [], activeId: null }
+
+    const storage = JSON.parse(raw) as Partial<TemplateStorage>
+    const templates = Array.isArray(storage.templates) ? storage.templates.filter(isObjectiveTemplate) : []
+    const activeId = templates.some(template => template.id === storage.activeId) ? storage.activeId as string : null
+    return { templates, activeId }
+  } catch (error) {
+    console.warn('Unable to read objective templates:', error)
+    return { templates: [], activeId: null }
+  }
+}
+
+function writeStorage(storage: TemplateStorage): boolean {
+  try {
+    localStorage.setItem(TEMPLATES_STORAGE_KEY, JSON.stringify(storage))
+    return true
+  } catch (error) {
+    console.warn('Unable to save objective templates:', error)
+    return false
+  }
+}
+
+/**
+ * Lists the built-in template followed by the saved ones
+ */
+export function listObjectiveTemplates(): ObjectiveTemplate[] {
+  return [BUILT_IN_OBJECTIVE_TEMPLATE, ...readStorage().templates]
+}
+
+/**
+ * The template in use, falling back to the built-in one
+ */
+export function getActiveObjectiveTemplate(): ObjectiveTemplate {
+  const { templates, activeId } = readStorage()
+  return templates.find(template => template.id === activeId) ?? BUILT_IN_OBJECTIVE_TEMPLATE
+}
+
+/**
+ * Saves a new template, or replaces the one with the given ID. Returns null if the template
+ * doesn't parse or couldn't be stored.
+ */
+export function saveObjectiveTemplate(name: string, template: string, id?: string): ObjectiveTemplate | null {
+  const trimmedName = name.trim()
+  if (!trimmedName || !parseObjectiveTemplate(template).success) return null
+
+  const storage = readStorage()
+  const saved: ObjectiveTemplate = { id: id ?? generateTemplateId(), name: trimmedName, template }
+  const index = storage.templates.findIndex(item => item.id === saved.id)
+  if (index === -1) {
+    storage.templates.push(saved)
+  } else {
+    storage.templates[index] = saved
+  }
+
+  return writeStorage(storage) ? saved : null
+}
+
+/**
+ * Removes a saved template; the built-in template is used again if it was the active one
+ */
+export function deleteObjectiveTemplate(id: string): boolean {
+  const storage = readStorage()
+  const remaining = storage.templates.filter(template => template.id !== id)
+  if (remaining.length === storage.templates.length) return false
+
+  return writeStorage({ templates: remaining, activeId: storage.activeId === id ? null : storage.activeId })
+}
+
+/**
+ * Chooses the template the builder starts with and the AI writes objectives in
+ */
+export function setActiveObjectiveTemplate(id: string): boolean {
+  const storage = readStorage()
+  if (id !== BUILT_IN_OBJECTIVE_TEMPLATE.id && !storage.templates.some(template => template.id === id)) return false
+
+  return writeStorage({ ...storage, activeId: id === BUILT_IN_OBJECTIVE_TEMPLATE.id ? null : id })
+}
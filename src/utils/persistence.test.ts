@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { BloomLevel } from '../types'
+import {
+  PERSISTED_STATE_VERSION,
+  createSnapshot,
+  hasMeaningfulProgress,
+  loadSessionSnapshot,
+  parseSnapshot,
+  saveSessionSnapshot,
+  type PersistedState
+} from './persistence'
+
+const createState = (overrides: Partial<PersistedState> = {}): PersistedState => ({
+  currentStep: 'goals',
+  courseType: 'course',
+  courseSubject: 'Statistics',
+  targetAudience: 'First-year undergraduates',
+  instructionDuration: '12 weeks',
+  isSubjectConfirmed: true,
+  isSetupComplete: true,
+  goals: [{ id: 1, description: 'Interpret a confidence interval' }],
+  currentGoal: '',
+  refinedGoals: [],
+  approvedGoals: [],
+  refinedAssessments: [],
+  approvedAssessments: [],
+  refinedObjectives: [],
+  approvedObjectives: [],
+  aiUsage: [],
+  ...overrides
+})
+
+describe('parseSnapshot', () => {
+  it('accepts a snapshot created for the current version', () => {
+    const snapshot = createSnapshot(createState())
+    expect(parseSnapshot(JSON.parse(JSON.stringify(snapshot)))).toEqual(snapshot)
+  })
+
+  it('upgrades a version 1 snapshot, which predates usage tracking', () => {
+    const state: Partial<PersistedState> = createState()
+    delete state.aiUsage
+    const snapshot = { ...createSnapshot(createState()), version: 1, state }
+    expect(parseSnapshot(snapshot)).toEqual({ ...snapshot, version: PERSISTED_STATE_VERSION, state: createState() })
+  })
+
+  it('normalizes saved Bloom levels and infers unknown ones from the verb', () => {
+    const objective = { id: 1, goalId: 1, description: 'Compare two studies', assessmentAlignment: '' }
+    const snapshot = createSnapshot(createState({
+      approvedObjectives: [{ ...objective, bloomLevel: 'Synthesis' as BloomLevel }, { ...objective, id: 2, bloomLevel: 'Level 9' as BloomLevel }]
+    }))
+    expect(parseSnapshot(snapshot)?.state.approvedObjectives.map(item => item.bloomLevel)).toEqual(['Create', 'Analyze'])
+  })
+
+  it('rejects snapshots from another version', () => {
+    const snapshot = { ...createSnapshot(createState()), version: PERSISTED_STATE_VERSION + 1 }
+    expect(parseSnapshot(snapshot)).toBeNull()
+  })
+
+  it('rejects snapshots with an unknown step or a missing list', () => {
+    const snapshot = createSnapshot(createState())
+    expect(parseSnapshot({ ...snapshot, state: { ...snapshot.state, currentStep: 'finished' } })).toBeNull()
+    expect(parseSnapshot({ ...snapshot, state: { ...snapshot.state, goals: undefined } })).toBeNull()
+    expect(parseSnapshot('not a snapshot')).toBeNull()
+  })
+})
+
+describe('hasMeaningfulProgress', () => {
+  it('ignores a session that was never started', () => {
+    expect(hasMeaningfulProgress(createState({ courseType: null, courseSubject: ' ', goals: [] }))).toBe(false)
+    expect(hasMeaningfulProgress(createState({ courseType: null, courseSubject: 'Statistics', goals: [] }))).toBe(true)
+  })
+})
+
+describe('session storage', () => {
+  const storage = new Map<string, string>()
+
+  beforeEach(() => {
+    storage.clear()
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => storage.set(key, value),
+      removeItem: (key: string) => storage.delete(key)
+    })
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  it('reads back what it saved', () => {
+    expect(saveSessionSnapshot(createState())).toBe(true)
+    expect(loadSessionSnapshot()?.state).toEqual(createState())
+  })
+
+  it('discards a snapshot it cannot read', () => {
+    storage.set('rvtlo2:session', JSON.stringify({ version: PERSISTED_STATE_VERSION + 1 }))
+    expect(loadSessionSnapshot()).toBeNull()
+    expect(storage.size).toBe(0)
+  })
+})
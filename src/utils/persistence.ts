@@ -0,0 +1,239 @@
+import { inferBloomLevel, normalizeBloomLevel } from '../services/prompts'
+import { BLOOM_LEVELS, STEP_ORDER, type AppState, type LearningObjective, type Step } from '../types'
+import { isAIUsageEntry } from './aiUsage'
+
+// Bump this whenever the shape of PersistedState changes, and add a step to migrateSnapshot so
+// snapshots from the previous version are upgraded rather than discarded
+export const PERSISTED_STATE_VERSION = 2
+
+const SESSION_STORAGE_KEY = 'rvtlo2:session'
+
+// Delay before a state change is written to storage
+export const AUTOSAVE_DELAY_MS = 750
+
+/**
+ * The parts of the application state worth keeping across reloads.
+ * Transient UI state (loading, errors, help panel) is intentionally excluded.
+ */
+export type PersistedState = Pick<AppState,
+  | 'currentStep'
+  | 'courseType'
+  | 'courseSubject'
+  | 'targetAudience'
+  | 'instructionDuration'
+  | 'isSubjectConfirmed'
+  | 'isSetupComplete'
+  | 'goals'
+  | 'currentGoal'
+  | 'refinedGoals'
+  | 'approvedGoals'
+  | 'refinedAssessments'
+  | 'approvedAssessments'
+  | 'refinedObjectives'
+  | 'approvedObjectives'
+  | 'aiUsage'
+>
+
+export interface PersistedSnapshot {
+  version: number
+  savedAt: string
+  state: PersistedState
+  // Library entry the session is being saved into, if any
+  frameworkId: string | null
+}
+
+/**
+ * Extracts the persistable subset from the full application state
+ */
+export function extractPersistedState(state: PersistedState): PersistedState {
+  return {
+    currentStep: state.currentStep,
+    courseType: state.courseType,
+    courseSubject: state.courseSubject,
+    targetAudience: state.targetAudience,
+    instructionDuration: state.instructionDuration,
+    isSubjectConfirmed: state.isSubjectConfirmed,
+    isSetupComplete: state.isSetupComplete,
+    goals: state.goals,
+    currentGoal: state.currentGoal,
+    refinedGoals: state.refinedGoals,
+    approvedGoals: state.approvedGoals,
+    refinedAssessments: state.refinedAssessments,
+    approvedAssessments: state.approvedAssessments,
+    refinedObjectives: state.refinedObjectives,
+    approvedObjectives: state.approvedObjectives,
+    // Library entries saved before usage tracking have none
+    aiUsage: state.aiUsage ?? []
+  }
+}
+
+// Levels saved by older versions or edited by hand ("Analysis", "analyse") are read as their
+// standard name; one that names no level is inferred from the objective's verb
+const restoreBloomLevel = (objective: LearningObjective): LearningObjective => ({
+  ...objective,
+  bloomLevel: normalizeBloomLevel(String(objective.bloomLevel)) ?? inferBloomLevel(String(objective.description)) ?? BLOOM_LEVELS[2]
+})
+
+/**
+ * Extracts state read back from storage, normalizing each objective's Bloom level
+ */
+export function restorePersistedState(state: PersistedState): PersistedState {
+  const restored = extractPersistedState(state)
+  return {
+    ...restored,
+    refinedObjectives: restored.refinedObjectives.map(restoreBloomLevel),
+    approvedObjectives: restored.approvedObjectives.map(restoreBloomLevel)
+  }
+}
+
+/**
+ * Creates the persisted state of a brand new, empty framework
+ */
+export function createEmptyPersistedState(): PersistedState {
+  return {
+    currentStep: 'intro',
+    courseType: null,
+    courseSubject: '',
+    targetAudience: '',
+    instructionDuration: '',
+    isSubjectConfirmed: false,
+    isSetupComplete: false,
+    goals: [],
+    currentGoal: '',
+    refinedGoals: [],
+    approvedGoals: [],
+    refinedAssessments: [],
+    approvedAssessments: [],
+    refinedObjectives: [],
+    approvedObjectives: [],
+    aiUsage: []
+  }
+}
+
+/**
+ * Checks whether the state holds anything the user would want to resume
+ */
+export function hasMeaningfulProgress(state: PersistedState): boolean {
+  return state.courseType !== null || state.courseSubject.trim().length > 0 || state.goals.length > 0
+}
+
+/**
+ * Shallow structural check so a corrupted or hand-edited snapshot can't break the app
+ */
+export function isPersistedState(value: unknown): value is PersistedState {
+  if (!value || typeof value !== 'object') return false
+  const state = value as Record<string, unknown>
+
+  const arrayFields = [
+    'goals',
+    'refinedGoals',
+    'approvedGoals',
+    'refinedAssessments',
+    'approvedAssessments',
+    'refinedObjectives',
+    'approvedObjectives'
+  ]
+  const stringFields = ['courseSubject', 'targetAudience', 'instructionDuration', 'currentGoal']
+
+  return (
+    STEP_ORDER.includes(state.currentStep as Step) &&
+    (state.courseType === null || state.courseType === 'course' || state.courseType === 'workshop') &&
+    typeof state.isSubjectConfirmed === 'boolean' &&
+    typeof state.isSetupComplete === 'boolean' &&
+    stringFields.every(field => typeof state[field] === 'string') &&
+    arrayFields.every(field => Array.isArray(state[field])) &&
+    (state.aiUsage === undefined || (Array.isArray(state.aiUsage) && state.aiUsage.every(isAIUsageEntry)))
+  )
+}
+
+/**
+ * Builds a versioned snapshot of the given state
+ */
+export function createSnapshot(state: PersistedState, frameworkId: string | null = null): PersistedSnapshot {
+  return {
+    version: PERSISTED_STATE_VERSION,
+    savedAt: new Date().toISOString(),
+    state: extractPersistedState(state),
+    frameworkId
+  }
+}
+
+/**
+ * Brings a stored snapshot up to PERSISTED_STATE_VERSION, one version at a time. Returns null
+ * for a snapshot written by a newer version of the app or with no version at all.
+ */
+function migrateSnapshot(snapshot: Partial<PersistedSnapshot>): Partial<PersistedSnapshot> | null {
+  let { version, state } = snapshot
+
+  // Version 2 added aiUsage
+  if (version === 1 && state && typeof state === 'object') {
+    state = { ...state, aiUsage: state.aiUsage ?? [] }
+    version = 2
+  }
+
+  return version === PERSISTED_STATE_VERSION ? { ...snapshot, version, state } : null
+}
+
+/**
+ * Validates a raw value read from storage, returning null for unknown versions or shapes
+ */
+export function parseSnapshot(value: unknown): PersistedSnapshot | null {
+  if (!value || typeof value !== 'object') return null
+  const snapshot = migrateSnapshot(value as Partial<PersistedSnapshot>)
+
+  if (!snapshot) return null
+  if (typeof snapshot.savedAt !== 'string') return null
+  if (!isPersistedState(snapshot.state)) return null
+
+  return {
+    version: PERSISTED_STATE_VERSION,
+    savedAt: snapshot.savedAt,
+    state: restorePersistedState(snapshot.state),
+    frameworkId: typeof snapshot.frameworkId === 'string' ? snapshot.frameworkId : null
+  }
+}
+
+/**
+ * Writes the current session snapshot to localStorage
+ */
+export function saveSessionSnapshot(state: PersistedState, frameworkId: string | null = null): boolean {
+  try {
+    localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(createSnapshot(state, frameworkId)))
+    return true
+  } catch (error) {
+    // Storage can be full or unavailable (private browsing, embedded iframes)
+    console.warn('Unable to save session snapshot:', error)
+    return false
+  }
+}
+
+/**
+ * Reads the saved session snapshot, discarding it if it is unreadable or from another schema version
+ */
+export function loadSessionSnapshot(): PersistedSnapshot | null {
+  try {
+    const raw = localStorage.getItem(SESSION_STORAGE_KEY)
+    if (!raw) return null
+
+    const snapshot = parseSnapshot(JSON.parse(raw))
+    if (!snapshot) {
+      console.warn('Discarding incompatible session snapshot')
+      localStorage.removeItem(SESSION_STORAGE_KEY)
+    }
+    return snapshot
+  } catch (error) {
+    console.warn('Unable to load session snapshot:', error)
+    return null
+  }
+}
+
+/**
+ * Removes the saved session snapshot
+ */
+export function clearSessionSnapshot(): void {
+  try {
+    localStorage.removeItem(SESSION_STORAGE_KEY)
+  } catch (error) {
+    console.warn('Unable to clear session snapshot:', error)
+  }
+}
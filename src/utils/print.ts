@@ -0,0 +1,41 @@
+/**
+ * Print a standalone HTML document without navigating away from the app.
+ * Uses a hidden iframe so popup blockers don't interfere; the browser's print
+ * dialog also offers "Save as PDF".
+ */
+export function printHtmlDocument(html: string): Promise<boolean> {
+  return new Promise((resolve) => {
+    const iframe = document.createElement('iframe')
+    iframe.setAttribute('aria-hidden', 'true')
+    iframe.style.position = 'fixed'
+    iframe.style.right = '0'
+    iframe.style.bottom = '0'
+    iframe.style.width = '0'
+    iframe.style.height = '0'
+    iframe.style.border = '0'
+
+    iframe.onload = () => {
+      const frameWindow = iframe.contentWindow
+      if (!frameWindow) {
+        document.body.removeChild(iframe)
+        resolve(false)
+        return
+      }
+
+      try {
+        frameWindow.focus()
+        frameWindow.print()
+        resolve(true)
+      } catch (err) {
+        console.warn('Printing failed:', err)
+        resolve(false)
+      } finally {
+        // print() blocks in most browsers; give the rest time to spool before cleanup
+        setTimeout(() => iframe.remove(), 1000)
+      }
+    }
+
+    iframe.srcdoc = html
+    document.body.appendChild(iframe)
+  })
+}
@@ -0,0 +1,60 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createEmptyPersistedState } from './persistence'
+import { LIBRARY_VERSION, createFramework, deleteFramework, listFrameworks, renameFramework } from './projectLibrary'
+
+const LIBRARY_KEY = 'rvtlo2:library'
+const storage = new Map<string, string>()
+
+beforeEach(() => {
+  storage.clear()
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => storage.set(key, value),
+    removeItem: (key: string) => storage.delete(key)
+  })
+  vi.spyOn(console, 'warn').mockImplementation(() => {})
+})
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+  vi.restoreAllMocks()
+})
+
+describe('project library', () => {
+  it('saves, renames and deletes frameworks', () => {
+    const framework = createFramework('  BIO 101  ', { ...createEmptyPersistedState(), courseSubject: 'Biology' })
+    expect(framework?.name).toBe('BIO 101')
+
+    expect(renameFramework(framework!.id, 'BIO 102')).toBe(true)
+    expect(listFrameworks().map(saved => saved.name)).toEqual(['BIO 102'])
+
+    expect(deleteFramework(framework!.id)).toBe(true)
+    expect(listFrameworks()).toEqual([])
+  })
+
+  it('never writes over a library from a newer version', () => {
+    const newer = JSON.stringify({ version: LIBRARY_VERSION + 1, frameworks: [{ id: 'kept' }] })
+    storage.set(LIBRARY_KEY, newer)
+
+    expect(createFramework('New', createEmptyPersistedState())).toBeNull()
+    expect(listFrameworks()).toEqual([])
+    expect(storage.get(LIBRARY_KEY)).toBe(newer)
+  })
+
+  it('never writes over a library it cannot parse', () => {
+    storage.set(LIBRARY_KEY, '{ broken')
+    expect(createFramework('New', createEmptyPersistedState())).toBeNull()
+    expect(storage.get(LIBRARY_KEY)).toBe('{ broken')
+  })
+
+  it('keeps entries it cannot read when saving', () => {
+    const unreadable = { id: 'fw_hand_edited', name: 'Hand edited' }
+    storage.set(LIBRARY_KEY, JSON.stringify({ version: LIBRARY_VERSION, frameworks: [unreadable] }))
+
+    createFramework('New', createEmptyPersistedState())
+
+    const stored = JSON.parse(storage.get(LIBRARY_KEY)!)
+    expect(stored.frameworks).toHaveLength(2)
+    expect(stored.frameworks).toContainEqual(unreadable)
+  })
+})
@@ -0,0 +1,212 @@
+import { extractPersistedState, isPersistedState, restorePersistedState, type PersistedState } from './persistence'
+
+const LIBRARY_STORAGE_KEY = 'rvtlo2:library'
+
+// Version of the stored library's shape, separate from the session snapshot version. Bump it
+// when LibraryStorage or SavedFramework changes, and add a step to migrateLibrary.
+export const LIBRARY_VERSION = 1
+
+export const DEFAULT_FRAMEWORK_NAME = 'Untitled framework'
+
+/**
+ * A named framework saved in the project library
+ */
+export interface SavedFramework {
+  id: string
+  name: string
+  createdAt: string
+  updatedAt: string
+  state: PersistedState
+}
+
+interface LibraryStorage {
+  version: number
+  // Saved frameworks, plus any entries this version of the app can't read
+  frameworks: unknown[]
+}
+
+/**
+ * Generate unique framework ID
+ */
+function generateFrameworkId(): string {
+  return `fw_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`
+}
+
+function isSavedFramework(value: unknown): value is SavedFramework {
+  if (!value || typeof value !== 'object') return false
+  const framework = value as Record<string, unknown>
+
+  return (
+    typeof framework.id === 'string' &&
+    typeof framework.name === 'string' &&
+    typeof framework.createdAt === 'string' &&
+    typeof framework.updatedAt === 'string' &&
+    isPersistedState(framework.state)
+  )
+}
+
+interface LoadedLibrary {
+  frameworks: SavedFramework[]
+  // Entries that couldn't be read, written back untouched so a save never drops them
+  unreadable: unknown[]
+}
+
+/**
+ * Brings a stored library up to LIBRARY_VERSION, one version at a time. Returns null for a
+ * library written by a newer version of the app or something that isn't a library at all.
+ */
+function migrateLibrary(value: unknown): unknown[] | null {
+  if (!value || typeof value !== 'object') return null
+  const library = value as Partial<LibraryStorage>
+  if (typeof library.version !== 'number' || !Array.isArray(library.frameworks)) return null
+
+  // Version 1 is the current shape; steps for later versions go here, e.g.
+  // if (version === 1) { frameworks = frameworks.map(upgradeFromVersion1); version = 2 }
+  return library.version === LIBRARY_VERSION ? library.frameworks : null
+}
+
+/**
+ * Reads the library from storage. Returns null when it can't be read or migrated, in which case
+ * nothing may be written back over it.
+ */
+function readLibrary(): LoadedLibrary | null {
+  try {
+    const raw = localStorage.getItem(LIBRARY_STORAGE_KEY)
+    if (!raw) return { frameworks: [], unreadable: [] }
+
+    const entries = migrateLibrary(JSON.parse(raw))
+    if (!entries) {
+      console.warn('Ignoring incompatible project library')
+      return null
+    }
+
+    return {
+      frameworks: entries
+        .filter(isSavedFramework)
+        .map(framework => ({ ...framework, state: restorePersistedState(framework.state) })),
+      unreadable: entries.filter(entry => !isSavedFramework(entry))
+    }
+  } catch (error) {
+    console.warn('Unable to read project library:', error)
+    return null
+  }
+}
+
+/**
+ * Reads all frameworks from storage, skipping entries with a broken shape
+ */
+const readFrameworks = (): SavedFramework[] => readLibrary()?.frameworks ?? []
+
+/**
+ * Reads the library, applies a change to its frameworks and writes it back. Does nothing when
+ * the stored library couldn't be read, so it is never overwritten.
+ */
+function updateLibrary(change: (frameworks: SavedFramework[]) => SavedFramework[] | null): boolean {
+  const library = readLibrary()
+  if (!library) return false
+
+  const frameworks = change(library.frameworks)
+  if (!frameworks) return false
+
+  try {
+    const storage: LibraryStorage = { version: LIBRARY_VERSION, frameworks: [...frameworks, ...library.unreadable] }
+    localStorage.setItem(LIBRARY_STORAGE_KEY, JSON.stringify(storage))
+    return true
+  } catch (error) {
+    console.warn('Unable to save project library:', error)
+    return false
+  }
+}
+
+/**
+ * Builds a readable default name from the course setup
+ */
+export function suggestFrameworkName(state: PersistedState): string {
+  const subject = state.courseSubject.trim()
+  if (!subject) return DEFAULT_FRAMEWORK_NAME
+  return state.courseType ? `${subject} (${state.courseType})` : subject
+}
+
+/**
+ * Lists saved frameworks, most recently updated first
+ */
+export function listFrameworks(): SavedFramework[] {
+  return readFrameworks().sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+}
+
+/**
+ * Finds a saved framework by ID
+ */
+export function getFramework(id: string): SavedFramework | null {
+  return readFrameworks().find(framework => framework.id === id) ?? null
+}
+
+/**
+ * Saves the given state as a new framework in the library
+ */
+export function createFramework(name: string, state: PersistedState): SavedFramework | null {
+  const now = new Date().toISOString()
+  const framework: SavedFramework = {
+    id: generateFrameworkId(),
+    name: name.trim() || DEFAULT_FRAMEWORK_NAME,
+    createdAt: now,
+    updatedAt: now,
+    state: extractPersistedState(state)
+  }
+
+  return updateLibrary(frameworks => [...frameworks, framework]) ? framework : null
+}
+
+/**
+ * Replaces the saved state of an existing framework
+ */
+export function updateFramework(id: string, state: PersistedState): boolean {
+  return updateLibrary(frameworks => {
+    const index = frameworks.findIndex(framework => framework.id === id)
+    if (index === -1) return null
+
+    frameworks[index] = {
+      ...frameworks[index],
+      state: extractPersistedState(state),
+      updatedAt: new Date().toISOString()
+    }
+    return frameworks
+  })
+}
+
+/**
+ * Renames a saved framework
+ */
+export function renameFramework(id: string, name: string): boolean {
+  const trimmedName = name.trim()
+  if (!trimmedName) return false
+
+  return updateLibrary(frameworks => {
+    const framework = frameworks.find(item => item.id === id)
+    if (!framework) return null
+
+    framework.name = trimmedName
+    framework.updatedAt = new Date().toISOString()
+    return frameworks
+  })
+}
+
+/**
+ * Copies a saved framework under a new name
+ */
+export function duplicateFramework(id: string): SavedFramework | null {
+  const original = getFramework(id)
+  if (!original) return null
+
+  return createFramework(`${original.name} (copy)`, original.state)
+}
+
+/**
+ * Removes a framework from the library
+ */
+export function deleteFramework(id: string): boolean {
+  return updateLibrary(frameworks => {
+    const remaining = frameworks.filter(framework => framework.id !== id)
+    return remaining.length === frameworks.length ? null : remaining
+  })
+}
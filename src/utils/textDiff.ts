@@ -0,0 +1,53 @@
+export type DiffSegmentType = 'equal' | 'added' | 'removed'
+
+export interface DiffSegment {
+  type: DiffSegmentType
+  text: string
+}
+
+/**
+ * Word-level diff between two texts using a longest-common-subsequence table.
+ * Whitespace is kept attached to the tokens so the segments join back into the original texts.
+ */
+export function diffWords(before: string, after: string): DiffSegment[] {
+  const a = before.match(/\s*\S+/g) ?? []
+  const b = after.match(/\s*\S+/g) ?? []
+
+  // lcs[i][j] = length of the common subsequence of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0))
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i].trim() === b[j].trim()
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+
+  const segments: DiffSegment[] = []
+  const push = (type: DiffSegmentType, text: string) => {
+    const last = segments[segments.length - 1]
+    if (last && last.type === type) {
+      last.text += text
+    } else {
+      segments.push({ type, text })
+    }
+  }
+
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i].trim() === b[j].trim()) {
+      push('equal', b[j])
+      i++
+      j++
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push('removed', a[i++])
+    } else {
+      push('added', b[j++])
+    }
+  }
+  while (i < a.length) push('removed', a[i++])
+  while (j < b.length) push('added', b[j++])
+
+  return segments
+}
@@ -1,5 +1,6 @@
 import type { Goal } from '../types'
 import { createAppError, ErrorCategory, ErrorSeverity, type AppError } from './errorHandling'
+import { USER_TEXT_LIMITS, describeInstructionLikeContent, findInstructionLikeContent } from '../services/prompts'
 
 export interface ValidationResult {
   isValid: boolean
@@ -34,6 +35,17 @@ function createValidationError(message: string, field: string): AppError {
   )
 }
 
+/**
+ * Rejects text that reads like an instruction to the AI; the AI function applies the same check
+ */
+function checkInstructionLikeContent(value: string, field: string): ValidationResult | null {
+  const phrase = findInstructionLikeContent(value)
+  if (!phrase) return null
+
+  const error = describeInstructionLikeContent(field, phrase)
+  return { isValid: false, error, appError: createValidationError(error, field.toLowerCase()) }
+}
+
 /**
  * Enhanced validation with immediate feedback helpers
  */
@@ -95,8 +107,8 @@ export const validateCourseSubject = (courseSubject: string): ValidationResult =
     }
   }
   
-  if (trimmedSubject.length > 100) {
-    const error = 'Course subject should be under 100 characters.'
+  if (trimmedSubject.length > USER_TEXT_LIMITS.courseSubject) {
+    const error = `Course subject should be under ${USER_TEXT_LIMITS.courseSubject} characters.`
     return { 
       isValid: false, 
       error,
@@ -104,7 +116,7 @@ export const validateCourseSubject = (courseSubject: string): ValidationResult =
     }
   }
   
-  return { isValid: true }
+  return checkInstructionLikeContent(trimmedSubject, 'Course subject') ?? { isValid: true }
 }
 
 /**
@@ -121,11 +133,11 @@ export const validateTargetAudience = (targetAudience: string): ValidationResult
     return { isValid: false, error: 'Target audience description should be at least 5 characters long.' }
   }
   
-  if (trimmedAudience.length > 200) {
-    return { isValid: false, error: 'Target audience description should be under 200 characters.' }
+  if (trimmedAudience.length > USER_TEXT_LIMITS.targetAudience) {
+    return { isValid: false, error: `Target audience description should be under ${USER_TEXT_LIMITS.targetAudience} characters.` }
   }
   
-  return { isValid: true }
+  return checkInstructionLikeContent(trimmedAudience, 'Target audience') ?? { isValid: true }
 }
 
 /**
@@ -142,11 +154,11 @@ export const validateInstructionDuration = (instructionDuration: string): Valida
     return { isValid: false, error: 'Duration should be at least 3 characters long.' }
   }
   
-  if (trimmedDuration.length > 100) {
-    return { isValid: false, error: 'Duration should be under 100 characters.' }
+  if (trimmedDuration.length > USER_TEXT_LIMITS.instructionDuration) {
+    return { isValid: false, error: `Duration should be under ${USER_TEXT_LIMITS.instructionDuration} characters.` }
   }
   
-  return { isValid: true }
+  return checkInstructionLikeContent(trimmedDuration, 'Duration') ?? { isValid: true }
 }
 
 /**
@@ -167,10 +179,13 @@ export const validateGoal = (
     return { isValid: false, error: 'Goals should be at least 10 characters long for meaningful refinement.' }
   }
   
-  if (trimmedGoal.length > 300) {
-    return { isValid: false, error: 'Goals should be under 300 characters. Consider breaking into multiple goals.' }
+  if (trimmedGoal.length > USER_TEXT_LIMITS.goal) {
+    return { isValid: false, error: `Goals should be under ${USER_TEXT_LIMITS.goal} characters. Consider breaking into multiple goals.` }
   }
   
+  const instructionLike = checkInstructionLikeContent(trimmedGoal, 'This goal')
+  if (instructionLike) return instructionLike
+  
   // Check if the goal appears to be just the course subject
   if (courseSubject && courseSubject.trim().toLowerCase() === trimmedGoal.toLowerCase()) {
     return { isValid: false, error: `Please enter a learning goal, not the course subject. Goals should describe what students will be able to do related to "${courseSubject}".` }
@@ -193,6 +208,13 @@ export const validateGoal = (
   return { isValid: true }
 }
 
+/**
+ * Validates text edited inline on a goal, assessment strategy or learning objective, which is
+ * sent back to the AI when the framework is regenerated or revised
+ */
+export const validateEditedText = (value: string, field: string): ValidationResult =>
+  checkInstructionLikeContent(value.trim(), field) ?? { isValid: true }
+
 /**
  * Validates and confirms course subject with side effects
  */
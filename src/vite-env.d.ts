@@ -1 +1,16 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Where AI requests go: the Netlify Function (default), the Anthropic API with the user's own key
+  // (static mode), a local OpenAI-compatible server, or offline canned responses
+  readonly VITE_AI_PROVIDER?: 'netlify' | 'anthropic' | 'openai-compatible' | 'mock'
+  readonly VITE_OPENAI_COMPATIBLE_URL?: string
+  readonly VITE_OPENAI_COMPATIBLE_MODEL?: string
+  readonly VITE_OPENAI_COMPATIBLE_API_KEY?: string
+  // JSON object of model name prefix to US dollars per million input/output tokens, for the usage panel
+  readonly VITE_AI_TOKEN_PRICES?: string
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv
+}
@@ -2,8 +2,13 @@ import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 
 // https://vite.dev/config/
-export default defineConfig({
+export default defineConfig(({ mode }) => ({
   plugins: [react()],
+
+  // Static builds (`npm run build:static`) use relative asset paths so they work from any folder,
+  // e.g. files uploaded to an LMS course
+  base: mode === 'static' ? './' : '/',
+
   build: {
     // Enable minification and compression
     minify: 'terser',
@@ -42,4 +47,4 @@ export default defineConfig({
   optimizeDeps: {
     include: ['react', 'react-dom']
   }
-})
+}))